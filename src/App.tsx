@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Login } from './components/Auth/Login';
 import { Sidebar } from './components/Layout/Sidebar';
 import { Header } from './components/Layout/Header';
+import { JobTray } from './components/Layout/JobTray';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { Settings } from './components/Settings/Settings';
 import { VantageApps } from './components/VantageApps/VantageApps';
@@ -33,5 +34,6 @@ export function App() {
           {currentPage === 'hello' && <HelloWorld />}
         </main>
       </div>
+      <JobTray onOpenApps={() => setCurrentPage('apps')} />
     </div>;
 }
\ No newline at end of file
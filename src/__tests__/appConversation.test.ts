@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { AppMessage, conversationContext } from '../models/AppConversation';
+
+const message = (role: AppMessage['role'], content: string, details: Partial<AppMessage> = {}): AppMessage => ({
+  id: content,
+  appId: 'app-1',
+  role,
+  content,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  ...details
+});
+
+describe('conversationContext', () => {
+  it('drops failed turns and merges the requests around them', () => {
+    const context = conversationContext([
+      message('user', 'Add a reset button'),
+      message('assistant', 'Failed to apply the change', { error: true }),
+      message('user', 'Make it red'),
+      message('assistant', 'Added a red reset button', { revisionId: 'rev-1' })
+    ]);
+
+    expect(context).toEqual([
+      { role: 'user', content: 'Add a reset button\n\nMake it red' },
+      { role: 'assistant', content: 'Added a red reset button' }
+    ]);
+  });
+
+  it('starts with a user turn and leaves out an unanswered request', () => {
+    const messages = [
+      message('user', 'one'),
+      message('assistant', 'two'),
+      message('user', 'three'),
+      message('assistant', 'four'),
+      message('user', 'five')
+    ];
+
+    expect(conversationContext(messages, 4)).toEqual([{ role: 'user', content: 'three' }, { role: 'assistant', content: 'four' }]);
+  });
+});
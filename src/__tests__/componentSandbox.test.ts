@@ -0,0 +1,89 @@
+// @vitest-environment jsdom
+import fs from 'fs';
+import path from 'path';
+import { JSDOM, ResourceLoader, VirtualConsole } from 'jsdom';
+import { describe, expect, it } from 'vitest';
+import { ComponentReport, ComponentSandbox } from '../utils/ComponentSandbox';
+import { SandboxAssets } from '../utils/SandboxAssets';
+
+// The vendor files vite.config.ts serves to the sandbox, read straight from node_modules
+const VENDOR_FILES: Record<string, string> = {
+  'react.development.js': 'react/umd/react.development.js',
+  'react-dom.development.js': 'react-dom/umd/react-dom.development.js',
+  'babel.min.js': '@babel/standalone/babel.min.js',
+  'tailwindcss.js': 'tailwindcss-cdn/3.4.10/tailwindcss.js'
+};
+
+class VendorLoader extends ResourceLoader {
+  fetch(url: string) {
+    const file = VENDOR_FILES[url.split('/vendor/')[1]];
+    if (!file) return null;
+    return Object.assign(Promise.resolve(fs.readFileSync(path.resolve('node_modules', file))), { abort: () => undefined });
+  }
+}
+
+// Loads the document as a top-level page, where `parent` is the page itself. Closing the
+// page mutates it, so Tailwind's observers are disconnected first or they run on a dead document.
+const render = (code: string): Promise<ComponentReport> => new Promise((resolve, reject) => {
+  const observers: MutationObserver[] = [];
+  const dom = new JSDOM(ComponentSandbox.buildDocument(code), {
+    url: window.location.href,
+    runScripts: 'dangerously',
+    resources: new VendorLoader(),
+    // The report carries the page's console output
+    virtualConsole: new VirtualConsole(),
+    beforeParse: frame => {
+      frame.MutationObserver = class extends frame.MutationObserver {
+        constructor(callback: MutationCallback) {
+          super(callback);
+          observers.push(this);
+        }
+      };
+      frame.addEventListener('message', event => {
+        const report = ComponentSandbox.readMessage(event.data);
+        if (!report) return;
+        clearTimeout(timeoutId);
+        close();
+        resolve(report);
+      });
+    }
+  });
+  const close = () => {
+    observers.forEach(observer => observer.disconnect());
+    dom.window.close();
+  };
+  const timeoutId = setTimeout(() => {
+    close();
+    reject(new Error('The frame never reported'));
+  }, 15000);
+});
+
+describe('ComponentSandbox', () => {
+  it('reports a valid component as rendered', async () => {
+    const report = await render(`import React from 'react';
+
+export default function App() {
+  const [count, setCount] = React.useState(0);
+  return <button className="px-4 py-2" onClick={() => setCount(count + 1)}>Clicked {count} times</button>;
+}`);
+
+    expect(report).toEqual({ rendered: true, hasVisibleContent: true, errors: [], warnings: [] });
+  }, 20000);
+
+  it('reports what a component throws while rendering', async () => {
+    const report = await render(`export default function App() {
+  const items = undefined;
+  return <ul>{items.map(item => <li>{item}</li>)}</ul>;
+}`);
+
+    expect(report.errors.some(error => error.includes("Cannot read properties of undefined (reading 'map')"))).toBe(true);
+  }, 20000);
+
+  it('only lets images load from the allowed hosts', () => {
+    const imageSources = SandboxAssets.contentSecurityPolicy(['picsum.photos', 'bad host; script-src *'])
+      .split('; ')
+      .find(directive => directive.startsWith('img-src'));
+
+    expect(imageSources).toBe(`img-src ${window.location.origin} data: blob: https://picsum.photos https://*.picsum.photos`);
+  });
+});
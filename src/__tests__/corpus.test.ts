@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { codeRepairEngine } from '../utils/CodeRepairEngine';
+import { AppValidator } from '../utils/AppValidator';
+import { SyntaxChecker } from '../utils/SyntaxChecker';
+
+const react = import.meta.glob<string>('./corpus/react/*.jsx', { query: '?raw', import: 'default', eager: true });
+const valid = import.meta.glob<string>('./corpus/valid/*.jsx', { query: '?raw', import: 'default', eager: true });
+const html = import.meta.glob<string>('./corpus/html/*.html', { query: '?raw', import: 'default', eager: true });
+const expectedHtmlErrors = import.meta.glob<Record<string, string[]>>('./corpus/html/expected-errors.json', {
+  import: 'default',
+  eager: true
+})['./corpus/html/expected-errors.json'];
+
+/** What a removed fixer returned for a case: its code, null when it gave up, or a note that it never returned */
+type LegacyOutput = string | null | { timedOut: true };
+const legacyOutputs = import.meta.glob<Record<string, Record<string, LegacyOutput>>>('./corpus/legacy-outputs.json', {
+  import: 'default',
+  eager: true
+})['./corpus/legacy-outputs.json'];
+
+const fileName = (path: string): string => path.split('/').pop() || path;
+
+const repairCases = Object.keys(react)
+  .filter(path => path.endsWith('.broken.jsx'))
+  .map(path => ({
+    name: fileName(path).replace('.broken.jsx', ''),
+    broken: react[path],
+    fixed: react[path.replace('.broken.jsx', '.fixed.jsx')]
+  }));
+
+describe('repair corpus', () => {
+  it('has an expected result for every broken component', () => {
+    expect(repairCases.length).toBeGreaterThan(0);
+    repairCases.forEach(({ name, fixed }) => expect(fixed, name).toBeDefined());
+  });
+
+  describe.each(repairCases)('$name', ({ broken, fixed }) => {
+    it('repairs to the expected component', () => {
+      const result = codeRepairEngine.repair(broken);
+      expect(result.fixedCode).toBe(fixed);
+      expect(result.success).toBe(true);
+    });
+
+    it('leaves the repaired component alone', () => {
+      expect(codeRepairEngine.repair(fixed).fixedCode).toBe(fixed);
+    });
+
+    it('validates the repaired component cleanly', () => {
+      expect(AppValidator.validate(fixed).errors).toEqual([]);
+    });
+  });
+});
+
+describe.each(Object.keys(valid).map(path => ({ name: fileName(path), code: valid[path] })))(
+  'valid component $name',
+  ({ code }) => {
+    it('parses', () => {
+      expect(SyntaxChecker.checkScript(code, { jsx: true })).toEqual([]);
+    });
+
+    it('is not changed by repair', () => {
+      const result = codeRepairEngine.repair(code);
+      expect(result.fixedCode).toBe(code);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('validates cleanly', () => {
+      expect(AppValidator.validate(code).errors).toEqual([]);
+    });
+  }
+);
+
+describe.each(Object.keys(html).map(path => ({ name: fileName(path), code: html[path] })))(
+  'HTML page $name',
+  ({ name, code }) => {
+    it('reports exactly the expected errors', () => {
+      expect(expectedHtmlErrors[name], `${name} is missing from expected-errors.json`).toBeDefined();
+      expect(AppValidator.validateHtml(code).errors).toEqual(expectedHtmlErrors[name]);
+    });
+  }
+);
+
+const legacyCases = Object.keys(legacyOutputs)
+  .filter(key => key.startsWith('react/'))
+  .map(key => ({ name: key.replace('react/', ''), broken: react[`./corpus/${key}.broken.jsx`], outputs: legacyOutputs[key] }));
+
+describe.each(legacyCases)('legacy fixers on $name', ({ broken, outputs }) => {
+  it('fixed nothing the repair engine does not', () => {
+    const fixedBy = Object.keys(outputs).filter(fixer => {
+      const output = outputs[fixer];
+      return typeof output === 'string' && output !== broken && AppValidator.validate(output).errors.length === 0;
+    });
+    if (fixedBy.length === 0) return;
+
+    expect(AppValidator.validate(codeRepairEngine.repair(broken).fixedCode).errors, `fixed by ${fixedBy.join(', ')}`).toEqual([]);
+  });
+});
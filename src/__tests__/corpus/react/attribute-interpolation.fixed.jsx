@@ -0,0 +1,11 @@
+import React from 'react';
+
+export default function App() {
+  const [count, setCount] = React.useState(0);
+
+  return (
+    <button className="p-4" aria-label={`Click ${count} times`} onClick={() => setCount(count + 1)}>
+      {count}
+    </button>
+  );
+}
@@ -0,0 +1,11 @@
+import React from 'react';
+
+export default function App() {
+  const [count, setCount] = React.useState(0)
+
+  return (
+    <button className="px-4 py-2 rounded bg-blue-600 text-white" onClick={() => setCount(count + 1)}>
+      Clicked {count} times
+    </button>
+  );
+}
@@ -0,0 +1,12 @@
+import React from 'react';
+
+export default function App() {
+  const [isActive, setIsActive] = React.useState(false);
+
+  return (
+    <div className="p-6">
+      <h1 className={`${isActive ? "active" : ""}text-lg`}>Status</h1>
+      <button onClick={() => setIsActive(!isActive)}>Toggle</button>
+    </div>
+  );
+}
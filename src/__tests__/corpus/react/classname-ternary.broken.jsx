@@ -0,0 +1,13 @@
+import React from 'react';
+
+export default function App() {
+  const [isActive, setIsActive] = React.useState(false);
+
+  return (
+    <div className="p-6 space-y-2">
+      <p className={text-lg ${isActive ? "active" : ""}}>Large label</p>
+      <p className={text ${isActive ? "active" : ""}}>Plain label</p>
+      <button onClick={() => setIsActive(!isActive)}>Toggle</button>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import React from 'react';
+
+export default function App() {
+  return (
+    <div className="max-w-md mx-auto p-6">
+      {/* This is a comment */}
+      <h1 className="text-3xl font-bold">Notes</h1>
+    </div>
+  );
+}
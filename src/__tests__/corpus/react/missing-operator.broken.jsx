@@ -0,0 +1,22 @@
+import React from 'react';
+
+export default function App() {
+  const [a, b, deltaTime, value, index] = [2, 3, 16, 0.42, 1];
+  const array = ['red', 'green', 'blue'];
+
+  const color = array[Math.floor(Math.random()  array.length)];
+  const average = (a + b)  2;
+  const distance = 1.5  deltaTime;
+  const percent = value  100;
+  const previous = array[index  1];
+
+  return (
+    <ul className="p-6 font-mono">
+      <li>{color}</li>
+      <li>{average}</li>
+      <li>{distance}</li>
+      <li>{percent}</li>
+      <li>{previous}</li>
+    </ul>
+  );
+}
@@ -0,0 +1,13 @@
+import React from 'react';
+
+export default function App() {
+  const [width, setWidth] = React.useState(40);
+  const height = 12;
+
+  return (
+    <div className="p-8 space-y-4">
+      <div className="bg-green-500 rounded-full" style={{ width: ${width}%, height: ${height}px }} />
+      <button onClick={() => setWidth(Math.min(100, width + 10))}>Advance</button>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import React from 'react';
+
+export default function App() {
+  const [ids] = React.useState([1, 2, 3]);
+
+  return (
+    <ul className="p-4 space-y-2">
+      {ids.map(id => (
+        <li key={id} className="p-2 rounded bg-slate-100">{User`${id}`}</li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,13 @@
+import React from 'react';
+
+export default function App() {
+  const [winner, setWinner] = React.useState(null);
+  const status = winner ? `${winner} wins` : "Draw";
+
+  return (
+    <div className="p-6 text-center">
+      <h1 className="text-2xl font-bold mb-4">{status}</h1>
+      <button onClick={() => setWinner('X')}>X wins</button>
+    </div>
+  );
+}
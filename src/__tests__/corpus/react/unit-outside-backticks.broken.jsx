@@ -0,0 +1,14 @@
+import React from 'react';
+
+export default function App() {
+  const [value, setValue] = React.useState(40);
+  const height = 120;
+
+  return (
+    <div className="p-8 space-y-4">
+      <div className="bg-blue-500 h-4 rounded-full" style={{ width: `${value}`% }} />
+      <div className="bg-purple-300 rounded-lg" style={{ height: `${height}`px }} />
+      <button onClick={() => setValue(Math.min(100, value + 10))}>Grow</button>
+    </div>
+  );
+}
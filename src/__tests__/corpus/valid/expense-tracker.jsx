@@ -0,0 +1,25 @@
+import React from 'react';
+
+export default function App() {
+  const [expenses, setExpenses] = React.useState([
+    { id: 1, label: 'Coffee', amount: 3.5 },
+    { id: 2, label: 'Lunch', amount: 12 }
+  ]);
+  const total = expenses.reduce((sum, expense) => sum + expense.amount, 0);
+
+  const remove = id => setExpenses(expenses.filter(expense => expense.id !== id));
+
+  return (
+    <div className="max-w-sm mx-auto p-6 space-y-3">
+      <h1 className="text-2xl font-bold">Expenses</h1>
+      {expenses.map(expense => (
+        <div key={expense.id} className="flex justify-between">
+          <span>{expense.label}</span>
+          <span>${expense.amount.toFixed(2)}</span>
+          <button onClick={() => remove(expense.id)} aria-label={`Remove ${expense.label}`}>×</button>
+        </div>
+      ))}
+      <p className="font-semibold">Total: ${total.toFixed(2)}</p>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import React from 'react';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default function App() {
+  const [email, setEmail] = React.useState('');
+  const [submitted, setSubmitted] = React.useState(false);
+  const isValid = EMAIL_PATTERN.test(email);
+
+  const handleSubmit = event => {
+    event.preventDefault();
+    if (isValid) setSubmitted(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto p-6 space-y-4">
+      <label htmlFor="email" className="block text-sm font-medium">Email</label>
+      <input
+        id="email"
+        value={email}
+        onChange={event => setEmail(event.target.value)}
+        className={`w-full border rounded px-3 py-2 ${email && !isValid ? 'border-red-500' : 'border-gray-300'}`}
+      />
+      {email && !isValid && <p className="text-sm text-red-600">Please enter a valid email</p>}
+      <button type="submit" disabled={!isValid} className="w-full py-2 rounded bg-blue-600 text-white disabled:opacity-50">
+        Subscribe
+      </button>
+      {submitted && <p className="text-green-600">Thanks, {email}!</p>}
+    </form>
+  );
+}
@@ -0,0 +1,12 @@
+import React from 'react';
+
+export default function App() {
+  const [name, setName] = React.useState('World');
+
+  return (
+    <div className="p-6">
+      <div>Hello ${name}!</div>
+      <input value={name} onChange={event => setName(event.target.value)} />
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+import React from 'react';
+
+export default function App() {
+  const [particles, setParticles] = React.useState([]);
+  const frameRef = React.useRef(null);
+
+  React.useEffect(() => {
+    const tick = () => {
+      setParticles(current =>
+        current
+          .map(p => ({ ...p, y: p.y - p.speed, life: p.life - 1 }))
+          .filter(p => p.life > 0)
+      );
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const burst = event => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    const created = Array.from({ length: 12 }, (_, i) => ({
+      id: `${Date.now()}-${i}`,
+      x: x + (Math.random() - 0.5) * 10,
+      y,
+      speed: 0.2 + Math.random() * 0.6,
+      life: 60
+    }));
+    setParticles(current => [...current, ...created]);
+  };
+
+  return (
+    <div className="relative w-full h-screen bg-black overflow-hidden" onClick={burst}>
+      {/* Particles fade out as they rise */}
+      {particles.map(p => (
+        <span
+          key={p.id}
+          className={`absolute w-2 h-2 rounded-full ${p.life > 30 ? 'bg-fuchsia-400' : 'bg-cyan-300'}`}
+          style={{ left: `${p.x}%`, top: `${p.y}%`, opacity: p.life / 60, transform: `scale(${p.life / 40})` }}
+        />
+      ))}
+      <p className="absolute bottom-4 w-full text-center text-white/60">Click anywhere</p>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_TARGET_HTML } from '../models/ElementTarget';
+import { ElementInspector, INSPECTOR_CHANNEL } from '../utils/ElementInspector';
+import { PromptRegistry } from '../services/prompts/PromptRegistry';
+
+const target = {
+  selector: 'main > button:nth-of-type(2)',
+  outerHTML: '<button class="start">Start</button>',
+  styles: { 'font-size': '14px', color: 'rgb(255, 255, 255)' }
+};
+
+describe('element targeting', () => {
+  it('accepts only well-formed reports from the app frame', () => {
+    expect(ElementInspector.readMessage({ channel: INSPECTOR_CHANNEL, type: 'picked', target })).toEqual({ target });
+    expect(ElementInspector.readMessage({ channel: INSPECTOR_CHANNEL, type: 'cancelled' })).toEqual({ target: null });
+    expect(ElementInspector.readMessage({ channel: 'vantage-bridge', type: 'picked', target })).toBeNull();
+    expect(ElementInspector.readMessage({ channel: INSPECTOR_CHANNEL, type: 'picked', target: { selector: 1 } })).toBeNull();
+
+    const long = ElementInspector.readMessage({
+      channel: INSPECTOR_CHANNEL,
+      type: 'picked',
+      target: { ...target, outerHTML: 'x'.repeat(MAX_TARGET_HTML * 2), styles: { color: 5, width: '10px' } }
+    });
+    expect(long?.target?.outerHTML.length).toBe(MAX_TARGET_HTML + 1);
+    expect(long?.target?.styles).toEqual({ width: '10px' });
+  });
+
+  it('puts the picked element into the edit prompts', () => {
+    const refine = PromptRegistry.render('html.refine', { code: '<!DOCTYPE html>', request: 'Make this bigger', target });
+    expect(refine.ref.version).toBe(2);
+    expect(refine.text).toContain('Selector in the rendered page: main > button:nth-of-type(2)');
+    expect(refine.text).toContain('font-size: 14px; color: rgb(255, 255, 255)');
+
+    const update = PromptRegistry.render('react.update', { code: '', request: 'Make this bigger', description: 'Timer', target }).text;
+    expect(update).toContain('find the JSX that renders it');
+    expect(PromptRegistry.render('react.update', { code: '', request: 'Make it bigger', description: 'Timer' }).text)
+      .not.toContain('TARGET ELEMENT');
+  });
+});
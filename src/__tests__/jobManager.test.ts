@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { JobContext, JobManager } from '../services/JobManager';
+
+// A task that runs until the test settles it, or until it is cancelled
+const controllable = () => {
+  let finish: (outcome: string) => void = () => undefined;
+  let context: JobContext | null = null;
+  const task = (jobContext: JobContext) => new Promise<string>((resolve, reject) => {
+    context = jobContext;
+    finish = resolve;
+    jobContext.signal.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')));
+  });
+  return { task, finish: (outcome: string) => finish(outcome), context: () => context };
+};
+
+const status = (id: string) => JobManager.getJobs().find(job => job.id === id)?.status;
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('JobManager', () => {
+  it('runs two jobs at a time and starts queued ones as others finish', async () => {
+    const tasks = [controllable(), controllable(), controllable()];
+    const ids = tasks.map((task, index) => JobManager.enqueue('generate', `App ${index}`, task.task));
+    expect(ids.map(status)).toEqual(['running', 'running', 'queued']);
+
+    tasks[0].context()?.report({ step: 'Developing logic', progress: 40 });
+    expect(JobManager.getJobs().find(job => job.id === ids[0])).toMatchObject({ step: 'Developing logic', progress: 40 });
+
+    tasks[0].finish('App 0 was added to your apps');
+    await settle();
+    expect(ids.map(status)).toEqual(['succeeded', 'running', 'running']);
+    expect(JobManager.getJobs().find(job => job.id === ids[0])?.outcome).toBe('App 0 was added to your apps');
+
+    tasks[1].finish('');
+    tasks[2].finish('');
+    await settle();
+    ids.forEach(id => JobManager.dismiss(id));
+    expect(JobManager.getJobs()).toEqual([]);
+  });
+
+  it('runs jobs for the same app one after another', async () => {
+    const edit = controllable();
+    const repair = controllable();
+    const other = controllable();
+    const editId = JobManager.enqueue('edit', 'Edit', edit.task, { appId: 'a1' });
+    const repairId = JobManager.enqueue('repair', 'Repair', repair.task, { appId: 'a1' });
+    const otherId = JobManager.enqueue('edit', 'Other edit', other.task, { appId: 'a2' });
+    expect([editId, repairId, otherId].map(status)).toEqual(['running', 'queued', 'running']);
+
+    other.finish('');
+    await settle();
+    expect(status(repairId)).toBe('queued');
+
+    edit.finish('');
+    await settle();
+    expect(status(repairId)).toBe('running');
+
+    repair.finish('');
+    await settle();
+    [editId, repairId, otherId].forEach(id => JobManager.dismiss(id));
+  });
+
+  it('cancels queued and running jobs, and drops transient jobs once they succeed', async () => {
+    const running = controllable();
+    const waiting = controllable();
+    const runningId = JobManager.enqueue('edit', 'Edit', running.task, { appId: 'a1' });
+    const transientId = JobManager.enqueue('repair', 'Repair', async () => 'Tests passed', { transient: true });
+    const waitingId = JobManager.enqueue('edit', 'Queued edit', waiting.task);
+    expect(JobManager.isBusy('a1')).toBe(true);
+
+    JobManager.cancel(waitingId);
+    expect(status(waitingId)).toBe('cancelled');
+
+    JobManager.cancel(runningId);
+    await settle();
+    expect(status(runningId)).toBe('cancelled');
+    expect(status(transientId)).toBeUndefined();
+    expect(JobManager.isBusy('a1')).toBe(false);
+
+    [runningId, waitingId].forEach(id => JobManager.dismiss(id));
+  });
+
+  it('counts a task that finishes despite a late cancel as succeeded', async () => {
+    let finish: (outcome: string) => void = () => undefined;
+    const id = JobManager.enqueue('edit', 'Edit', () => new Promise<string>(resolve => {
+      finish = resolve;
+    }));
+
+    finish('The change is ready for review');
+    JobManager.cancel(id);
+    await settle();
+    expect(JobManager.getJobs().find(job => job.id === id)).toMatchObject({ status: 'succeeded', outcome: 'The change is ready for review' });
+    JobManager.dismiss(id);
+  });
+
+  it('records why a job failed', async () => {
+    const id = JobManager.enqueue('generate', 'Broken', async () => {
+      throw new Error('The model returned no code');
+    });
+    await settle();
+    expect(JobManager.getJobs().find(job => job.id === id)).toMatchObject({ status: 'failed', error: 'The model returned no code' });
+    JobManager.dismiss(id);
+  });
+});
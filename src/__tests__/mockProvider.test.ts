@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { MockFixture, MockProvider } from '../services/providers/MockProvider';
+import { PromptRegistry } from '../services/prompts/PromptRegistry';
+import { createAppStyle } from '../models/StylePreset';
+import { PatchApplier } from '../utils/PatchApplier';
+
+const fixture = (name: string, match: string): MockFixture => ({
+  name,
+  match,
+  response: { candidates: [{ content: { parts: [{ text: name }] } }] }
+});
+
+const style = createAppStyle('vantage');
+const provider = new MockProvider();
+const replay = async (prompt: string) => (await provider.generateText(prompt)).text;
+
+describe('MockProvider', () => {
+  it('replays the first fixture that matches the last user message', async () => {
+    const mock = new MockProvider([fixture('timer', 'focus timer'), fixture('anything', '.*')]);
+
+    expect((await mock.generateText('Build a FOCUS TIMER')).text).toBe('timer');
+    expect((await mock.generateText([
+      { role: 'user', content: 'Build a focus timer' },
+      { role: 'assistant', content: 'Done' },
+      { role: 'user', content: 'Make it blue' }
+    ])).text).toBe('anything');
+  });
+
+  it('fails when no fixture matches', async () => {
+    const mock = new MockProvider([fixture('timer', 'focus timer')]);
+
+    await expect(mock.generateText('Build a weather app')).rejects.toThrow('No mock fixture matches prompt: "Build a weather app"');
+  });
+
+  it('answers a React edit with blocks that apply to the generated component', async () => {
+    const code = await replay(PromptRegistry.render('react.generate', { description: 'A focus timer', style }).text);
+    const reply = await replay(PromptRegistry.render('react.patch', { code, request: 'Mark the title as updated', description: 'A focus timer', style }).text);
+
+    const patch = PatchApplier.apply(code, PatchApplier.parse(reply));
+    expect(patch.conflicts).toEqual([]);
+    expect(patch.code).toContain('Mock Focus Timer (updated)');
+  });
+
+  it('answers a dark mode request with blocks that conflict, then regenerates the component', async () => {
+    const code = await replay(PromptRegistry.render('react.generate', { description: 'A focus timer', style }).text);
+    const variables = { code, request: 'Add a dark mode', description: 'A focus timer', style };
+
+    const patch = PatchApplier.apply(code, PatchApplier.parse(await replay(PromptRegistry.render('react.patch', variables).text)));
+    expect(patch.conflicts.map(conflict => conflict.reason)).toEqual(['not-found']);
+
+    const regenerated = await replay(PromptRegistry.render('react.update', variables).text);
+    expect(PatchApplier.parse(regenerated)).toEqual([]);
+    expect(regenerated).toMatch(/^import React from 'react';/);
+  });
+
+  it('answers an HTML edit with blocks that apply to the generated page', async () => {
+    const page = await replay(PromptRegistry.render('html.generate', { description: 'A focus timer', style }).text);
+    const code = page.replace(/^```html\n|\n```$/g, '');
+    const reply = await replay(PromptRegistry.render('html.patch', { code, request: 'Add a note under the title', style }).text);
+
+    const patch = PatchApplier.apply(code, PatchApplier.parse(reply));
+    expect(patch.conflicts).toEqual([]);
+    expect(patch.code).toContain('<h1>Mock Focus Timer</h1>\n    <p>Edited offline</p>');
+    expect(PatchApplier.preamble(reply)).toBe('Added an "Edited offline" note under the title.');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { PatchApplier } from '../utils/PatchApplier';
+
+const code = `<style>
+  button { padding: 4px; }
+</style>
+<button id="start">Start</button>
+<button id="stop">Stop</button>
+`;
+
+const block = (search: string, replace: string) =>
+  `<<<<<<< SEARCH\n${search}=======\n${replace}>>>>>>> REPLACE`;
+
+describe('PatchApplier', () => {
+  it('parses blocks and the summary before them', () => {
+    const reply = `Made the buttons bigger.\n\`\`\`html\n${block('  button { padding: 4px; }\n', '  button { padding: 12px; }\n')}\n\`\`\``;
+    expect(PatchApplier.preamble(reply)).toBe('Made the buttons bigger.');
+    expect(PatchApplier.parse(reply)).toEqual([
+      { search: '  button { padding: 4px; }\n', replace: '  button { padding: 12px; }\n' }
+    ]);
+  });
+
+  it('applies blocks in order, tolerating re-indented search text', () => {
+    const blocks = PatchApplier.parse([
+      block('button { padding: 4px; }\n', '  button { padding: 12px; }\n'),
+      block('<button id="stop">Stop</button>\n', ''),
+      block('<button id="start">Start</button>\n', '<button id="start">Go</button>\n<button id="reset">Reset</button>\n')
+    ].join('\n'));
+
+    const result = PatchApplier.apply(code, blocks);
+    expect(result.conflicts).toEqual([]);
+    expect(result.code).toBe(`<style>
+  button { padding: 12px; }
+</style>
+<button id="start">Go</button>
+<button id="reset">Reset</button>
+`);
+  });
+
+  it('applies nothing when any block conflicts', () => {
+    const blocks = PatchApplier.parse([
+      block('  button { padding: 4px; }\n', '  button { padding: 12px; }\n'),
+      block('<button>Missing</button>\n', ''),
+      block('</button>\n', '</button>!\n')
+    ].join('\n'));
+
+    const result = PatchApplier.apply(code, blocks);
+    expect(result.code).toBe(code);
+    expect(result.conflicts.map(conflict => conflict.reason)).toEqual(['not-found', 'ambiguous']);
+    expect(PatchApplier.describe(result.conflicts[0])).toBe('Block 2 searches for text that is not in the code: "<button>Missing</button>"');
+  });
+});
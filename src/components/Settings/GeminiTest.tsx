@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Card } from '../UI/Card';
 import { Send, CheckCircle, XCircle, Loader } from 'lucide-react';
+import { GeminiProvider } from '../../services/providers/GeminiProvider';
+import { loadProviderSettings } from '../../services/providers/providerSettings';
 
 export const GeminiTest: React.FC = () => {
   const [apiKey, setApiKey] = useState(() => {
@@ -20,43 +22,17 @@ export const GeminiTest: React.FC = () => {
     setResponse('');
 
     try {
-      const requestBody: any = {
-        contents: [
-          {
-            parts: [
-              {
-                text: testMessage,
-              },
-            ],
-          },
-        ],
-      };
+      // Test the key as typed, independent of the active provider
+      const provider = new GeminiProvider({ apiKey, model: loadProviderSettings().geminiModel });
+      const result = await provider.generateText(testMessage);
 
-      const res = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody),
-        }
-      );
+      setResponse(result.text);
+      setModelVersion(result.modelVersion || provider.model);
+      setStatus('success');
 
-      const data = await res.json();
-
-      if (res.ok && data.candidates && data.candidates[0]) {
-        setResponse(data.candidates[0].content.parts[0].text);
-        setModelVersion(data.modelVersion || 'gemini-3-pro-preview');
-        setStatus('success');
-
-        // Save API key to localStorage on successful test
-        localStorage.setItem('gemini_api_key', apiKey);
-        console.log('✅ API key saved to localStorage');
-      } else {
-        setResponse(data.error?.message || JSON.stringify(data, null, 2));
-        setStatus('error');
-      }
+      // Save API key to localStorage on successful test
+      localStorage.setItem('gemini_api_key', apiKey);
+      console.log('✅ API key saved to localStorage');
     } catch (error) {
       setResponse(error instanceof Error ? error.message : 'Failed to connect');
       setStatus('error');
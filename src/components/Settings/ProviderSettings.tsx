@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Card } from '../UI/Card';
+import { Save, Send, CheckCircle, XCircle, Loader } from 'lucide-react';
+import { ProviderId, ProviderSettings as ProviderSettingsValues } from '../../services/providers/types';
+import {
+  PROVIDER_OPTIONS,
+  createProvider,
+  loadProviderSettings,
+  saveProviderSettings
+} from '../../services/providers/providerSettings';
+
+const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+export const ProviderSettings: React.FC = () => {
+  const [settings, setSettings] = useState<ProviderSettingsValues>(() => loadProviderSettings());
+  const [saved, setSaved] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [testStatus, setTestStatus] = useState<'idle' | 'success' | 'error'>('idle');
+  const [testMessage, setTestMessage] = useState('');
+
+  const update = <K extends keyof ProviderSettingsValues>(key: K, value: ProviderSettingsValues[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setSaved(false);
+    setTestStatus('idle');
+  };
+
+  const handleSave = () => {
+    saveProviderSettings(settings);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleTest = async () => {
+    setTesting(true);
+    setTestStatus('idle');
+    setTestMessage('');
+
+    try {
+      const provider = createProvider(settings);
+      const result = await provider.generateText('Reply with a short greeting.', { timeoutMs: 30000 });
+      setTestMessage(`${result.modelVersion || provider.model}: ${result.text.trim()}`);
+      setTestStatus('success');
+    } catch (error) {
+      setTestMessage(error instanceof Error ? error.message : 'Failed to connect');
+      setTestStatus('error');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6">
+      <Card title="Model Provider">
+        <div className="p-6 space-y-6">
+          {/* Provider Selection */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            {PROVIDER_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => update('provider', option.id as ProviderId)}
+                className={`p-4 rounded-lg border-2 text-left transition-all ${
+                  settings.provider === option.id
+                    ? 'border-blue-600 bg-blue-50'
+                    : 'border-gray-200 bg-white hover:border-blue-300'
+                }`}
+              >
+                <div className="font-semibold text-gray-900 text-sm mb-1">{option.label}</div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </button>
+            ))}
+          </div>
+
+          {/* Provider Configuration */}
+          {settings.provider === 'gemini' && (
+            <div>
+              <label htmlFor="geminiModel" className="block text-sm font-medium text-gray-700 mb-2">
+                Model ID
+              </label>
+              <input
+                id="geminiModel"
+                type="text"
+                value={settings.geminiModel}
+                onChange={(e) => update('geminiModel', e.target.value)}
+                className={inputClassName}
+              />
+              <p className="mt-2 text-sm text-gray-500">
+                The API key is configured in the Gemini connection test below.
+              </p>
+            </div>
+          )}
+
+          {settings.provider === 'openai' && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="openaiBaseUrl" className="block text-sm font-medium text-gray-700 mb-2">
+                  Base URL
+                </label>
+                <input
+                  id="openaiBaseUrl"
+                  type="text"
+                  value={settings.openaiBaseUrl}
+                  onChange={(e) => update('openaiBaseUrl', e.target.value)}
+                  className={inputClassName}
+                  placeholder="https://api.openai.com/v1"
+                />
+              </div>
+              <div>
+                <label htmlFor="openaiApiKey" className="block text-sm font-medium text-gray-700 mb-2">
+                  API Key
+                </label>
+                <input
+                  id="openaiApiKey"
+                  type="password"
+                  value={settings.openaiApiKey}
+                  onChange={(e) => update('openaiApiKey', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label htmlFor="openaiModel" className="block text-sm font-medium text-gray-700 mb-2">
+                  Model ID
+                </label>
+                <input
+                  id="openaiModel"
+                  type="text"
+                  value={settings.openaiModel}
+                  onChange={(e) => update('openaiModel', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.provider === 'local' && (
+            <div className="space-y-4">
+              <div>
+                <label htmlFor="localBaseUrl" className="block text-sm font-medium text-gray-700 mb-2">
+                  Server URL
+                </label>
+                <input
+                  id="localBaseUrl"
+                  type="text"
+                  value={settings.localBaseUrl}
+                  onChange={(e) => update('localBaseUrl', e.target.value)}
+                  className={inputClassName}
+                  placeholder="http://localhost:11434/v1"
+                />
+              </div>
+              <div>
+                <label htmlFor="localModel" className="block text-sm font-medium text-gray-700 mb-2">
+                  Model ID
+                </label>
+                <input
+                  id="localModel"
+                  type="text"
+                  value={settings.localModel}
+                  onChange={(e) => update('localModel', e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.provider === 'mock' && (
+            <p className="text-sm text-gray-500">
+              Responses are replayed from the recorded fixtures in <span className="font-mono">src/services/providers/fixtures</span>.
+              The same prompt always produces the same output, so app generation, editing and chat work without a key or network.
+            </p>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleTest}
+              disabled={testing}
+              className="flex items-center gap-2 border border-blue-600 text-blue-600 px-6 py-2 rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {testing ? <Loader size={16} className="animate-spin" /> : <Send size={16} />}
+              {testing ? 'Testing...' : 'Test Provider'}
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Save size={16} />
+              {saved ? 'Saved' : 'Save'}
+            </button>
+          </div>
+
+          {testStatus !== 'idle' && (
+            <div
+              className={`flex items-start gap-3 p-4 rounded-lg ${
+                testStatus === 'success'
+                  ? 'bg-green-50 border border-green-200'
+                  : 'bg-red-50 border border-red-200'
+              }`}
+            >
+              {testStatus === 'success' ? (
+                <CheckCircle className="text-green-600 flex-shrink-0 mt-0.5" size={20} />
+              ) : (
+                <XCircle className="text-red-600 flex-shrink-0 mt-0.5" size={20} />
+              )}
+              <p className={`text-sm ${testStatus === 'success' ? 'text-green-700' : 'text-red-700'}`}>
+                {testMessage}
+              </p>
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
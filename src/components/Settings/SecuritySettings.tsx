@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Card } from '../UI/Card';
+import { Save, RotateCcw } from 'lucide-react';
+import { SECURITY_SEVERITIES, SecurityAction, SecurityPolicy, SecuritySeverity, SecurityScanner } from '../../utils/SecurityScanner';
+import { DEFAULT_SECURITY_POLICY, loadSecurityPolicy, saveSecurityPolicy } from '../../services/securityPolicy';
+
+const inputClassName = 'w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none';
+
+const ACTION_LABELS: Record<SecurityAction, string> = {
+  block: 'Block saving',
+  warn: 'Warn',
+  ignore: 'Ignore'
+};
+
+export const SecuritySettings: React.FC = () => {
+  const [policy, setPolicy] = useState<SecurityPolicy>(() => loadSecurityPolicy());
+  const [hostsText, setHostsText] = useState(() => policy.allowedHosts.join('\n'));
+  const [saved, setSaved] = useState(false);
+
+  const setAction = (severity: SecuritySeverity, action: SecurityAction) => {
+    setPolicy(prev => ({ ...prev, actions: { ...prev.actions, [severity]: action } }));
+    setSaved(false);
+  };
+
+  const handleSave = () => {
+    const allowedHosts = hostsText
+      .split(/[\s,]+/)
+      .map(host => host.trim().toLowerCase())
+      .filter(Boolean);
+    const next = { ...policy, allowedHosts };
+    saveSecurityPolicy(next);
+    setPolicy(next);
+    setSaved(true);
+    setTimeout(() => setSaved(false), 2000);
+  };
+
+  const handleReset = () => {
+    setPolicy(DEFAULT_SECURITY_POLICY);
+    setHostsText(DEFAULT_SECURITY_POLICY.allowedHosts.join('\n'));
+    setSaved(false);
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6">
+      <Card title="App Security">
+        <div className="p-6 space-y-6">
+          <p className="text-sm text-gray-500">
+            Generated code is scanned before it is saved. Choose what happens to findings of each severity.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {SECURITY_SEVERITIES.map(severity => (
+              <div key={severity}>
+                <label htmlFor={`security-${severity}`} className="block text-sm font-medium text-gray-700 mb-2 capitalize">
+                  {severity} findings
+                </label>
+                <select
+                  id={`security-${severity}`}
+                  value={policy.actions[severity]}
+                  onChange={(e) => setAction(severity, e.target.value as SecurityAction)}
+                  className={inputClassName}
+                >
+                  {(Object.keys(ACTION_LABELS) as SecurityAction[]).map(action => (
+                    <option key={action} value={action}>{ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  {SecurityScanner.getRules().filter(rule => rule.severity === severity).map(rule => rule.title).join(', ') || 'No rules'}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label htmlFor="allowedHosts" className="block text-sm font-medium text-gray-700 mb-2">
+              Allowed hosts
+            </label>
+            <textarea
+              id="allowedHosts"
+              rows={5}
+              value={hostsText}
+              onChange={(e) => { setHostsText(e.target.value); setSaved(false); }}
+              className={`${inputClassName} font-mono text-sm`}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              One host per line. Subdomains are allowed too; network calls to any other host are reported.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={handleReset}
+              className="flex items-center gap-2 border border-gray-300 text-gray-700 px-6 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <RotateCcw size={16} />
+              Defaults
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Save size={16} />
+              {saved ? 'Saved' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
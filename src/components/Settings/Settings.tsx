@@ -1,9 +1,13 @@
 import React from 'react';
 import { GeminiTest } from './GeminiTest';
+import { ProviderSettings } from './ProviderSettings';
+import { SecuritySettings } from './SecuritySettings';
 
 export const Settings: React.FC = () => {
   return (
     <div className="p-4">
+      <ProviderSettings />
+      <SecuritySettings />
       <GeminiTest />
     </div>
   );
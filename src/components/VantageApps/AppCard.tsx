@@ -1,24 +1,17 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { Card } from '../UI/Card';
-import { Sparkles, Trash2, RefreshCw } from 'lucide-react';
-
-interface GeneratedApp {
-  id: string;
-  name: string;
-  description: string;
-  iconUrl: string;
-  componentCode: string;
-  createdAt: string;
-  validationWarnings?: string[];
-  testStatus?: 'untested' | 'testing' | 'passed' | 'failed' | 'healing';
-  testErrors?: string[];
-}
+import { Sparkles, Trash2, RefreshCw, Download } from 'lucide-react';
+import { VantageApp } from '../../models/VantageApp';
+import { SecurityScanner } from '../../utils/SecurityScanner';
+import { loadSecurityPolicy } from '../../services/securityPolicy';
 
 interface AppCardProps {
-  app: GeneratedApp;
-  onOpen: (app: GeneratedApp) => void;
-  onDebug: (app: GeneratedApp) => void;
-  onUpdate: (app: GeneratedApp) => void;
+  app: VantageApp;
+  isUpdating?: boolean;
+  onOpen: (app: VantageApp) => void;
+  onDebug: (app: VantageApp) => void;
+  onUpdate: (app: VantageApp) => void;
+  onExport: (app: VantageApp) => void;
   onDelete: (appId: string, appName: string) => void;
 }
 
@@ -26,7 +19,10 @@ interface AppCardProps {
  * Memoized AppCard component to prevent unnecessary re-renders
  * Only re-renders when app data changes
  */
-export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdate, onDelete }) => {
+export const AppCard = React.memo<AppCardProps>(({ app, isUpdating, onOpen, onDebug, onUpdate, onExport, onDelete }) => {
+  // Scanned on render rather than stored, so apps saved before a policy change are rechecked
+  const security = useMemo(() => SecurityScanner.check(app, loadSecurityPolicy()), [app]);
+
   return (
     <Card>
       <div className="p-6">
@@ -42,6 +38,9 @@ export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdat
             <h3 className="font-medium text-lg mb-1 truncate">{app.name}</h3>
             <p className="text-sm text-gray-500">
               Created {new Date(app.createdAt).toLocaleDateString()}
+              <span className="ml-2 px-2 py-0.5 rounded-full bg-gray-100 text-xs text-gray-600">
+                {app.kind === 'react' ? 'React' : 'HTML'}
+              </span>
             </p>
           </div>
         </div>
@@ -49,8 +48,16 @@ export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdat
           {app.description}
         </p>
 
+        {isUpdating && (
+          <div className="mb-3 bg-blue-50 border border-blue-200 rounded-lg p-2">
+            <p className="text-xs text-blue-700">
+              🔄 Applying update...
+            </p>
+          </div>
+        )}
+
         {/* Test Status Badge */}
-        {app.testStatus && (
+        {!isUpdating && app.testStatus && (
           <div className="mb-3">
             {app.testStatus === 'untested' && (
               <div className="bg-gray-50 border border-gray-200 rounded-lg p-2">
@@ -103,6 +110,37 @@ export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdat
           </div>
         )}
 
+        {app.continuation && (
+          <div
+            className={`mb-3 rounded-lg p-2 border ${
+              app.continuation.complete ? 'bg-blue-50 border-blue-200' : 'bg-red-50 border-red-200'
+            }`}
+            title="The model hit its output limit while writing this app, so the rest was requested separately and joined on"
+          >
+            <p className={`text-xs ${app.continuation.complete ? 'text-blue-700' : 'text-red-700'}`}>
+              ✂️ {app.continuation.complete
+                ? `Output continued in ${app.continuation.rounds} extra request${app.continuation.rounds > 1 ? 's' : ''}`
+                : `Output still cut off after ${app.continuation.rounds} continuation${app.continuation.rounds > 1 ? 's' : ''}`}
+            </p>
+          </div>
+        )}
+
+        {security.findings.length > 0 && (
+          <div
+            className={`mb-3 rounded-lg p-2 border ${
+              security.blocked.length > 0 ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+            }`}
+            title={security.findings.map(finding => SecurityScanner.format(finding)).join('\n')}
+          >
+            <p className={`text-xs ${security.blocked.length > 0 ? 'text-red-700' : 'text-yellow-700'}`}>
+              🛡️ {security.findings.length} security finding{security.findings.length > 1 ? 's' : ''}
+            </p>
+            <p className={`text-xs mt-1 ${security.blocked.length > 0 ? 'text-red-600' : 'text-yellow-600'}`}>
+              {SecurityScanner.format(security.findings[0])}
+            </p>
+          </div>
+        )}
+
         <div className="flex gap-2">
           <button
             onClick={() => onOpen(app)}
@@ -112,7 +150,8 @@ export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdat
           </button>
           <button
             onClick={() => onUpdate(app)}
-            className="text-green-600 border border-green-600 px-3 py-2 rounded-lg hover:bg-green-50 transition-colors text-sm"
+            disabled={isUpdating}
+            className="text-green-600 border border-green-600 px-3 py-2 rounded-lg hover:bg-green-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
             title="Update app"
           >
             <RefreshCw size={16} />
@@ -124,6 +163,13 @@ export const AppCard = React.memo<AppCardProps>(({ app, onOpen, onDebug, onUpdat
           >
             Debug
           </button>
+          <button
+            onClick={() => onExport(app)}
+            className="text-gray-600 border border-gray-300 px-3 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            title="Export as standalone app"
+          >
+            <Download size={16} />
+          </button>
           <button
             onClick={() => onDelete(app.id, app.name)}
             className="text-red-600 border border-red-600 px-3 py-2 rounded-lg hover:bg-red-50 transition-colors text-sm"
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { X, ShieldCheck } from 'lucide-react';
+import { VantageApp } from '../../models/VantageApp';
+import { APP_CAPABILITIES, AppCapability } from '../../models/AppCapabilities';
+
+export interface CapabilityReview {
+  app: VantageApp;
+  requested: AppCapability[];
+}
+
+interface CapabilityReviewModalProps {
+  review: CapabilityReview | null;
+  onCancel: () => void;
+  onApprove: (granted: AppCapability[]) => void;
+}
+
+/**
+ * Lets the user decide which of an app's requested capabilities it may use
+ */
+export const CapabilityReviewModal: React.FC<CapabilityReviewModalProps> = ({ review, onCancel, onApprove }) => {
+  const [granted, setGranted] = useState<AppCapability[]>([]);
+
+  // Previously approved capabilities stay ticked; new requests start unticked
+  useEffect(() => {
+    setGranted(review?.app.capabilities?.granted.filter(id => review.requested.includes(id)) ?? []);
+  }, [review]);
+
+  if (!review) return null;
+
+  const { app, requested } = review;
+  const previouslyRequested = app.capabilities?.requested ?? [];
+  const options = APP_CAPABILITIES.filter(capability => requested.includes(capability.id));
+
+  const toggle = (id: AppCapability) => {
+    setGranted(prev => (prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-lg">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <ShieldCheck className="text-blue-600 flex-shrink-0" size={24} />
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold text-gray-900">App Permissions</h2>
+              <p className="text-sm text-gray-500 truncate">{app.name}</p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Capabilities */}
+        <div className="p-6 space-y-3">
+          <p className="text-sm text-gray-600">
+            This app runs isolated from Vantage. Choose what it is allowed to do:
+          </p>
+          {options.map(option => (
+            <label
+              key={option.id}
+              className={`flex items-start gap-3 p-3 rounded-lg border-2 cursor-pointer transition-all ${
+                granted.includes(option.id) ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:border-blue-300'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={granted.includes(option.id)}
+                onChange={() => toggle(option.id)}
+                className="mt-1"
+              />
+              <div className="flex-1">
+                <div className="font-semibold text-gray-900 text-sm mb-1">
+                  {option.label}
+                  {!previouslyRequested.includes(option.id) && app.capabilities && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800 text-xs font-normal">New</span>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500">{option.description}</div>
+              </div>
+            </label>
+          ))}
+          <p className="text-xs text-gray-400">
+            Anything you don't allow is blocked; the app may show an error when it tries.
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApprove(granted)}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            {granted.length === 0 ? 'Run without permissions' : `Allow ${granted.length} and run`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useMemo, useState } from 'react';
+import { DiffLine, LineDiff } from '../../utils/LineDiff';
+
+interface DiffViewProps {
+  oldCode: string;
+  newCode: string;
+  oldLabel: string;
+  newLabel: string;
+}
+
+interface DiffRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+type DisplayRow = { kind: 'row'; row: DiffRow } | { kind: 'collapsed'; count: number };
+
+// Unchanged lines kept around each change when the rest is collapsed
+const CONTEXT_LINES = 3;
+
+/**
+ * Pair removed and added runs so a replaced line sits next to its replacement
+ */
+function toRows(lines: DiffLine[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      rows.push({ left: lines[i], right: lines[i] });
+      i++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (i < lines.length && lines[i].type === 'removed') removed.push(lines[i++]);
+    while (i < lines.length && lines[i].type === 'added') added.push(lines[i++]);
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+  }
+
+  return rows;
+}
+
+function collapseUnchanged(rows: DiffRow[]): DisplayRow[] {
+  const isChanged = rows.map(row => row.left?.type !== 'equal' || row.right?.type !== 'equal');
+  const keep = rows.map((_, index) => {
+    for (let k = Math.max(0, index - CONTEXT_LINES); k <= Math.min(rows.length - 1, index + CONTEXT_LINES); k++) {
+      if (isChanged[k]) return true;
+    }
+    return false;
+  });
+
+  const display: DisplayRow[] = [];
+  rows.forEach((row, index) => {
+    if (keep[index]) {
+      display.push({ kind: 'row', row });
+      return;
+    }
+    const last = display[display.length - 1];
+    if (last && last.kind === 'collapsed') {
+      last.count++;
+    } else {
+      display.push({ kind: 'collapsed', count: 1 });
+    }
+  });
+
+  return display;
+}
+
+const cellClassName = (line: DiffLine | undefined): string => {
+  if (!line) return 'bg-gray-900';
+  if (line.type === 'removed') return 'bg-red-900/40 text-red-200';
+  if (line.type === 'added') return 'bg-green-900/40 text-green-200';
+  return 'text-gray-300';
+};
+
+const DiffCell: React.FC<{ line?: DiffLine; lineNumber?: number }> = ({ line, lineNumber }) => (
+  <div className={`flex min-w-0 ${cellClassName(line)}`}>
+    <span className="w-12 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{lineNumber ?? ''}</span>
+    <span className="w-4 flex-shrink-0 text-gray-500 select-none">
+      {line?.type === 'removed' ? '-' : line?.type === 'added' ? '+' : ''}
+    </span>
+    <span className="whitespace-pre-wrap break-all pr-2">{line?.text ?? ''}</span>
+  </div>
+);
+
+/**
+ * Side-by-side line diff in the CodeViewer palette
+ */
+export const DiffView: React.FC<DiffViewProps> = ({ oldCode, newCode, oldLabel, newLabel }) => {
+  const [showAll, setShowAll] = useState(false);
+
+  const lines = useMemo(() => LineDiff.diff(oldCode, newCode), [oldCode, newCode]);
+  const stats = useMemo(() => LineDiff.stats(lines), [lines]);
+  const rows = useMemo(() => toRows(lines), [lines]);
+  const displayRows = useMemo<DisplayRow[]>(
+    () => (showAll ? rows.map(row => ({ kind: 'row' as const, row })) : collapseUnchanged(rows)),
+    [rows, showAll]
+  );
+
+  return (
+    <div className="bg-gray-900 rounded-lg overflow-hidden flex flex-col h-full">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700 text-xs">
+        <div className="flex items-center gap-3">
+          <span className="text-green-400 font-semibold">+{stats.added}</span>
+          <span className="text-red-400 font-semibold">-{stats.removed}</span>
+          <span className="text-gray-400">{stats.unchanged} unchanged</span>
+        </div>
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="text-gray-400 hover:text-white transition-colors"
+        >
+          {showAll ? 'Collapse unchanged lines' : 'Show all lines'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 border-b border-gray-700 text-xs font-semibold text-white">
+        <div className="px-4 py-2 border-r border-gray-700 truncate">{oldLabel}</div>
+        <div className="px-4 py-2 truncate">{newLabel}</div>
+      </div>
+
+      <div className="flex-1 overflow-auto bg-gray-950 font-mono text-xs leading-relaxed">
+        {stats.added === 0 && stats.removed === 0 ? (
+          <p className="p-4 text-gray-500">No differences</p>
+        ) : (
+          displayRows.map((item, index) =>
+            item.kind === 'collapsed' ? (
+              <button
+                key={index}
+                onClick={() => setShowAll(true)}
+                className="w-full py-1 text-center text-gray-500 bg-gray-900 hover:text-gray-300 transition-colors"
+              >
+                ⋯ {item.count} unchanged line{item.count === 1 ? '' : 's'}
+              </button>
+            ) : (
+              <div key={index} className="grid grid-cols-2">
+                <div className="border-r border-gray-800">
+                  <DiffCell line={item.row.left} lineNumber={item.row.left?.oldLine} />
+                </div>
+                <DiffCell line={item.row.right} lineNumber={item.row.right?.newLine} />
+              </div>
+            )
+          )
+        )}
+      </div>
+    </div>
+  );
+};
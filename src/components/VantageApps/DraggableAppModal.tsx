@@ -1,34 +1,44 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Minimize2, Maximize2, AlertCircle } from 'lucide-react';
+import { X, Minimize2, Maximize2, AlertCircle, History, Crosshair } from 'lucide-react';
 import { runtimeErrorDetector } from '../../utils/RuntimeErrorDetector';
-import { codeFixer } from '../../utils/GeminiCodeFixer';
+import { VantageApp } from '../../models/VantageApp';
+import { ComponentSandbox } from '../../utils/ComponentSandbox';
+import { ElementInspector } from '../../utils/ElementInspector';
+import { ElementTarget } from '../../models/ElementTarget';
 
 interface DraggableAppModalProps {
-  isOpen: boolean;
+  app: VantageApp | null;
   onClose: () => void;
-  appName: string;
-  appIcon: string;
-  componentCode: string;
+  onShowHistory?: () => void;
+  /** Hand the errors the viewer collected to the self-healing loop */
+  onRepair?: (errors: string[]) => void;
+  /** Edit an element the user picked in inspect mode */
+  onPickElement?: (target: ElementTarget) => void;
 }
 
-export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({
-  isOpen,
-  onClose,
-  appName,
-  appIcon,
-  componentCode
-}) => {
+/**
+ * Floating window that renders a React-kind app
+ */
+export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({ app, onClose, onShowHistory, onRepair, onPickElement }) => {
+  const isOpen = app !== null;
+  const appName = app?.name || '';
+  const appIcon = app?.iconUrl || '';
+  const componentCode = app?.code || '';
+
   const [position, setPosition] = useState({ x: 100, y: 100 });
   const [size, setSize] = useState({ width: 600, height: 400 });
   const [isMaximized, setIsMaximized] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [renderError, setRenderError] = useState<string | null>(null);
+  const [runtimeErrors, setRuntimeErrors] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [loadProgress, setLoadProgress] = useState(0);
+  const [isInspecting, setIsInspecting] = useState(false);
 
   const modalRef = useRef<HTMLDivElement>(null);
   const contentRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLIFrameElement | null>(null);
 
   // Reset position when modal opens
   useEffect(() => {
@@ -42,215 +52,97 @@ export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({
       setIsLoading(true);
       setLoadProgress(0);
     }
+    setIsInspecting(false);
   }, [isOpen]);
 
-  // Render the dynamic component using iframe
   useEffect(() => {
-    if (isOpen && contentRef.current && componentCode) {
-      try {
-        setRenderError(null);
-        setIsLoading(true);
-        setLoadProgress(10);
-
-        const container = contentRef.current;
-        // SECURITY: Use replaceChildren instead of innerHTML for safer DOM manipulation
-        container.replaceChildren();
-
-        // Create an HTML document with React and the component
-        const htmlContent = `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="UTF-8">
-  <meta http-equiv="Content-Security-Policy" content="
-    default-src 'self';
-    script-src 'self' 'unsafe-inline' 'unsafe-eval' https://unpkg.com https://cdn.tailwindcss.com;
-    style-src 'self' 'unsafe-inline';
-    img-src 'self' data: https:;
-    connect-src 'self';
-  ">
-  <!-- React 18 - unpkg CDN -->
-  <script crossorigin src="https://unpkg.com/react@18/umd/react.development.js"></script>
-  <!-- ReactDOM 18 - unpkg CDN -->
-  <script crossorigin src="https://unpkg.com/react-dom@18/umd/react-dom.development.js"></script>
-  <!-- Babel Standalone - for JSX transformation -->
-  <script src="https://unpkg.com/@babel/standalone/babel.min.js"></script>
-  <!-- Tailwind CSS - CDN for styling -->
-  <script src="https://cdn.tailwindcss.com"></script>
-  <style>
-    body { margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif; }
-  </style>
-</head>
-<body>
-  <div id="root"></div>
-  <script>
-    // Error tracking with detailed information
-    window.appErrors = [];
-    window.addEventListener('error', function(e) {
-      const errorInfo = {
-        message: e.message || 'Unknown error',
-        filename: e.filename || 'unknown',
-        lineno: e.lineno || 0,
-        colno: e.colno || 0,
-        stack: e.error?.stack || 'No stack trace'
-      };
-      window.appErrors.push(JSON.stringify(errorInfo));
-      console.error('📍 Detailed iframe error:', errorInfo);
-    });
+    ElementInspector.setActive(frameRef.current, isInspecting);
+  }, [isInspecting]);
 
-    // Signal when libraries are loaded
-    window.addEventListener('load', function() {
-      window.librariesLoaded = true;
-    });
-  </script>
-  <script type="text/babel">
-    // Declare code outside try-catch so it's accessible in catch block for error logging
-    let code = \`${componentCode.replace(/`/g, '\\`')}\`;
-
-    try {
-      // CRITICAL: React is available globally via CDN, but we need to handle the import statement
-      // Remove ALL import statements (React is already loaded globally in the iframe)
-      code = code.split('\\n').filter(line => {
-        // Remove ALL import statements - React is loaded globally
-        if (line.trim().match(/^import\\s+/)) {
-          return false;
-        }
-        return true;
-      }).join('\\n');
-
-      // SECURITY: Remove export default before execution
-      code = code.replace(/export\\s+default\\s+/g, '');
-
-      // CRITICAL: Make sure React is available in global scope
-      window.React = window.React;  // Ensure React is accessible
-
-      // SECURITY: Use Function constructor instead of eval for slightly better scoping
-      // Still runs in iframe sandbox, but Function is safer than eval
-      try {
-        // Pass React explicitly to the Function constructor
-        const executeCode = new Function('React', 'ReactDOM', code + '; return App;');
-        const App = executeCode(window.React, window.ReactDOM);
-
-        if (typeof App !== 'function') {
-          throw new Error('Generated code did not produce a valid React component');
-        }
-
-        const root = ReactDOM.createRoot(document.getElementById('root'));
-        root.render(React.createElement(App));
-      } catch (executeError) {
-        // If Function constructor fails, fall back to eval (for debugging)
-        console.warn('Function constructor failed, falling back to eval:', executeError);
-        eval(code);
-        const root = ReactDOM.createRoot(document.getElementById('root'));
-        root.render(<App />);
-      }
+  useEffect(() => {
+    if (!onPickElement) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (!frameRef.current || event.source !== frameRef.current.contentWindow) return;
+      const result = ElementInspector.readMessage(event.data);
+      if (!result) return;
 
-      // Signal successful render
-      window.renderSuccess = true;
-    } catch (err) {
-      window.renderSuccess = false;
-      window.appErrors = window.appErrors || [];
-
-      // Detailed error logging
-      const errorDetails = {
-        name: err.name || 'Error',
-        message: err.message || 'Unknown error',
-        stack: err.stack || 'No stack trace',
-        toString: err.toString()
-      };
+      setIsInspecting(false);
+      if (result.target) onPickElement(result.target);
+    };
 
-      window.appErrors.push(JSON.stringify(errorDetails));
-      console.error('🚨 Render error details:', errorDetails);
-      console.error('📄 Code that failed (first 1000 chars):', code.substring(0, 1000));
-    }
-  </script>
-</body>
-</html>
-        `;
-
-        // Create iframe
-        const iframe = document.createElement('iframe');
-        iframe.style.width = '100%';
-        iframe.style.height = '100%';
-        iframe.style.border = 'none';
-        iframe.sandbox.add('allow-scripts');
-
-        // Monitor loading progress
-        let progressInterval: NodeJS.Timeout;
-        let loadTimeout: NodeJS.Timeout;
-
-        iframe.onload = () => {
-          setLoadProgress(50);
-
-          // Check if app rendered successfully
-          progressInterval = setInterval(() => {
-            try {
-              const iframeWindow = iframe.contentWindow as any;
-
-              if (iframeWindow && iframeWindow.librariesLoaded) {
-                setLoadProgress(70);
-
-                if (iframeWindow.renderSuccess !== undefined) {
-                  clearInterval(progressInterval);
-                  clearTimeout(loadTimeout);
-
-                  if (iframeWindow.renderSuccess === false) {
-                    const errors = iframeWindow.appErrors || ['Unknown render error'];
-                    console.log('🚨 Runtime errors detected:', errors);
-
-                    // Use RuntimeErrorDetector to diagnose the error
-                    const errorMessage = errors[0];
-                    const fakeError = new Error(errorMessage);
-                    const diagnosis = runtimeErrorDetector.diagnoseError(fakeError, componentCode);
-
-                    // Generate detailed error report
-                    const report = runtimeErrorDetector.generateErrorReport(diagnosis, componentCode);
-                    console.log(report);
-
-                    // Attempt auto-fix
-                    const fixedCode = runtimeErrorDetector.attemptAutoFix(diagnosis, componentCode);
-                    if (fixedCode) {
-                      console.log('✅ Auto-fix attempted, retrying with fixed code...');
-                      // Note: In a real implementation, we would need to update the parent component
-                      // For now, we'll just show a more helpful error message
-                    }
-
-                    const detailedError = diagnosis.suggestedFix
-                      ? `${errors.join(', ')}\n\n💡 Suggested Fix: ${diagnosis.suggestedFix}`
-                      : errors.join(', ');
-
-                    setRenderError(detailedError);
-                    setIsLoading(false);
-                  } else {
-                    setLoadProgress(100);
-                    setTimeout(() => setIsLoading(false), 500);
-                  }
-                }
-              }
-            } catch (e) {
-              // Can't access iframe yet
-            }
-          }, 200);
-        };
-
-        // Timeout after 10 seconds
-        loadTimeout = setTimeout(() => {
-          clearInterval(progressInterval);
-          setRenderError('App took too long to load. There may be network issues or the app has errors.');
-          setIsLoading(false);
-        }, 10000);
-
-        iframe.srcdoc = htmlContent;
-        container.appendChild(iframe);
-
-        setLoadProgress(30);
-
-      } catch (error) {
-        console.error('Error rendering app:', error);
-        setRenderError(error instanceof Error ? error.message : 'Failed to render app');
-        setIsLoading(false);
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onPickElement]);
+
+  // Render the component in a sandboxed iframe; the frame posts a report once it has mounted
+  useEffect(() => {
+    if (!isOpen || !contentRef.current || !componentCode) return;
+
+    setRenderError(null);
+    setRuntimeErrors([]);
+    setIsLoading(true);
+    setLoadProgress(10);
+
+    const container = contentRef.current;
+    // SECURITY: Use replaceChildren instead of innerHTML for safer DOM manipulation
+    container.replaceChildren();
+
+    const iframe = document.createElement('iframe');
+    iframe.style.width = '100%';
+    iframe.style.height = '100%';
+    iframe.style.border = 'none';
+    iframe.sandbox.add('allow-scripts');
+    frameRef.current = iframe;
+    setIsInspecting(false);
+
+    const handleReport = (event: MessageEvent) => {
+      if (event.source !== iframe.contentWindow) return;
+      const report = ComponentSandbox.readMessage(event.data);
+      if (!report) return;
+
+      clearTimeout(loadTimeout);
+      window.removeEventListener('message', handleReport);
+
+      // A render error unmounts the whole tree, so errors and an empty page mean the app failed
+      if (report.rendered && (report.hasVisibleContent || report.errors.length === 0)) {
+        setLoadProgress(100);
+        setTimeout(() => setIsLoading(false), 500);
+        return;
       }
-    }
+
+      const errors = report.errors.length > 0 ? report.errors : ['Unknown render error'];
+      console.log('🚨 Runtime errors detected:', errors);
+
+      // Use RuntimeErrorDetector to diagnose the error
+      const diagnosis = runtimeErrorDetector.diagnoseError(new Error(errors[0]), componentCode);
+      console.log(runtimeErrorDetector.generateErrorReport(diagnosis, componentCode));
+
+      // Fixing is left to the self-healing loop, offered below the error
+      setRuntimeErrors(errors);
+      setRenderError(diagnosis.suggestedFix
+        ? `${errors.join(', ')}\n\n💡 Suggested Fix: ${diagnosis.suggestedFix}`
+        : errors.join(', '));
+      setIsLoading(false);
+    };
+
+    // The libraries have loaded; the component mounts next
+    iframe.onload = () => setLoadProgress(70);
+
+    const loadTimeout = setTimeout(() => {
+      window.removeEventListener('message', handleReport);
+      setRenderError('App took too long to load. There may be network issues or the app has errors.');
+      setIsLoading(false);
+    }, 10000);
+
+    window.addEventListener('message', handleReport);
+    iframe.srcdoc = ComponentSandbox.buildDocument(componentCode, ElementInspector.script());
+    container.appendChild(iframe);
+    setLoadProgress(30);
+
+    return () => {
+      clearTimeout(loadTimeout);
+      window.removeEventListener('message', handleReport);
+    };
   }, [isOpen, componentCode]);
 
   const handleMouseDown = (e: React.MouseEvent) => {
@@ -332,6 +224,24 @@ export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({
           </div>
 
           <div className="flex items-center gap-2">
+            {onPickElement && !renderError && (
+              <button
+                onClick={() => setIsInspecting(!isInspecting)}
+                className={`w-8 h-8 rounded flex items-center justify-center transition-colors ${isInspecting ? 'bg-white text-blue-700' : 'hover:bg-blue-500'}`}
+                title={isInspecting ? 'Cancel inspect (Esc)' : 'Pick an element to edit'}
+              >
+                <Crosshair size={16} />
+              </button>
+            )}
+            {onShowHistory && (
+              <button
+                onClick={onShowHistory}
+                className="w-8 h-8 rounded hover:bg-blue-500 flex items-center justify-center transition-colors"
+                title="Version history"
+              >
+                <History size={16} />
+              </button>
+            )}
             <button
               onClick={toggleMaximize}
               className="w-8 h-8 rounded hover:bg-blue-500 flex items-center justify-center transition-colors"
@@ -367,8 +277,11 @@ export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({
             </div>
           )}
 
-          {renderError ? (
-            <div className="flex items-center justify-center h-full p-8">
+          {/* Stays mounted under the error so a new version of the code can render into it */}
+          <div ref={contentRef} className="w-full h-full" />
+
+          {renderError && (
+            <div className="absolute inset-0 flex items-center justify-center p-8 bg-white z-10">
               <div className="text-center max-w-md">
                 <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
                   <AlertCircle size={32} className="text-red-600" />
@@ -383,16 +296,24 @@ export const DraggableAppModal: React.FC<DraggableAppModalProps> = ({
                     <li>• Try regenerating the app</li>
                   </ul>
                 </div>
-                <button
-                  onClick={onClose}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-                >
-                  Close
-                </button>
+                <div className="flex justify-center gap-3">
+                  {onRepair && runtimeErrors.length > 0 && (
+                    <button
+                      onClick={() => onRepair(runtimeErrors)}
+                      className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+                    >
+                      Repair App
+                    </button>
+                  )}
+                  <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    Close
+                  </button>
+                </div>
               </div>
             </div>
-          ) : (
-            <div ref={contentRef} className="w-full h-full" />
           )}
         </div>
 
@@ -0,0 +1,87 @@
+import React from 'react';
+import { X, Download, FileCode, Package, Loader } from 'lucide-react';
+import { VantageApp } from '../../models/VantageApp';
+
+export type StandaloneFormat = 'html' | 'zip';
+
+interface ExportAppModalProps {
+  app: VantageApp | null;
+  exportingFormat: StandaloneFormat | null;
+  onClose: () => void;
+  onExport: (format: StandaloneFormat) => void;
+}
+
+const FORMAT_OPTIONS: Array<{ id: StandaloneFormat; label: string; description: string; icon: typeof FileCode }> = [
+  {
+    id: 'html',
+    label: 'Single HTML file',
+    description: 'One self-contained index.html you can open directly or share',
+    icon: FileCode
+  },
+  {
+    id: 'zip',
+    label: 'Zip package',
+    description: 'index.html, compiled app.js and manifest.json, ready for any static host',
+    icon: Package
+  }
+];
+
+/**
+ * Choose how to export a React app outside Vantage
+ */
+export const ExportAppModal: React.FC<ExportAppModalProps> = ({ app, exportingFormat, onClose, onExport }) => {
+  if (!app) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-lg">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <Download className="text-blue-600 flex-shrink-0" size={24} />
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold text-gray-900">Export App</h2>
+              <p className="text-sm text-gray-500 truncate">{app.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={exportingFormat !== null}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Formats */}
+        <div className="p-6 space-y-3">
+          {FORMAT_OPTIONS.map(option => {
+            const Icon = option.icon;
+            const isExporting = exportingFormat === option.id;
+            return (
+              <button
+                key={option.id}
+                onClick={() => onExport(option.id)}
+                disabled={exportingFormat !== null}
+                className="w-full flex items-start gap-3 p-4 rounded-lg border-2 border-gray-200 text-left hover:border-blue-300 transition-all disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                {isExporting ? (
+                  <Loader size={20} className="text-blue-600 animate-spin flex-shrink-0 mt-0.5" />
+                ) : (
+                  <Icon size={20} className="text-blue-600 flex-shrink-0 mt-0.5" />
+                )}
+                <div>
+                  <div className="font-semibold text-gray-900 text-sm mb-1">{option.label}</div>
+                  <div className="text-xs text-gray-500">{option.description}</div>
+                </div>
+              </button>
+            );
+          })}
+          <p className="text-xs text-gray-400">
+            The exported app loads React and Tailwind from public CDNs.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { X, Upload, Loader } from 'lucide-react';
+import { ImportMergeMode, ParsedBundle } from '../../services/AppBundleService';
+
+interface ImportPreviewModalProps {
+  preview: { fileName: string; bundle: ParsedBundle } | null;
+  existingIds: string[];
+  isImporting: boolean;
+  onCancel: () => void;
+  onConfirm: (mode: ImportMergeMode) => void;
+}
+
+const MERGE_MODE_OPTIONS: Array<{ id: ImportMergeMode; label: string; description: string }> = [
+  { id: 'skip', label: 'Skip', description: 'Keep my existing app' },
+  { id: 'overwrite', label: 'Overwrite', description: 'Replace it with the imported app, history and saved data' },
+  { id: 'duplicate', label: 'Keep both', description: 'Import as a copy next to the existing app' }
+];
+
+/**
+ * Shows what an export file contains before anything is written
+ */
+export const ImportPreviewModal: React.FC<ImportPreviewModalProps> = ({
+  preview,
+  existingIds,
+  isImporting,
+  onCancel,
+  onConfirm
+}) => {
+  const [mode, setMode] = useState<ImportMergeMode>('skip');
+
+  if (!preview) return null;
+
+  const { fileName, bundle } = preview;
+  const collisions = bundle.entries.filter(entry => existingIds.includes(entry.app.id)).length;
+  const importCount = mode === 'skip' ? bundle.entries.length - collisions : bundle.entries.length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-2xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-6 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <Upload className="text-blue-600 flex-shrink-0" size={24} />
+            <div className="min-w-0">
+              <h2 className="text-2xl font-bold text-gray-900">Import Apps</h2>
+              <p className="text-sm text-gray-500 truncate">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            disabled={isImporting}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700">
+            {bundle.source === 'legacy' ? (
+              <p>Legacy export (before version history). Each app starts with a fresh history.</p>
+            ) : (
+              <p>
+                Export format v{bundle.schemaVersion}
+                {bundle.exportedAt && ` · exported ${new Date(bundle.exportedAt).toLocaleString()}`}
+                {' · '}
+                <span className="text-green-700">✓ checksum verified</span>
+              </p>
+            )}
+          </div>
+
+          {bundle.rejected.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+              <p className="text-xs font-semibold text-yellow-800 mb-1">
+                ⚠️ {bundle.rejected.length} problem{bundle.rejected.length === 1 ? '' : 's'} found - affected items will not be imported
+              </p>
+              <ul className="text-xs text-yellow-700 space-y-1">
+                {bundle.rejected.map((message, index) => (
+                  <li key={index}>• {message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* App List */}
+          <div className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+            {bundle.entries.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">This file contains no apps that can be imported.</p>
+            ) : (
+              bundle.entries.map(({ app, revisions, data }) => (
+                <div key={app.id} className="p-3 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{app.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {app.kind === 'react' ? 'React' : 'HTML'} · created {new Date(app.createdAt).toLocaleDateString()}
+                      {revisions.length > 0 && ` · ${revisions.length} revision${revisions.length === 1 ? '' : 's'}`}
+                      {data && Object.keys(data).length > 0 && ` · ${Object.keys(data).length} saved item${Object.keys(data).length === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                  {existingIds.includes(app.id) ? (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">Already exists</span>
+                  ) : (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">New</span>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Merge Mode */}
+          {collisions > 0 && (
+            <div>
+              <p className="text-sm font-semibold text-gray-700 mb-2">
+                {collisions} app{collisions === 1 ? ' is' : 's are'} already in your library. What should happen?
+              </p>
+              <div className="grid grid-cols-3 gap-3">
+                {MERGE_MODE_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setMode(option.id)}
+                    className={`p-3 rounded-lg border-2 text-left transition-all ${
+                      mode === option.id
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-gray-200 bg-white hover:border-blue-300'
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-900 text-sm mb-1">{option.label}</div>
+                    <div className="text-xs text-gray-500">{option.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-6 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            disabled={isImporting}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mode)}
+            disabled={importCount === 0 || isImporting}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            {isImporting && <Loader size={16} className="animate-spin" />}
+            Import {importCount} app{importCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
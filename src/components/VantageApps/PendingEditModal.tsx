@@ -0,0 +1,167 @@
+import React, { useEffect, useState } from 'react';
+import { X, Check, RefreshCw, GitCompare } from 'lucide-react';
+import { PendingEdit } from '../../models/AppRevision';
+import { AppSandbox } from '../../utils/AppSandbox';
+import { DiffView } from './DiffView';
+
+interface PendingEditModalProps {
+  pendingEdit: PendingEdit | null;
+  isRefining: boolean;
+  onAccept: () => void;
+  onReject: () => void;
+  onRefine: (instruction: string) => void;
+}
+
+/**
+ * Review a proposed edit against the current code before it is applied
+ */
+export const PendingEditModal: React.FC<PendingEditModalProps> = ({
+  pendingEdit,
+  isRefining,
+  onAccept,
+  onReject,
+  onRefine
+}) => {
+  const [view, setView] = useState<'diff' | 'preview'>('diff');
+  const [refinePrompt, setRefinePrompt] = useState('');
+
+  // Each new proposal starts on the diff with an empty refine box
+  useEffect(() => {
+    setView('diff');
+    setRefinePrompt('');
+  }, [pendingEdit]);
+
+  if (!pendingEdit) return null;
+
+  const { app, code, validation } = pendingEdit;
+
+  const handleRefine = () => {
+    const trimmed = refinePrompt.trim();
+    if (!trimmed || isRefining) return;
+    onRefine(trimmed);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-[60] flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-6xl h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-4 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3 min-w-0">
+            <GitCompare className="text-blue-600 flex-shrink-0" size={24} />
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900">Review Changes</h2>
+              <p className="text-sm text-gray-500 truncate">{app.name}</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {app.kind === 'html' && (
+              <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                <button
+                  onClick={() => setView('diff')}
+                  className={`px-3 py-1.5 transition-colors ${view === 'diff' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  Diff
+                </button>
+                <button
+                  onClick={() => setView('preview')}
+                  className={`px-3 py-1.5 transition-colors ${view === 'preview' ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-50'}`}
+                >
+                  Preview
+                </button>
+              </div>
+            )}
+            <button
+              onClick={onReject}
+              disabled={isRefining}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              title="Reject changes"
+            >
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {/* Requested Changes */}
+        <div className="px-4 py-3 border-b border-gray-200 bg-blue-50 flex-shrink-0">
+          <p className="text-xs font-semibold text-gray-700 mb-1">Requested changes</p>
+          <p className="text-sm text-gray-700 whitespace-pre-line line-clamp-3">{pendingEdit.prompt}</p>
+          {pendingEdit.target && (
+            <p className="text-xs text-gray-500 mt-1 font-mono truncate" title={pendingEdit.target.outerHTML}>
+              🎯 {pendingEdit.target.selector}
+            </p>
+          )}
+          {!validation.isValid && (
+            <p className="text-xs text-red-600 mt-2" title={validation.errors.join('\n')}>
+              ❌ The proposed code has {validation.errors.length} validation error{validation.errors.length === 1 ? '' : 's'}: {validation.errors[0]}
+            </p>
+          )}
+        </div>
+
+        {/* Diff / Preview */}
+        <div className="flex-1 min-h-0 p-4 relative">
+          {view === 'diff' ? (
+            <DiffView
+              oldCode={app.code}
+              newCode={code}
+              oldLabel="Current"
+              newLabel="Proposed"
+            />
+          ) : (
+            <iframe
+              srcDoc={AppSandbox.buildDocument(code, [])}
+              className="w-full h-full border border-gray-200 rounded-lg"
+              sandbox={AppSandbox.sandboxAttribute([])}
+              title={`${app.name} (proposed)`}
+            />
+          )}
+          {isRefining && (
+            <div className="absolute inset-4 bg-white bg-opacity-80 rounded-lg flex items-center justify-center">
+              <div className="flex items-center gap-3 text-sm text-gray-700">
+                <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                Refining changes...
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="border-t border-gray-200 p-4 flex items-center gap-3 flex-shrink-0">
+          <input
+            type="text"
+            value={refinePrompt}
+            onChange={(e) => setRefinePrompt(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRefine();
+            }}
+            placeholder="Not quite? Describe what to adjust, e.g. 'keep the old colours'"
+            disabled={isRefining}
+            className="flex-1 border border-gray-300 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50"
+          />
+          <button
+            onClick={handleRefine}
+            disabled={!refinePrompt.trim() || isRefining}
+            className="flex items-center gap-2 px-4 py-2 border border-blue-600 text-blue-600 text-sm rounded-lg hover:bg-blue-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={16} />
+            Refine
+          </button>
+          <button
+            onClick={onReject}
+            disabled={isRefining}
+            className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Reject
+          </button>
+          <button
+            onClick={onAccept}
+            disabled={isRefining}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            <Check size={16} />
+            Accept
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Send, Loader, Bot, User, X, History, Crosshair } from 'lucide-react';
+import { AppMessage } from '../../models/AppConversation';
+import { ElementTarget } from '../../models/ElementTarget';
+
+interface RefinementChatProps {
+  messages: AppMessage[];
+  isWorking: boolean;
+  /** Element picked in the app; sent with the next request */
+  target: ElementTarget | null;
+  isInspecting: boolean;
+  onToggleInspect: () => void;
+  onClearTarget: () => void;
+  onSend: (request: string) => void;
+  onShowRevision: (revisionId: string) => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string): string =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Conversation thread docked beside a running app. Each request becomes an
+ * edit (or a clarifying question), and applied edits link to their revision.
+ */
+export const RefinementChat: React.FC<RefinementChatProps> = ({
+  messages,
+  isWorking,
+  target,
+  isInspecting,
+  onToggleInspect,
+  onClearTarget,
+  onSend,
+  onShowRevision,
+  onClose
+}) => {
+  const [input, setInput] = useState('');
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, isWorking]);
+
+  const handleSend = () => {
+    if (!input.trim() || isWorking) return;
+    onSend(input.trim());
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="w-96 flex-shrink-0 border-l border-gray-200 flex flex-col bg-gray-50">
+      <div className="px-4 py-3 border-b border-gray-200 bg-white flex items-center justify-between">
+        <div>
+          <h3 className="font-medium text-gray-900">Refine this app</h3>
+          <p className="text-xs text-gray-500">Each message edits the running app</p>
+        </div>
+        <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors" title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3">
+        {messages.length === 0 && !isWorking ? (
+          <div className="flex flex-col items-center justify-center h-full text-center text-gray-400">
+            <Bot size={40} className="mb-3 opacity-20" />
+            <p className="text-sm font-medium">What would you like to change?</p>
+            <p className="text-xs mt-1">e.g. "Add a reset button" or "Make the timer text larger"</p>
+          </div>
+        ) : (
+          messages.map(({ revisionId, ...message }) => (
+            <div
+              key={message.id}
+              className={`flex gap-2 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+            >
+              {message.role === 'assistant' && (
+                <div className={`w-7 h-7 rounded-full flex items-center justify-center flex-shrink-0 ${message.error ? 'bg-red-600' : 'bg-blue-600'}`}>
+                  <Bot size={14} className="text-white" />
+                </div>
+              )}
+
+              <div
+                className={`max-w-[16rem] px-3 py-2 rounded-lg text-sm ${
+                  message.role === 'user'
+                    ? 'bg-blue-600 text-white'
+                    : message.error
+                      ? 'bg-red-50 border border-red-200 text-red-800'
+                      : 'bg-white border border-gray-200 text-gray-800'
+                }`}
+              >
+                {message.target && (
+                  <p className="font-mono text-xs opacity-80 truncate mb-1" title={message.target.outerHTML}>
+                    🎯 {message.target.selector}
+                  </p>
+                )}
+                <p className="whitespace-pre-wrap break-words">{message.content}</p>
+                <div className={`flex items-center justify-between gap-2 text-xs mt-1 ${message.role === 'user' ? 'text-blue-100' : 'text-gray-400'}`}>
+                  <span>{formatTime(message.createdAt)}</span>
+                  {revisionId && (
+                    <button
+                      onClick={() => onShowRevision(revisionId)}
+                      className="flex items-center gap-1 text-blue-600 hover:text-blue-800"
+                    >
+                      <History size={12} />
+                      View revision
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {message.role === 'user' && (
+                <div className="w-7 h-7 bg-gray-600 rounded-full flex items-center justify-center flex-shrink-0">
+                  <User size={14} className="text-white" />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+
+        {isWorking && (
+          <div className="flex gap-2 justify-start">
+            <div className="w-7 h-7 bg-blue-600 rounded-full flex items-center justify-center flex-shrink-0">
+              <Bot size={14} className="text-white" />
+            </div>
+            <div className="bg-white border border-gray-200 px-3 py-2 rounded-lg">
+              <div className="flex items-center gap-2 text-sm">
+                <Loader size={14} className="animate-spin text-blue-600" />
+                <span className="text-gray-500">Thinking...</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div ref={messagesEndRef} />
+      </div>
+
+      <div className="border-t border-gray-200 bg-white p-3">
+        {isInspecting && (
+          <p className="text-xs text-blue-700 mb-2">Click an element in the app to target it. Press Esc to cancel.</p>
+        )}
+        {target && !isInspecting && (
+          <div className="flex items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg px-2 py-1 mb-2">
+            <span className="text-xs">🎯</span>
+            <code className="flex-1 text-xs text-blue-700 truncate" title={target.outerHTML}>{target.selector}</code>
+            <button onClick={onClearTarget} className="p-0.5 hover:bg-blue-100 rounded transition-colors" title="Clear target">
+              <X size={12} className="text-gray-600" />
+            </button>
+          </div>
+        )}
+        <div className="flex gap-2 items-end">
+          <button
+            onClick={onToggleInspect}
+            disabled={isWorking}
+            className={`p-2 rounded-lg border transition-colors disabled:opacity-50 ${
+              isInspecting ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-600 hover:bg-gray-100'
+            }`}
+            title={isInspecting ? 'Cancel inspect' : 'Pick an element in the app'}
+          >
+            <Crosshair size={16} />
+          </button>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={target ? 'Describe a change to this element...' : 'Describe a change... (Enter to send)'}
+            className="flex-1 resize-none px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent max-h-32"
+            rows={2}
+            disabled={isWorking}
+            autoFocus
+          />
+          <button
+            onClick={handleSend}
+            disabled={!input.trim() || isWorking}
+            className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
+            title="Send"
+          >
+            <Send size={16} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import { X, History, RotateCcw, Loader } from 'lucide-react';
+import { VantageApp } from '../../models/VantageApp';
+import { AppRevision, REVISION_SOURCE_LABELS } from '../../models/AppRevision';
+import { AppRepository } from '../../services/AppRepository';
+import { PromptRegistry } from '../../services/prompts/PromptRegistry';
+import { AppSandbox } from '../../utils/AppSandbox';
+import { DiffView } from './DiffView';
+
+interface RevisionHistoryModalProps {
+  app: VantageApp | null;
+  /** Revision to select on open; defaults to the newest */
+  initialRevisionId?: string;
+  onClose: () => void;
+  onRestore: (app: VantageApp, revision: AppRevision) => void;
+}
+
+const formatTimestamp = (iso: string): string => new Date(iso).toLocaleString();
+
+/**
+ * Revision history for one app: preview any revision, compare two, restore one
+ */
+export const RevisionHistoryModal: React.FC<RevisionHistoryModalProps> = ({ app, initialRevisionId, onClose, onRestore }) => {
+  const [revisions, setRevisions] = useState<AppRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!app) return;
+
+    setIsLoading(true);
+    setLoadError(null);
+    setCompareIds([]);
+
+    AppRepository.getRevisions(app.id)
+      .then(history => {
+        const newestFirst = [...history].reverse();
+        setRevisions(newestFirst);
+        const initial = newestFirst.find(revision => revision.id === initialRevisionId) || newestFirst[0];
+        setSelectedId(initial?.id || null);
+      })
+      .catch(error => {
+        console.error('Error loading revisions:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load history');
+      })
+      .finally(() => setIsLoading(false));
+  }, [app, initialRevisionId]);
+
+  if (!app) return null;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      // Keep the two most recently ticked revisions
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const selected = revisions.find(revision => revision.id === selectedId) || null;
+
+  // Compare older (left) against newer (right) regardless of tick order
+  const compared = revisions
+    .filter(revision => compareIds.includes(revision.id))
+    .reverse();
+  const isComparing = compared.length === 2;
+
+  const revisionNumber = (revision: AppRevision) => revisions.length - revisions.indexOf(revision);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg w-full max-w-6xl h-[85vh] flex flex-col">
+        {/* Header */}
+        <div className="border-b border-gray-200 p-4 flex items-center justify-between flex-shrink-0">
+          <div className="flex items-center gap-3">
+            <History className="text-blue-600" size={24} />
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Version History</h2>
+              <p className="text-sm text-gray-500">{app.name}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 flex min-h-0">
+          {/* Revision List */}
+          <div className="w-80 border-r border-gray-200 overflow-y-auto flex-shrink-0">
+            {isLoading ? (
+              <div className="p-6 flex items-center gap-2 text-sm text-gray-500">
+                <Loader size={16} className="animate-spin" />
+                Loading history...
+              </div>
+            ) : loadError ? (
+              <p className="p-6 text-sm text-red-600">{loadError}</p>
+            ) : revisions.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No revisions recorded yet.</p>
+            ) : (
+              <>
+                <p className="px-4 pt-4 pb-2 text-xs text-gray-500">
+                  Tick two revisions to compare them.
+                </p>
+                {revisions.map((revision, index) => (
+                  <div
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`px-4 py-3 border-b border-gray-100 cursor-pointer transition-colors ${
+                      selectedId === revision.id && !isComparing ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="checkbox"
+                          checked={compareIds.includes(revision.id)}
+                          onChange={() => toggleCompare(revision.id)}
+                          onClick={(e) => e.stopPropagation()}
+                          title="Compare"
+                        />
+                        <span className="text-sm font-semibold text-gray-900">
+                          v{revisionNumber(revision)} · {REVISION_SOURCE_LABELS[revision.source]}
+                        </span>
+                      </div>
+                      {index === 0 ? (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">Current</span>
+                      ) : (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onRestore(app, revision);
+                          }}
+                          className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                          title="Restore this revision"
+                        >
+                          <RotateCcw size={12} />
+                          Restore
+                        </button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-600 line-clamp-2 mb-1">{revision.prompt}</p>
+                    <div className="flex items-center gap-2 text-xs text-gray-400">
+                      <span>{formatTimestamp(revision.createdAt)}</span>
+                      {revision.validation && (
+                        revision.validation.isValid ? (
+                          <span className="text-green-600">✓ valid</span>
+                        ) : (
+                          <span className="text-red-600" title={revision.validation.errors.join('\n')}>
+                            ✗ {revision.validation.errors.length} error{revision.validation.errors.length === 1 ? '' : 's'}
+                          </span>
+                        )
+                      )}
+                      {revision.promptTemplate && (
+                        <span className="font-mono" title="Prompt template">{PromptRegistry.format(revision.promptTemplate)}</span>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          {/* Preview / Compare */}
+          <div className="flex-1 min-w-0 p-4">
+            {isComparing ? (
+              <DiffView
+                oldCode={compared[0].code}
+                newCode={compared[1].code}
+                oldLabel={`v${revisionNumber(compared[0])} · ${formatTimestamp(compared[0].createdAt)}`}
+                newLabel={`v${revisionNumber(compared[1])} · ${formatTimestamp(compared[1].createdAt)}`}
+              />
+            ) : selected ? (
+              app.kind === 'html' ? (
+                <iframe
+                  key={selected.id}
+                  srcDoc={AppSandbox.buildDocument(selected.code, [])}
+                  className="w-full h-full border border-gray-200 rounded-lg"
+                  sandbox={AppSandbox.sandboxAttribute([])}
+                  title={`${app.name} v${revisionNumber(selected)}`}
+                />
+              ) : (
+                <div className="h-full overflow-auto p-4 bg-gray-950 rounded-lg">
+                  <pre className="text-xs text-gray-300 font-mono leading-relaxed">
+                    <code>{selected.code}</code>
+                  </pre>
+                </div>
+              )
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
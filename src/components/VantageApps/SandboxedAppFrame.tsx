@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { VantageApp } from '../../models/VantageApp';
+import { AppCapability } from '../../models/AppCapabilities';
+import { ElementTarget } from '../../models/ElementTarget';
+import { AppSandbox, BRIDGE_CHANNEL, BridgeRequest, BridgeResponse } from '../../utils/AppSandbox';
+import { ElementInspector } from '../../utils/ElementInspector';
+import { AppStorageService } from '../../services/AppStorageService';
+import { logger } from '../../utils/logger';
+
+interface SandboxedAppFrameProps {
+  app: VantageApp;
+  granted: AppCapability[];
+  className?: string;
+  /** Outline elements under the pointer and report the one clicked */
+  inspecting?: boolean;
+  /** Inspect mode ended with a picked element, or null when the user pressed Escape */
+  onInspectEnd?: (target: ElementTarget | null) => void;
+}
+
+interface BridgeMethod {
+  capability: AppCapability;
+  handle: (params: Record<string, unknown>, app: VantageApp) => Promise<unknown>;
+}
+
+const BRIDGE_METHODS: Record<string, BridgeMethod> = {
+  'storage.setItem': {
+    capability: 'storage',
+    handle: (params, app) => AppStorageService.setItem(app.id, String(params.key), String(params.value))
+  },
+  'storage.removeItem': {
+    capability: 'storage',
+    handle: (params, app) => AppStorageService.removeItem(app.id, String(params.key))
+  },
+  'storage.clear': {
+    capability: 'storage',
+    handle: (_params, app) => AppStorageService.clear(app.id)
+  },
+  'clipboard.writeText': {
+    capability: 'clipboard',
+    handle: params => navigator.clipboard.writeText(String(params.text ?? ''))
+  },
+  'clipboard.readText': {
+    capability: 'clipboard',
+    handle: () => navigator.clipboard.readText()
+  },
+  download: {
+    capability: 'downloads',
+    handle: async params => {
+      if (!(params.blob instanceof Blob)) throw new Error('Nothing to download');
+      const url = URL.createObjectURL(params.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = String(params.fileName || 'download');
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    }
+  }
+};
+
+/**
+ * Runs an HTML app in an opaque-origin iframe and answers its bridge calls,
+ * but only for capabilities the user granted
+ */
+export const SandboxedAppFrame: React.FC<SandboxedAppFrameProps> = ({ app, granted, className, inspecting = false, onInspectEnd }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+
+  // Callers often pass a fresh array; key on its contents so the frame only reloads when grants change
+  const grantedKey = granted.join(',');
+  const grants = useMemo(
+    () => (grantedKey ? grantedKey.split(',') as AppCapability[] : []),
+    [grantedKey]
+  );
+  const canStore = grants.includes('storage');
+
+  // Saved data is injected into the page, so it has to be loaded before the frame renders
+  const [loadedDataFor, setLoadedDataFor] = useState<string | null>(null);
+  const isReady = !canStore || loadedDataFor === app.id;
+
+  useEffect(() => {
+    if (!canStore) return;
+    let cancelled = false;
+    AppStorageService.load(app.id)
+      .catch(error => logger.error(`Could not load saved data for ${app.name}`, error))
+      .finally(() => {
+        if (!cancelled) setLoadedDataFor(app.id);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [app.id, app.name, canStore]);
+
+  // Reads the latest snapshot, so a reload after an edit keeps what the app saved since opening
+  const srcDoc = useMemo(
+    () => (isReady ? AppSandbox.buildDocument(app.code, grants, AppStorageService.snapshot(app.id), ElementInspector.script()) : ''),
+    [app.code, app.id, grants, isReady]
+  );
+
+  useEffect(() => {
+    const handleMessage = async (event: MessageEvent) => {
+      const request = event.data as BridgeRequest | undefined;
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+      if (!request || request.channel !== BRIDGE_CHANNEL || typeof request.id !== 'number') return;
+
+      const target = event.source as Window;
+      const reply = (response: Omit<BridgeResponse, 'channel' | 'id'>) =>
+        target.postMessage({ channel: BRIDGE_CHANNEL, id: request.id, ...response }, '*');
+
+      const method = BRIDGE_METHODS[request.method];
+      if (!method) {
+        reply({ error: `Unknown bridge method: ${request.method}` });
+        return;
+      }
+      if (!grants.includes(method.capability)) {
+        logger.warn(`${app.name} tried to use ${method.capability} without permission`);
+        reply({ error: `This app has not been allowed to use ${method.capability}` });
+        return;
+      }
+
+      try {
+        reply({ result: await method.handle(request.params || {}, app) });
+      } catch (error) {
+        reply({ error: error instanceof Error ? error.message : 'Bridge call failed' });
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [app, grants]);
+
+  // Also sent on every load, since a reload after an edit starts a fresh page
+  useEffect(() => {
+    ElementInspector.setActive(iframeRef.current, inspecting);
+  }, [inspecting]);
+
+  useEffect(() => {
+    if (!onInspectEnd) return;
+    const handleMessage = (event: MessageEvent) => {
+      if (!iframeRef.current || event.source !== iframeRef.current.contentWindow) return;
+      const result = ElementInspector.readMessage(event.data);
+      if (result) onInspectEnd(result.target);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [onInspectEnd]);
+
+  if (!isReady) {
+    return (
+      <div className={`${className ?? ''} flex items-center justify-center`}>
+        <div className="w-8 h-8 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <iframe
+      ref={iframeRef}
+      srcDoc={srcDoc}
+      className={className}
+      sandbox={AppSandbox.sandboxAttribute(grants)}
+      allow={AppSandbox.permissionPolicy(grants)}
+      title={app.name}
+      onLoad={() => ElementInspector.setActive(iframeRef.current, inspecting)}
+    />
+  );
+};
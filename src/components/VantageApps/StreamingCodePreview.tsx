@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Code } from 'lucide-react';
+
+interface StreamingCodePreviewProps {
+  code: string;
+  bytesReceived: number;
+  startedAt: number;
+}
+
+/**
+ * Live view of the code as it streams in from the model.
+ * Uses the CodeViewer palette and keeps the newest tokens in view.
+ */
+export const StreamingCodePreview: React.FC<StreamingCodePreviewProps> = ({ code, bytesReceived, startedAt }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+
+  // Tick the elapsed time so long generations visibly keep going
+  useEffect(() => {
+    const tick = () => setElapsedSeconds(Math.floor((Date.now() - startedAt) / 1000));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  // Follow the stream as new tokens arrive
+  useEffect(() => {
+    if (scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [code]);
+
+  return (
+    <div className="bg-gray-900 rounded-lg overflow-hidden text-left">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-700">
+        <div className="flex items-center gap-2 text-white text-sm">
+          <Code size={14} />
+          <span className="font-semibold">Live code</span>
+        </div>
+        <span className="text-xs text-gray-400">
+          {(bytesReceived / 1024).toFixed(1)} KB received · {elapsedSeconds}s
+        </span>
+      </div>
+      <div ref={scrollRef} className="h-48 overflow-auto p-4 bg-gray-950">
+        {code ? (
+          <pre className="text-xs text-gray-300 font-mono leading-relaxed whitespace-pre-wrap break-all">
+            <code>{code}</code>
+            <span className="inline-block w-2 h-3 bg-blue-400 animate-pulse align-middle ml-0.5" />
+          </pre>
+        ) : (
+          <p className="text-xs text-gray-500 font-mono">Waiting for the first tokens...</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,19 @@
 import React, { useState } from 'react';
 import { X, RefreshCw } from 'lucide-react';
-
-interface GeneratedApp {
-  id: string;
-  name: string;
-  description: string;
-  iconUrl: string;
-  componentCode: string;
-  createdAt: string;
-}
+import { VantageApp } from '../../models/VantageApp';
+import { ElementTarget } from '../../models/ElementTarget';
 
 interface UpdateAppModalProps {
   isOpen: boolean;
-  app: GeneratedApp | null;
+  app: VantageApp | null;
   onClose: () => void;
-  onSubmit: (app: GeneratedApp, updatePrompt: string) => void;
+  onSubmit: (app: VantageApp, updatePrompt: string) => void;
+  /** Element picked in the running app that the update is about */
+  target?: ElementTarget | null;
+  onClearTarget?: () => void;
 }
 
-export const UpdateAppModal: React.FC<UpdateAppModalProps> = ({ isOpen, app, onClose, onSubmit }) => {
+export const UpdateAppModal: React.FC<UpdateAppModalProps> = ({ isOpen, app, onClose, onSubmit, target, onClearTarget }) => {
   const [updatePrompt, setUpdatePrompt] = useState('');
 
   if (!isOpen || !app) return null;
@@ -83,6 +79,18 @@ export const UpdateAppModal: React.FC<UpdateAppModalProps> = ({ isOpen, app, onC
             </p>
           </div>
 
+          {target && (
+            <div className="mb-4 flex items-center gap-2 bg-blue-50 border border-blue-200 rounded-lg px-3 py-2">
+              <span className="text-xs font-medium text-gray-700 whitespace-nowrap">🎯 Targeting</span>
+              <code className="flex-1 text-xs text-blue-700 truncate" title={target.outerHTML}>{target.selector}</code>
+              {onClearTarget && (
+                <button onClick={onClearTarget} className="p-1 hover:bg-blue-100 rounded transition-colors" title="Edit the whole app instead">
+                  <X size={14} className="text-gray-600" />
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="bg-gradient-to-br from-green-50 to-emerald-50 rounded-xl p-4 border border-green-200">
             <div className="flex justify-between items-center mb-3">
               <label className="block text-sm font-medium text-gray-700">
@@ -1,22 +1,43 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Trash2, ExternalLink, X, Sparkles, Edit, Maximize2, Minimize2 } from 'lucide-react';
-
-interface SavedApp {
-  id: string;
-  name: string;
-  description: string;
-  htmlCode: string;
-  iconUrl: string;
-  createdAt: string;
-}
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { X, Sparkles, Maximize2, Minimize2, History, ShieldCheck } from 'lucide-react';
+import { LLMService } from '../../services/LLMService';
+import { AppPipeline } from '../../services/AppPipeline';
+import { AppJobs, GENERATION_STEPS } from '../../services/AppJobs';
+import { JobManager, isActiveJob } from '../../services/JobManager';
+import { AppRepository, StorageQuota } from '../../services/AppRepository';
+import { AppBundleService, ImportMergeMode, ParsedBundle } from '../../services/AppBundleService';
+import { AppStorageService } from '../../services/AppStorageService';
+import { PromptRegistry } from '../../services/prompts/PromptRegistry';
+import { PromptRef } from '../../services/prompts/types';
+import { APP_KIND_OPTIONS, AppKind, VantageApp } from '../../models/VantageApp';
+import { DEFAULT_STYLE_PRESET, STYLE_PRESETS, StylePresetId, createAppStyle, parsePalette } from '../../models/StylePreset';
+import { AppRevision, PendingEdit, RevisionSource, createRevision } from '../../models/AppRevision';
+import { AppCapability } from '../../models/AppCapabilities';
+import { AppMessage, createMessage } from '../../models/AppConversation';
+import { ElementTarget } from '../../models/ElementTarget';
+import { ValidationResult } from '../../utils/AppValidator';
+import { StandaloneExporter } from '../../utils/StandaloneExporter';
+import { AppSandbox } from '../../utils/AppSandbox';
+import { SecurityScanner } from '../../utils/SecurityScanner';
+import { StreamingCodePreview } from './StreamingCodePreview';
+import { AppCard } from './AppCard';
+import { DraggableAppModal } from './DraggableAppModal';
+import { UpdateAppModal } from './UpdateAppModal';
+import { CodeViewer, useCodeViewer } from './CodeViewer';
+import { RevisionHistoryModal } from './RevisionHistoryModal';
+import { PendingEditModal } from './PendingEditModal';
+import { ImportPreviewModal } from './ImportPreviewModal';
+import { ExportAppModal, StandaloneFormat } from './ExportAppModal';
+import { CapabilityReview, CapabilityReviewModal } from './CapabilityReviewModal';
+import { SandboxedAppFrame } from './SandboxedAppFrame';
+import { RefinementChat } from './RefinementChat';
+import { useJobs } from '../Layout/useJobs';
 
 interface AppIdea {
   name: string;
   description: string;
 }
 
-const STORAGE_KEY = 'vantage_apps';
-
 const ALL_APP_IDEAS: AppIdea[] = [
   { name: "Polaroid Photo Booth", description: "Interactive photo booth that transforms uploaded images into retro Polaroid-style strips with vintage filters, customizable poses, and nostalgic white frames. Includes download and share features." },
   { name: "AI Mood Ring", description: "Animated mood ring that changes colors based on time of day, mouse movement, or user input. Features gradient animations, particle effects, and personalized mood insights with beautiful visual feedback." },
@@ -70,72 +91,108 @@ const ALL_APP_IDEAS: AppIdea[] = [
   { name: "Infinite Scroll Gallery", description: "Beautiful image gallery with lazy loading, smooth infinite scroll, lightbox view, and grid/masonry layouts. Features fade-in animations and responsive design." }
 ];
 
+const formatMegabytes = (bytes: number): string => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 const getRandomIdeas = (count: number): AppIdea[] => {
   const shuffled = [...ALL_APP_IDEAS].sort(() => Math.random() - 0.5);
   return shuffled.slice(0, count);
 };
 
+// Every capability the app asks for, or null if the user has already reviewed them all
+const unreviewedCapabilities = (app: VantageApp): AppCapability[] | null => {
+  const requested = AppSandbox.detectCapabilities(app.code);
+  const reviewed = app.capabilities?.requested ?? [];
+  return requested.some(capability => !reviewed.includes(capability)) ? requested : null;
+};
+
 export const VantageApps: React.FC = () => {
-  const [savedApps, setSavedApps] = useState<SavedApp[]>([]);
+  const [savedApps, setSavedApps] = useState<VantageApp[]>([]);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [selectedApp, setSelectedApp] = useState<SavedApp | null>(null);
+  const [selectedApp, setSelectedApp] = useState<VantageApp | null>(null);
+  const [reactViewerApp, setReactViewerApp] = useState<VantageApp | null>(null);
+  const [updatingReactApp, setUpdatingReactApp] = useState<VantageApp | null>(null);
+  const [updateTarget, setUpdateTarget] = useState<ElementTarget | null>(null);
+  const [historyApp, setHistoryApp] = useState<VantageApp | null>(null);
+  const [historyRevisionId, setHistoryRevisionId] = useState<string | undefined>(undefined);
+  const [pendingEdit, setPendingEdit] = useState<PendingEdit | null>(null);
+  // The refinement of the edit under review; the review waits for it
+  const [refiningJobId, setRefiningJobId] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<{ fileName: string; bundle: ParsedBundle } | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportingApp, setExportingApp] = useState<VantageApp | null>(null);
+  const [exportingFormat, setExportingFormat] = useState<StandaloneFormat | null>(null);
+  const [capabilityReview, setCapabilityReview] = useState<CapabilityReview | null>(null);
+  const [storageQuota, setStorageQuota] = useState<StorageQuota | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const { viewerState, showCode, closeViewer } = useCodeViewer();
 
   // Create/Edit flow state
   const [userPrompt, setUserPrompt] = useState('');
   const [selectedIdea, setSelectedIdea] = useState<AppIdea | null>(null);
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [progress, setProgress] = useState(0);
-  const [appName, setAppName] = useState('');
-  const [appDescription, setAppDescription] = useState('');
-  const [iconUrl, setIconUrl] = useState('');
-  const [editingApp, setEditingApp] = useState<SavedApp | null>(null);
-  const [editPrompt, setEditPrompt] = useState('');
+  const [appKind, setAppKind] = useState<AppKind>('html');
+  const [stylePreset, setStylePreset] = useState<StylePresetId>(DEFAULT_STYLE_PRESET);
+  const [customPalette, setCustomPalette] = useState('');
+  const [customNotes, setCustomNotes] = useState('');
+  // The generation the create modal is following; it keeps running if the modal closes
+  const [generationJobId, setGenerationJobId] = useState<string | null>(null);
+  // Refinement thread of the open HTML app; null while the chat is closed
+  const [conversation, setConversation] = useState<{ appId: string; messages: AppMessage[] } | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [refinementTarget, setRefinementTarget] = useState<ElementTarget | null>(null);
   const [isEnhancing, setIsEnhancing] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [displayedIdeas, setDisplayedIdeas] = useState<AppIdea[]>([]);
 
   const ideasScrollRef = useRef<HTMLDivElement>(null);
 
-  // Load apps from localStorage and migrate old icon formats
+  const jobs = useJobs();
+  const generationJob = jobs.find(job => job.id === generationJobId);
+  const isGenerating = generationJob !== undefined && isActiveJob(generationJob);
+  const currentStep = generationJob ? GENERATION_STEPS.indexOf(generationJob.step) + 1 : 0;
+  const refiningJob = jobs.find(job => job.id === refiningJobId);
+  const isRefining = refiningJob !== undefined && isActiveJob(refiningJob);
+  // The conversation waits for every job on the app, including the repair after its last edit
+  const isConversationBusy = conversation !== null && JobManager.isBusy(conversation.appId);
+
+  const refreshQuota = useCallback(() => {
+    AppRepository.getQuota()
+      .then(setStorageQuota)
+      .catch(error => console.error('Error reading storage quota:', error));
+  }, []);
+
+  // Every change is written through to the repository; failures are shown instead of lost
+  const persist = useCallback((operation: Promise<unknown>) => {
+    operation
+      .then(() => {
+        setStorageError(null);
+        refreshQuota();
+      })
+      .catch(error => {
+        console.error('Error saving apps:', error);
+        setStorageError(error instanceof Error ? error.message : 'Failed to save apps');
+      });
+  }, [refreshQuota]);
+
+  // Load apps (the repository migrates the old localStorage library) and migrate old icon formats
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const apps = JSON.parse(stored);
-        // Migrate apps with broken icons
-        const migratedApps = apps.map((app: SavedApp) => {
+    AppRepository.getAll()
+      .then(apps => {
+        const migratedApps = apps.map(app => {
           if (!app.iconUrl || !app.iconUrl.startsWith('data:image/svg+xml')) {
-            return {
-              ...app,
-              iconUrl: generateEmojiIcon(app.description)
-            };
+            const migratedApp = { ...app, iconUrl: generateEmojiIcon(app.description) };
+            persist(AppRepository.put(migratedApp));
+            return migratedApp;
           }
           return app;
         });
         setSavedApps(migratedApps);
-      } catch (e) {
-        console.error('Error loading apps:', e);
-      }
-    }
-  }, []);
-
-  // Save apps to localStorage
-  useEffect(() => {
-    if (savedApps.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(savedApps));
-    }
-  }, [savedApps]);
-
-  const getApiKey = (): string => {
-    const userKey = localStorage.getItem('gemini_api_key');
-    if (userKey) return userKey;
-
-    const envKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (envKey) return envKey;
-
-    throw new Error('Gemini API key not configured');
-  };
+        refreshQuota();
+      })
+      .catch(error => {
+        console.error('Error loading apps:', error);
+        setStorageError(error instanceof Error ? error.message : 'Failed to load apps');
+      });
+  }, [persist, refreshQuota]);
 
   const generateEmojiIcon = (description: string): string => {
     const colors = [
@@ -157,18 +214,88 @@ export const VantageApps: React.FC = () => {
     return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
   };
 
-  const extractCode = (text: string): string => {
-    const codeBlockMatch = text.match(/```html\n([\s\S]*?)\n```/);
-    if (codeBlockMatch) return codeBlockMatch[1];
+  const updateApp = useCallback((id: string, changes: Partial<VantageApp>) => {
+    setSavedApps(prev => prev.map(app => (app.id === id ? { ...app, ...changes } : app)));
+    persist(AppRepository.update(id, changes));
+  }, [persist]);
+
+  // Jobs save their own results; this keeps whatever is on screen in step with them
+  useEffect(() => AppJobs.subscribe(event => {
+    if (event.type === 'app-added') {
+      setSavedApps(prev => [event.app, ...prev.filter(app => app.id !== event.app.id)]);
+      refreshQuota();
+    } else if (event.type === 'app-changed') {
+      const { appId, changes } = event;
+      setSavedApps(prev => prev.map(app => (app.id === appId ? { ...app, ...changes } : app)));
+      if (changes.code === undefined) return;
+
+      setSelectedApp(prev => (prev?.id === appId ? { ...prev, ...changes } : prev));
+      setReactViewerApp(prev => (prev?.id === appId ? { ...prev, ...changes } : prev));
+      // An edit or repair can make an open HTML app ask for something new
+      if (selectedApp?.id === appId && selectedApp.kind === 'html') {
+        const updatedApp = { ...selectedApp, ...changes };
+        const requested = unreviewedCapabilities(updatedApp);
+        if (requested) setCapabilityReview({ app: updatedApp, requested });
+      }
+    } else {
+      const { message } = event;
+      setConversation(prev => (prev?.appId === message.appId ? { ...prev, messages: [...prev.messages, message] } : prev));
+    }
+  }), [selectedApp, refreshQuota]);
 
-    const genericBlockMatch = text.match(/```\n([\s\S]*?)\n```/);
-    if (genericBlockMatch) return genericBlockMatch[1];
+  // React edits finished in the background wait here until the review is free
+  useEffect(() => {
+    if (pendingEdit) return;
+    const proposal = AppJobs.takeProposal();
+    if (proposal) setPendingEdit(proposal);
+  }, [pendingEdit, jobs]);
 
-    if (text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
-      return text.trim();
+  const resetCreateFlow = useCallback(() => {
+    setUserPrompt('');
+    setSelectedIdea(null);
+    setAppKind('html');
+    setStylePreset(DEFAULT_STYLE_PRESET);
+    setCustomPalette('');
+    setCustomNotes('');
+    setGenerationJobId(null);
+  }, []);
+
+  // The create modal follows its generation until the app is saved, or shows why it was not
+  useEffect(() => {
+    if (!generationJob || isActiveJob(generationJob)) return;
+
+    setGenerationJobId(null);
+    if (generationJob.status === 'succeeded') {
+      setShowCreateModal(false);
+      resetCreateFlow();
+    } else if (generationJob.status === 'failed') {
+      alert(`Failed to generate app: ${generationJob.error || 'please try again.'}`);
     }
+    JobManager.dismiss(generationJob.id);
+  }, [generationJob, resetCreateFlow]);
 
-    return text;
+  // A finished refinement replaces the edit under review; if it failed or was cancelled, the review goes on as it was
+  useEffect(() => {
+    if (!refiningJob || isActiveJob(refiningJob)) return;
+
+    setRefiningJobId(null);
+    if (refiningJob.status === 'succeeded') {
+      setPendingEdit(AppJobs.takeProposal());
+    } else if (refiningJob.status === 'failed') {
+      alert(`Failed to refine changes: ${refiningJob.error || 'please try again.'}`);
+    }
+  }, [refiningJob]);
+
+  const recordRevision = (
+    app: Pick<VantageApp, 'id' | 'code'>,
+    source: RevisionSource,
+    prompt: string,
+    validation?: ValidationResult,
+    promptTemplate?: PromptRef
+  ): AppRevision => {
+    const revision = createRevision(app, source, prompt, validation, promptTemplate);
+    persist(AppRepository.addRevision(revision));
+    return revision;
   };
 
   const enhancePrompt = async () => {
@@ -176,45 +303,10 @@ export const VantageApps: React.FC = () => {
 
     setIsEnhancing(true);
     try {
-      const apiKey = getApiKey();
-
-      const enhanceResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `You are a creative prompt enhancer for generating interactive web apps. Take this basic app idea and transform it into a vivid, detailed, creative prompt that will result in a stunning, interactive web application.
-
-Original idea: "${userPrompt}"
-
-Transform this into a bold, creative, detailed prompt that includes:
-- Specific visual style (e.g., neon, retro, minimalist, aesthetic, cosmic, synthwave, vaporwave)
-- Interactive elements and animations (particles, transitions, hover effects, smooth animations)
-- Color schemes and visual effects (gradients, glows, shadows, filters)
-- User interactions (drag-drop, click effects, keyboard controls, gestures)
-- Unique features that make it memorable and fun
-- Modern, trendy design elements
-
-Examples of good enhancements:
-- "timer" → "Stunning pomodoro timer with animated synthwave aesthetics, neon grid backgrounds, sunset gradients, and satisfying completion effects"
-- "photo editor" → "Interactive photo booth that transforms images into retro Polaroid-style strips with vintage filters, customizable poses, and nostalgic white frames"
-- "note app" → "Aesthetic note-taking app with gradient backgrounds, smooth card animations, drag-to-reorder, and beautiful typography with auto-save sparkle effects"
-
-Be creative and bold! Think about what would make someone say "wow, this is cool!"
-
-Return ONLY the enhanced prompt, no explanations or quotation marks.`
-              }]
-            }]
-          })
-        }
-      );
+      const enhanceResult = await LLMService.generateText(PromptRegistry.render('app.enhance', { idea: userPrompt }).text);
 
-      const enhanceData = await enhanceResponse.json();
-      if (enhanceData.candidates && enhanceData.candidates[0]) {
-        const enhancedText = enhanceData.candidates[0].content.parts[0].text.trim();
+      const enhancedText = enhanceResult.text.trim();
+      if (enhancedText) {
         setUserPrompt(enhancedText);
         setSelectedIdea(null);
       }
@@ -226,273 +318,147 @@ Return ONLY the enhanced prompt, no explanations or quotation marks.`
     }
   };
 
-  const startGeneration = async () => {
-    const description = userPrompt || selectedIdea?.description || '';
-    if (!description) return;
+  // Code the security policy blocks is never saved; warnings are shown on the card
+  const isBlockedBySecurity = (app: Pick<VantageApp, 'kind' | 'code'>, action: string): boolean => {
+    const { blocked } = AppPipeline.scan(app);
+    if (blocked.length === 0) return false;
 
-    setIsGenerating(true);
-    setCurrentStep(1);
-    setProgress(25);
+    alert(`${action} was blocked by the security policy:\n\n${blocked.map(finding => SecurityScanner.format(finding)).join('\n')}`);
+    return true;
+  };
 
-    try {
-      const apiKey = getApiKey();
-
-      // Step 1: Generate app info (name + description)
-      const infoResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Based on this app idea: "${description}", generate a creative app name and brief description. Return ONLY a JSON object with this exact format: {"name": "App Name", "description": "Brief description"}. No other text.`
-              }]
-            }]
-          })
-        }
-      );
+  // The job saves the app itself, so closing the modal or leaving the page does not lose it
+  const startGeneration = () => {
+    const description = userPrompt || selectedIdea?.description || '';
+    if (!description) return;
 
-      const infoData = await infoResponse.json();
-      if (infoData.candidates && infoData.candidates[0]) {
-        const text = infoData.candidates[0].content.parts[0].text;
-        const jsonMatch = text.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const appInfo = JSON.parse(jsonMatch[0]);
-          setAppName(appInfo.name);
-          setAppDescription(appInfo.description);
-        }
-      }
+    const style = createAppStyle(stylePreset, { palette: parsePalette(customPalette), notes: customNotes });
+    setGenerationJobId(AppJobs.generate({ kind: appKind, description, style, iconUrl: generateEmojiIcon(description) }));
+  };
 
-      // Generate icon
-      setIconUrl(generateEmojiIcon(description));
-
-      // Step 2: Developing logic
-      setCurrentStep(2);
-      setProgress(50);
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      // Step 3: Designing screens + Generate code
-      setCurrentStep(3);
-      setProgress(75);
-
-      const codeResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Generate a complete, self-contained HTML page with inline CSS and JavaScript for: ${description}
-
-VISUAL STYLE & DESIGN:
-- Make it STUNNING and MODERN with bold design choices
-- Use eye-catching color gradients, glows, shadows, and visual effects
-- Add smooth, satisfying animations and transitions (fade, slide, scale, bounce, etc.)
-- Include hover effects, active states, and micro-interactions
-- Use modern CSS features: backdrop-filter, box-shadow, gradients, transforms
-- Consider aesthetic styles: synthwave, vaporwave, glassmorphism, neumorphism, minimalist, retro, neon, cosmic, etc.
-
-INTERACTIVITY:
-- Make it highly interactive and responsive to user actions
-- Add particle effects, visual feedback, and satisfying click/hover animations
-- Include keyboard shortcuts where appropriate
-- Smooth state transitions and loading animations
-- Add sound effects or visual cues for important actions
-
-TECHNICAL REQUIREMENTS:
-- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
-- Include all CSS in a <style> tag in the <head>
-- Include all JavaScript in a <script> tag before closing </body>
-- No external dependencies or imports
-- The code should run immediately when loaded
-- Make it mobile-friendly and responsive
-
-IMAGE MANIPULATION REQUIREMENTS (if the app involves uploading, editing, or manipulating images):
-- MUST use HTML5 Canvas API for all image manipulation
-- Use canvas.getContext('2d') for drawing and image processing
-- For filters/effects, manipulate pixel data using getImageData() and putImageData()
-- Example pattern: canvas.drawImage() -> getImageData() -> modify pixels -> putImageData()
-- DO NOT use CSS filters alone for image editing (CSS is OK for UI effects only)
-- Provide download functionality using canvas.toDataURL() or canvas.toBlob()
-
-CRITICAL - NO BROWSER DEFAULTS:
-- NEVER use alert(), confirm(), or prompt() functions
-- Instead, create custom modal dialogs with HTML/CSS/JavaScript
-- Custom modals should have:
-  * Beautiful, modern styling with backdrop blur or dark overlay (use backdrop-filter: blur())
-  * Smooth fade-in/fade-out animations with CSS transitions
-  * Rounded corners, shadows, and polished design
-  * Styled buttons that match the app's aesthetic
-  * Perfect centering with flexbox
-  * Close button with smooth hover effect
-- Example modal structure: <div class="modal-overlay"><div class="modal-content">...</div></div>
-
-INSPIRATION:
-Think dribbble.com, behance.net level quality. Make something people would want to screenshot and share!
-
-Return only the HTML code, no explanations or markdown.`
-              }]
-            }]
-          })
-        }
-      );
+  // React apps are edited from the card; the proposal goes through the same review
+  const startReactUpdate = (app: VantageApp, updatePrompt: string, target?: ElementTarget) => {
+    AppJobs.proposeEdit(app, updatePrompt, target);
+  };
 
-      const codeData = await codeResponse.json();
-      let generatedCode = '';
+  const acceptPendingEdit = () => {
+    if (!pendingEdit) return;
 
-      if (codeData.candidates && codeData.candidates[0]) {
-        const responseText = codeData.candidates[0].content.parts[0].text;
-        generatedCode = extractCode(responseText);
+    const { app, prompt, code, validation, promptTemplate, target, messageId } = pendingEdit;
+    // A repair, restore or other edit saved since the proposal would be silently undone
+    const saved = savedApps.find(candidate => candidate.id === app.id);
+    if (saved && saved.code !== app.code) {
+      if (confirm(`${app.name} changed after this edit was proposed. Make the change again on the current version?`)) {
+        AppJobs.proposeEdit(saved, prompt, target);
+        setPendingEdit(null);
       }
+      return;
+    }
 
-      // Step 4: Final touches
-      setCurrentStep(4);
-      setProgress(100);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Save the app
-      const newApp: SavedApp = {
-        id: Date.now().toString(),
-        name: appName || description.substring(0, 50),
-        description: appDescription || description,
-        htmlCode: generatedCode,
-        iconUrl: iconUrl,
-        createdAt: new Date().toISOString(),
-      };
+    // The review stays open so the change can be refined or rejected
+    if (isBlockedBySecurity({ kind: app.kind, code }, 'Applying the change')) return;
+
+    persist(AppJobs.applyEdit(app, prompt, code, validation, promptTemplate).then(revision => {
+      if (!messageId) return;
+      // The chat reply that proposed the edit now links to what it produced
+      setConversation(prev => (prev?.appId === app.id
+        ? { ...prev, messages: prev.messages.map(message => (message.id === messageId ? { ...message, revisionId: revision.id } : message)) }
+        : prev));
+      return AppRepository.updateMessage(messageId, { revisionId: revision.id });
+    }));
+    setPendingEdit(null);
+  };
 
-      setSavedApps(prev => [newApp, ...prev]);
+  const openRefinement = (app: VantageApp) => {
+    setConversation({ appId: app.id, messages: [] });
+    setIsInspecting(false);
+    setRefinementTarget(null);
+    AppRepository.getMessages(app.id)
+      .then(messages => setConversation(prev => (prev?.appId === app.id ? { appId: app.id, messages } : prev)))
+      .catch(error => {
+        console.error('Error loading conversation:', error);
+        setStorageError(error instanceof Error ? error.message : 'Failed to load conversation');
+      });
+  };
 
-      // Reset and close
-      setShowCreateModal(false);
-      resetCreateFlow();
+  const closeRefinement = () => {
+    setConversation(null);
+    setIsInspecting(false);
+    setRefinementTarget(null);
+  };
 
-    } catch (error) {
-      console.error('Generation error:', error);
-      alert('Failed to generate app. Please try again.');
-      setIsGenerating(false);
-    }
+  const finishInspect = (target: ElementTarget | null) => {
+    setIsInspecting(false);
+    if (target) setRefinementTarget(target);
   };
 
-  const startEdit = async () => {
-    if (!editingApp || !editPrompt.trim()) return;
+  // One conversation turn, run as a job: the model either proposes an edit for review or asks a question back
+  const sendRefinement = (request: string) => {
+    if (!selectedApp || !conversation || isConversationBusy) return;
+
+    // The library copy also has the latest repairs and test results
+    const app = savedApps.find(saved => saved.id === selectedApp.id) || selectedApp;
+    const history = conversation.messages;
+    const target = refinementTarget || undefined;
+    const message = createMessage(app.id, 'user', request, { target });
+    setConversation({ ...conversation, messages: [...history, message] });
+    persist(AppRepository.addMessage(message));
+    setRefinementTarget(null);
+    setIsInspecting(false);
+
+    AppJobs.refine(app, history, request, target);
+  };
 
-    setIsGenerating(true);
-    setCurrentStep(1);
-    setProgress(25);
+  // Refinements build on the proposal, but the diff stays against the app's current code
+  const refinePendingEdit = (instruction: string) => {
+    if (!pendingEdit || isRefining) return;
+    setRefiningJobId(AppJobs.refineProposal(pendingEdit, instruction));
+  };
 
-    try {
-      const apiKey = getApiKey();
-
-      setAppName(editingApp.name);
-      setAppDescription(editingApp.description);
-      setIconUrl(editingApp.iconUrl);
-
-      // Step 2: Analyzing current code
-      setCurrentStep(2);
-      setProgress(50);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Step 3: Applying changes
-      setCurrentStep(3);
-      setProgress(75);
-
-      const editResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `You are editing an existing HTML application. Here is the current code:
-
-${editingApp.htmlCode}
-
-User's edit request: ${editPrompt}
-
-Generate the COMPLETE updated HTML code with the requested changes applied.
-
-WHEN APPLYING CHANGES:
-- Make improvements BOLD and VISUALLY STRIKING
-- If adding features, make them aesthetic with smooth animations
-- Enhance with gradients, glows, shadows, and modern effects
-- Add satisfying micro-interactions and hover effects
-- Keep the existing style consistent while making it even better
-- Add particle effects or visual flourishes where appropriate
-
-TECHNICAL REQUIREMENTS:
-- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
-- Keep all CSS in a <style> tag in the <head>
-- Keep all JavaScript in a <script> tag before closing </body>
-- Maintain the app's existing functionality unless explicitly asked to change it
-- Apply the user's requested changes with creative flair
-- No external dependencies or imports
-
-IMAGE MANIPULATION REQUIREMENTS (if the app involves uploading, editing, or manipulating images):
-- MUST use HTML5 Canvas API for all image manipulation
-- Use canvas.getContext('2d') for drawing and image processing
-- For filters/effects, manipulate pixel data using getImageData() and putImageData()
-- Example pattern: canvas.drawImage() -> getImageData() -> modify pixels -> putImageData()
-- DO NOT use CSS filters alone for image editing (CSS is OK for UI effects only)
-- Provide download functionality using canvas.toDataURL() or canvas.toBlob()
-
-CRITICAL - NO BROWSER DEFAULTS:
-- NEVER use alert(), confirm(), or prompt() functions
-- Instead, create custom modal dialogs with beautiful styling, backdrop blur, smooth animations
-
-Return only the HTML code, no explanations or markdown.`
-              }]
-            }]
-          })
-        }
-      );
+  // Restoring never rewrites history - the old code comes back as a new revision
+  const restoreRevision = (app: VantageApp, revision: AppRevision) => {
+    if (isBlockedBySecurity({ kind: app.kind, code: revision.code }, 'Restoring this version')) return;
+
+    const validation = AppPipeline.validate({ ...app, code: revision.code });
+    const restoredApp: VantageApp = {
+      ...app,
+      code: revision.code,
+      validationWarnings: [...validation.errors, ...validation.warnings],
+      testStatus: 'untested',
+      testErrors: []
+    };
 
-      const editData = await editResponse.json();
-      let updatedCode = '';
+    updateApp(app.id, restoredApp);
+    recordRevision(
+      restoredApp,
+      'restore',
+      `Restored version from ${new Date(revision.createdAt).toLocaleString()}`,
+      validation
+    );
 
-      if (editData.candidates && editData.candidates[0]) {
-        const responseText = editData.candidates[0].content.parts[0].text;
-        updatedCode = extractCode(responseText);
-      }
+    closeHistory();
+    setSelectedApp(prev => (prev?.id === app.id ? restoredApp : prev));
+    setReactViewerApp(prev => (prev?.id === app.id ? restoredApp : prev));
 
-      // Step 4: Final touches
-      setCurrentStep(4);
-      setProgress(100);
-      await new Promise(resolve => setTimeout(resolve, 500));
-
-      // Update the app
-      setSavedApps(prev =>
-        prev.map(app =>
-          app.id === editingApp.id
-            ? { ...app, htmlCode: updatedCode }
-            : app
-        )
-      );
+    AppJobs.repair(restoredApp);
+  };
 
-      // Close edit mode and viewer
-      setEditingApp(null);
-      setEditPrompt('');
-      setSelectedApp(null);
-      setIsGenerating(false);
+  const showRevision = (app: VantageApp, revisionId: string) => {
+    setHistoryRevisionId(revisionId);
+    setHistoryApp(app);
+  };
 
-    } catch (error) {
-      console.error('Edit error:', error);
-      alert('Failed to edit app. Please try again.');
-      setIsGenerating(false);
-    }
+  const closeHistory = () => {
+    setHistoryApp(null);
+    setHistoryRevisionId(undefined);
   };
 
-  const resetCreateFlow = () => {
-    setUserPrompt('');
-    setSelectedIdea(null);
-    setIsGenerating(false);
-    setCurrentStep(0);
-    setProgress(0);
-    setAppName('');
-    setAppDescription('');
-    setIconUrl('');
+  // The viewer hit errors the hidden test may not reproduce, so they seed the repair
+  const repairFromViewer = (errors: string[]) => {
+    if (!reactViewerApp) return;
+    const app = reactViewerApp;
+    setReactViewerApp(null);
+    AppJobs.repair(app, errors);
   };
 
   const openCreateModal = () => {
@@ -511,85 +477,175 @@ Return only the HTML code, no explanations or markdown.`
     setUserPrompt(idea.description);
   };
 
-  const deleteApp = (id: string) => {
-    if (confirm('Are you sure you want to delete this app?')) {
+  const deleteApp = useCallback((id: string, name: string) => {
+    if (confirm(`Are you sure you want to delete "${name}"?`)) {
       setSavedApps(prev => prev.filter(app => app.id !== id));
-      if (selectedApp?.id === id) {
-        setSelectedApp(null);
-      }
+      persist(AppRepository.delete(id));
+      AppStorageService.invalidate(id);
+      setSelectedApp(prev => (prev?.id === id ? null : prev));
+      setReactViewerApp(prev => (prev?.id === id ? null : prev));
     }
+  }, [persist]);
+
+  // HTML apps only run once the user has approved what they ask for
+  const openHtmlApp = useCallback((app: VantageApp) => {
+    const requested = unreviewedCapabilities(app);
+    if (requested) {
+      setCapabilityReview({ app, requested });
+    } else {
+      setSelectedApp(app);
+    }
+  }, []);
+
+  const approveCapabilities = (granted: AppCapability[]) => {
+    if (!capabilityReview) return;
+
+    const { app, requested } = capabilityReview;
+    const capabilities = { requested, granted };
+    updateApp(app.id, { capabilities });
+    setSelectedApp({ ...app, capabilities });
+    setCapabilityReview(null);
   };
 
-  const openApp = (app: SavedApp) => {
-    setSelectedApp(app);
+  const cancelCapabilityReview = () => {
+    setCapabilityReview(null);
+    // Declining the review of an app that isn't open yet also closes its conversation
+    if (!selectedApp) {
+      closeRefinement();
+    }
   };
 
+  const openApp = useCallback((app: VantageApp) => {
+    if (app.kind === 'react') {
+      setReactViewerApp(app);
+    } else {
+      openHtmlApp(app);
+    }
+  }, [openHtmlApp]);
+
+  const openUpdate = useCallback((app: VantageApp) => {
+    if (app.kind === 'react') {
+      setUpdateTarget(null);
+      setUpdatingReactApp(app);
+    } else {
+      openHtmlApp(app);
+      openRefinement(app);
+    }
+  }, [openHtmlApp]);
+
+  // An element picked in the React viewer opens the update form aimed at it
+  const pickReactElement = useCallback((target: ElementTarget) => {
+    setUpdateTarget(target);
+    setUpdatingReactApp(reactViewerApp);
+  }, [reactViewerApp]);
+
+  const openDebug = useCallback((app: VantageApp) => {
+    showCode(app.code, `${app.name} (${app.kind === 'react' ? 'React' : 'HTML'})`);
+  }, [showCode]);
+
   const closeAppViewer = () => {
     setSelectedApp(null);
+    closeRefinement();
     setIsFullscreen(false);
   };
 
-  const openEditMode = (app: SavedApp) => {
-    setEditingApp(app);
-    setEditPrompt('');
-  };
-
-  const cancelEdit = () => {
-    setEditingApp(null);
-    setEditPrompt('');
-  };
-
   const toggleFullscreen = () => {
     setIsFullscreen(!isFullscreen);
   };
 
-  const exportApps = () => {
-    const dataStr = JSON.stringify(savedApps, null, 2);
-    const dataBlob = new Blob([dataStr], { type: 'application/json' });
-    const url = URL.createObjectURL(dataBlob);
+  const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
-    link.download = `vantage-apps-${new Date().toISOString().split('T')[0]}.json`;
+    link.download = fileName;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
+  const exportApps = async () => {
+    try {
+      const bundle = await AppBundleService.createBundle();
+      const dataStr = JSON.stringify(bundle, null, 2);
+      downloadBlob(
+        new Blob([dataStr], { type: 'application/json' }),
+        `vantage-apps-${new Date().toISOString().split('T')[0]}.json`
+      );
+    } catch (error) {
+      console.error('Error exporting apps:', error);
+      alert(`Failed to export apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const exportStandalone = async (app: VantageApp, format: StandaloneFormat) => {
+    setExportingFormat(format);
+    try {
+      const result = format === 'zip'
+        ? await StandaloneExporter.exportZip(app)
+        : await StandaloneExporter.exportHtml(app);
+      downloadBlob(result.blob, result.fileName);
+      setExportingApp(null);
+    } catch (error) {
+      console.error('Error exporting app:', error);
+      alert(`Failed to export app: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  // HTML apps only have one export format, so skip the chooser
+  const openExport = (app: VantageApp) => {
+    if (app.kind === 'react') {
+      setExportingApp(app);
+    } else {
+      exportStandalone(app, 'html');
+    }
+  };
+
   const importApps = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
+    // Reset so picking the same file again still fires onChange
+    event.target.value = '';
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (e) => {
+    reader.onload = async (e) => {
       try {
-        const importedApps = JSON.parse(e.target?.result as string);
-        if (Array.isArray(importedApps)) {
-          setSavedApps(importedApps);
-          alert(`Successfully imported ${importedApps.length} apps!`);
-        }
+        const bundle = await AppBundleService.parseBundle(e.target?.result as string);
+        setImportPreview({ fileName: file.name, bundle });
       } catch (error) {
-        alert('Failed to import apps. Invalid file format.');
+        alert(`Failed to import apps: ${error instanceof Error ? error.message : 'Invalid file format'}`);
       }
     };
     reader.readAsText(file);
   };
 
-  const STEP_LABELS = [
-    '',
-    'Creating plan',
-    'Developing logic',
-    'Designing screens',
-    'Adding final touches'
-  ];
-
-  const EDIT_STEP_LABELS = [
-    '',
-    'Analyzing request',
-    'Understanding current code',
-    'Applying changes',
-    'Finalizing updates'
-  ];
+  const confirmImport = async (mode: ImportMergeMode) => {
+    if (!importPreview) return;
+
+    setIsImporting(true);
+    try {
+      const summary = await AppBundleService.importBundle(importPreview.bundle, mode);
+      setSavedApps(await AppRepository.getAll());
+      setStorageError(null);
+      refreshQuota();
+      setImportPreview(null);
+
+      const parts = [
+        summary.added > 0 && `${summary.added} added`,
+        summary.overwritten > 0 && `${summary.overwritten} overwritten`,
+        summary.duplicated > 0 && `${summary.duplicated} imported as copies`,
+        summary.skipped > 0 && `${summary.skipped} skipped`
+      ].filter(Boolean);
+      alert(`Import complete: ${parts.join(', ') || 'nothing to import'}.`);
+    } catch (error) {
+      console.error('Error importing apps:', error);
+      alert(`Failed to import apps: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
 
   return (
     <>
@@ -599,28 +655,35 @@ Return only the HTML code, no explanations or markdown.`
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Vantage Apps</h1>
             <p className="text-gray-600 mt-1">Create and manage your AI-generated apps</p>
+            {storageQuota && (
+              <p className="text-xs text-gray-400 mt-1">
+                {storageQuota.appCount} app{storageQuota.appCount === 1 ? '' : 's'} · {formatMegabytes(storageQuota.usage)} used
+                {storageQuota.quota > 0 && ` of ${formatMegabytes(storageQuota.quota)}`}
+              </p>
+            )}
           </div>
           <div className="flex items-center gap-2">
             {savedApps.length > 0 && (
-              <>
-                <button
-                  onClick={exportApps}
-                  className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-                  title="Export all apps to JSON file"
-                >
-                  📥 Export
-                </button>
-                <label className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors cursor-pointer">
-                  📤 Import
-                  <input
-                    type="file"
-                    accept=".json"
-                    onChange={importApps}
-                    className="hidden"
-                  />
-                </label>
-              </>
+              <button
+                onClick={exportApps}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                title="Export all apps and their history to a JSON file"
+              >
+                📥 Export
+              </button>
             )}
+            <label
+              className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors cursor-pointer"
+              title="Import apps from an export file"
+            >
+              📤 Import
+              <input
+                type="file"
+                accept=".json"
+                onChange={importApps}
+                className="hidden"
+              />
+            </label>
             <button
               onClick={openCreateModal}
               className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
@@ -631,6 +694,14 @@ Return only the HTML code, no explanations or markdown.`
           </div>
         </div>
 
+        {storageError && (
+          <div className="mb-4 bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">
+              ❌ Apps could not be saved: {storageError}
+            </p>
+          </div>
+        )}
+
         {savedApps.length === 0 ? (
           <div className="flex-1 flex items-center justify-center">
             <div className="text-center">
@@ -648,55 +719,16 @@ Return only the HTML code, no explanations or markdown.`
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {savedApps.map(app => (
-              <div
+              <AppCard
                 key={app.id}
-                className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow"
-              >
-                <div className="flex items-start gap-3 mb-3">
-                  <img
-                    src={app.iconUrl}
-                    alt={app.name}
-                    className="w-12 h-12 rounded-lg flex-shrink-0"
-                    onError={(e) => {
-                      const target = e.target as HTMLImageElement;
-                      target.src = generateEmojiIcon(app.description);
-                    }}
-                  />
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold text-gray-900 mb-1 truncate">{app.name}</h3>
-                    <p className="text-sm text-gray-600 line-clamp-2">{app.description}</p>
-                    <p className="text-xs text-gray-400 mt-2">
-                      {new Date(app.createdAt).toLocaleDateString()}
-                    </p>
-                  </div>
-                </div>
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => openApp(app)}
-                    className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-blue-600 text-white text-sm rounded hover:bg-blue-700 transition-colors"
-                  >
-                    <ExternalLink size={14} />
-                    Open
-                  </button>
-                  <button
-                    onClick={() => {
-                      openApp(app);
-                      setTimeout(() => openEditMode(app), 100);
-                    }}
-                    className="px-3 py-2 bg-gray-600 text-white text-sm rounded hover:bg-gray-700 transition-colors"
-                    title="Edit App"
-                  >
-                    <Edit size={14} />
-                  </button>
-                  <button
-                    onClick={() => deleteApp(app.id)}
-                    className="px-3 py-2 bg-red-600 text-white text-sm rounded hover:bg-red-700 transition-colors"
-                    title="Delete App"
-                  >
-                    <Trash2 size={14} />
-                  </button>
-                </div>
-              </div>
+                app={app}
+                isUpdating={jobs.some(job => job.kind === 'edit' && job.appId === app.id && isActiveJob(job))}
+                onOpen={openApp}
+                onDebug={openDebug}
+                onUpdate={openUpdate}
+                onExport={openExport}
+                onDelete={deleteApp}
+              />
             ))}
           </div>
         )}
@@ -714,8 +746,8 @@ Return only the HTML code, no explanations or markdown.`
               </div>
               <button
                 onClick={closeCreateModal}
-                disabled={isGenerating}
-                className="p-2 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                title={isGenerating ? 'Keep generating in the background' : 'Close'}
               >
                 <X size={20} />
               </button>
@@ -786,6 +818,82 @@ Return only the HTML code, no explanations or markdown.`
                     )}
                   </div>
 
+                  {/* App Kind */}
+                  <div className="mt-6">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      App type
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {APP_KIND_OPTIONS.map(option => (
+                        <button
+                          key={option.id}
+                          onClick={() => setAppKind(option.id)}
+                          className={`p-3 rounded-lg border-2 text-left transition-all ${
+                            appKind === option.id
+                              ? 'border-blue-600 bg-blue-50'
+                              : 'border-gray-200 bg-white hover:border-blue-300'
+                          }`}
+                        >
+                          <div className="font-semibold text-gray-900 text-sm mb-1">{option.label}</div>
+                          <div className="text-xs text-gray-500">{option.description}</div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Style Preset */}
+                  <div className="mt-6">
+                    <label className="block text-sm font-semibold text-gray-700 mb-2">
+                      Style
+                    </label>
+                    <div className="grid grid-cols-2 gap-3">
+                      {STYLE_PRESETS.map(preset => (
+                        <button
+                          key={preset.id}
+                          onClick={() => setStylePreset(preset.id)}
+                          className={`p-3 rounded-lg border-2 text-left transition-all ${
+                            stylePreset === preset.id
+                              ? 'border-blue-600 bg-blue-50'
+                              : 'border-gray-200 bg-white hover:border-blue-300'
+                          }`}
+                        >
+                          <div className="font-semibold text-gray-900 text-sm mb-1">{preset.label}</div>
+                          <div className="text-xs text-gray-500">{preset.description}</div>
+                          {Object.keys(preset.colors).length > 0 && (
+                            <div className="flex gap-1 mt-2">
+                              {Object.entries(preset.colors).slice(0, 6).map(([name, color]) => (
+                                <span
+                                  key={name}
+                                  title={`${name}: ${color}`}
+                                  className="w-4 h-4 rounded-full border border-gray-200"
+                                  style={{ backgroundColor: color }}
+                                />
+                              ))}
+                            </div>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                    {stylePreset === 'custom' && (
+                      <div className="mt-3 space-y-3">
+                        <input
+                          type="text"
+                          value={customPalette}
+                          onChange={(e) => setCustomPalette(e.target.value)}
+                          placeholder="Palette, e.g. #0072CE, #FF6B00, #1F2937"
+                          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        <textarea
+                          value={customNotes}
+                          onChange={(e) => setCustomNotes(e.target.value)}
+                          placeholder="Component rules, e.g. 'square corners, no shadows, uppercase buttons'"
+                          className="w-full border border-gray-300 rounded-lg px-4 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                          rows={2}
+                        />
+                      </div>
+                    )}
+                  </div>
+
                   {/* Generate Button */}
                   <button
                     onClick={startGeneration}
@@ -802,7 +910,7 @@ Return only the HTML code, no explanations or markdown.`
                     {/* Icon with progress ring */}
                     <div className="relative inline-block mb-6">
                       <div className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center text-4xl">
-                        {iconUrl && <img src={iconUrl} alt="App icon" className="w-20 h-20 rounded-full" />}
+                        {generationJob?.iconUrl && <img src={generationJob.iconUrl} alt="App icon" className="w-20 h-20 rounded-full" />}
                       </div>
                       {/* Progress Ring */}
                       <svg className="absolute inset-0 w-24 h-24 -rotate-90">
@@ -822,23 +930,23 @@ Return only the HTML code, no explanations or markdown.`
                           strokeWidth="4"
                           fill="none"
                           strokeDasharray={`${2 * Math.PI * 44}`}
-                          strokeDashoffset={`${2 * Math.PI * 44 * (1 - progress / 100)}`}
+                          strokeDashoffset={`${2 * Math.PI * 44 * (1 - (generationJob?.progress ?? 0) / 100)}`}
                           className="transition-all duration-500"
                         />
                       </svg>
                     </div>
 
                     {/* App Name */}
-                    {appName && (
-                      <h3 className="text-xl font-bold text-gray-900 mb-2">{appName}</h3>
+                    {generationJob && (
+                      <h3 className="text-xl font-bold text-gray-900 mb-2">{generationJob.title}</h3>
                     )}
 
                     {/* Current Step */}
                     <div className="mb-8">
                       <div className="text-lg font-semibold text-blue-600 mb-2">
-                        {STEP_LABELS[currentStep]}
+                        {generationJob?.status === 'queued' ? 'Waiting for another job to finish' : GENERATION_STEPS[currentStep - 1]}
                       </div>
-                      <div className="text-sm text-gray-500">{progress}% complete</div>
+                      <div className="text-sm text-gray-500">{generationJob?.progress ?? 0}% complete</div>
                     </div>
 
                     {/* Step Progress */}
@@ -857,11 +965,32 @@ Return only the HTML code, no explanations or markdown.`
                           <div className={`text-sm font-medium ${
                             currentStep >= step ? 'text-gray-900' : 'text-gray-400'
                           }`}>
-                            {STEP_LABELS[step]}
+                            {GENERATION_STEPS[step - 1]}
                           </div>
                         </div>
                       ))}
                     </div>
+
+                    {/* Live Code Preview */}
+                    {currentStep >= 2 && generationJob?.preview && (
+                      <div className="mt-8">
+                        <StreamingCodePreview
+                          code={generationJob.preview.code}
+                          bytesReceived={generationJob.preview.bytesReceived}
+                          startedAt={generationJob.preview.startedAt}
+                        />
+                      </div>
+                    )}
+
+                    <p className="mt-8 text-xs text-gray-500">
+                      You can close this window; the app keeps generating in the background and appears in your apps when it is ready.
+                    </p>
+                    <button
+                      onClick={() => generationJob && JobManager.cancel(generationJob.id)}
+                      className="mt-3 px-4 py-2 text-sm text-red-600 border border-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                    >
+                      Cancel generation
+                    </button>
                   </div>
                 </>
               )}
@@ -890,14 +1019,33 @@ Return only the HTML code, no explanations or markdown.`
                 </div>
               </div>
               <div className="flex items-center gap-2">
-                {!editingApp && !isGenerating && (
+                {conversation?.appId !== selectedApp.id && (
                   <button
-                    onClick={() => openEditMode(selectedApp)}
+                    onClick={() => openRefinement(selectedApp)}
                     className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors"
                   >
                     Edit App
                   </button>
                 )}
+                {AppSandbox.detectCapabilities(selectedApp.code).length > 0 && (
+                  <button
+                    onClick={() => setCapabilityReview({
+                      app: selectedApp,
+                      requested: AppSandbox.detectCapabilities(selectedApp.code)
+                    })}
+                    className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="App permissions"
+                  >
+                    <ShieldCheck size={20} />
+                  </button>
+                )}
+                <button
+                  onClick={() => setHistoryApp(selectedApp)}
+                  className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Version history"
+                >
+                  <History size={20} />
+                </button>
                 <button
                   onClick={toggleFullscreen}
                   className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
@@ -914,67 +1062,93 @@ Return only the HTML code, no explanations or markdown.`
               </div>
             </div>
 
-            {/* Edit Panel */}
-            {editingApp && editingApp.id === selectedApp.id && (
-              <div className="border-b border-gray-200 p-4 bg-blue-50">
-                {!isGenerating ? (
-                  <div>
-                    <label className="block text-sm font-semibold text-gray-700 mb-2">
-                      What changes would you like to make?
-                    </label>
-                    <textarea
-                      value={editPrompt}
-                      onChange={(e) => setEditPrompt(e.target.value)}
-                      placeholder="e.g., 'Add neon glow effects and particle animations' or 'Make it look more retro with a synthwave aesthetic' or 'Add a glassmorphism style with backdrop blur'"
-                      className="w-full border border-gray-300 rounded-lg px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none mb-3"
-                      rows={3}
-                      autoFocus
-                    />
-                    <div className="flex gap-2">
-                      <button
-                        onClick={startEdit}
-                        disabled={!editPrompt.trim()}
-                        className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors font-medium"
-                      >
-                        Apply Changes
-                      </button>
-                      <button
-                        onClick={cancelEdit}
-                        className="px-4 py-2 bg-gray-200 text-gray-700 text-sm rounded-lg hover:bg-gray-300 transition-colors"
-                      >
-                        Cancel
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div className="text-center py-4">
-                    <div className="inline-flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-blue-600 flex items-center justify-center">
-                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                      </div>
-                      <div className="text-left">
-                        <div className="text-sm font-semibold text-gray-900">
-                          {EDIT_STEP_LABELS[currentStep]}
-                        </div>
-                        <div className="text-xs text-gray-500">{progress}% complete</div>
-                      </div>
-                    </div>
-                  </div>
-                )}
+            <div className="flex-1 flex min-h-0">
+              <div className="flex-1 relative">
+                <SandboxedAppFrame
+                  app={selectedApp}
+                  granted={selectedApp.capabilities?.granted ?? []}
+                  className="absolute inset-0 w-full h-full border-0"
+                  inspecting={isInspecting && conversation?.appId === selectedApp.id}
+                  onInspectEnd={finishInspect}
+                />
               </div>
-            )}
 
-            <div className="flex-1 relative">
-              <iframe
-                srcDoc={selectedApp.htmlCode}
-                className="absolute inset-0 w-full h-full border-0"
-                sandbox="allow-scripts allow-same-origin allow-modals allow-forms allow-popups"
-                title={selectedApp.name}
-              />
+              {conversation?.appId === selectedApp.id && (
+                <RefinementChat
+                  messages={conversation.messages}
+                  isWorking={isConversationBusy}
+                  target={refinementTarget}
+                  isInspecting={isInspecting}
+                  onToggleInspect={() => setIsInspecting(!isInspecting)}
+                  onClearTarget={() => setRefinementTarget(null)}
+                  onSend={sendRefinement}
+                  onShowRevision={revisionId => showRevision(selectedApp, revisionId)}
+                  onClose={closeRefinement}
+                />
+              )}
             </div>
           </div>
         </div>
       )}
+
+      {/* React App Viewer */}
+      <DraggableAppModal
+        app={reactViewerApp}
+        onClose={() => setReactViewerApp(null)}
+        onShowHistory={() => setHistoryApp(reactViewerApp)}
+        onRepair={repairFromViewer}
+        onPickElement={pickReactElement}
+      />
+
+      <UpdateAppModal
+        isOpen={updatingReactApp !== null}
+        app={updatingReactApp}
+        onClose={() => setUpdatingReactApp(null)}
+        onSubmit={(app, updatePrompt) => startReactUpdate(app, updatePrompt, updateTarget || undefined)}
+        target={updateTarget}
+        onClearTarget={() => setUpdateTarget(null)}
+      />
+
+      <PendingEditModal
+        pendingEdit={pendingEdit}
+        isRefining={isRefining}
+        onAccept={acceptPendingEdit}
+        onReject={() => setPendingEdit(null)}
+        onRefine={refinePendingEdit}
+      />
+
+      <ImportPreviewModal
+        key={importPreview?.fileName}
+        preview={importPreview}
+        existingIds={savedApps.map(app => app.id)}
+        isImporting={isImporting}
+        onCancel={() => setImportPreview(null)}
+        onConfirm={confirmImport}
+      />
+
+      <ExportAppModal
+        app={exportingApp}
+        exportingFormat={exportingFormat}
+        onClose={() => setExportingApp(null)}
+        onExport={format => exportingApp && exportStandalone(exportingApp, format)}
+      />
+
+      <CapabilityReviewModal
+        review={capabilityReview}
+        onCancel={cancelCapabilityReview}
+        onApprove={approveCapabilities}
+      />
+
+      <RevisionHistoryModal
+        app={historyApp}
+        initialRevisionId={historyRevisionId}
+        onClose={closeHistory}
+        onRestore={restoreRevision}
+      />
+
+      {viewerState.isOpen && (
+        <CodeViewer code={viewerState.code} title={viewerState.title} onClose={closeViewer} />
+      )}
     </>
   );
 };
@@ -0,0 +1,40 @@
+/**
+ * Things a generated HTML app can only do once the user has approved them.
+ * Apps run in an opaque-origin sandbox; each approved capability opens one
+ * narrow path out of it (CSP, iframe permission policy or the host bridge).
+ */
+export type AppCapability = 'network' | 'clipboard' | 'camera' | 'downloads' | 'storage';
+
+export const APP_CAPABILITIES: Array<{ id: AppCapability; label: string; description: string }> = [
+  { id: 'network', label: 'Network', description: 'Load data, images and fonts from other websites' },
+  { id: 'clipboard', label: 'Clipboard', description: 'Copy to and paste from your clipboard' },
+  { id: 'camera', label: 'Camera', description: 'Use your camera and microphone' },
+  { id: 'downloads', label: 'Downloads', description: 'Save files to your computer' },
+  { id: 'storage', label: 'Saved data', description: 'Keep data between sessions' }
+];
+
+const CAPABILITY_IDS = APP_CAPABILITIES.map(capability => capability.id);
+
+/**
+ * What an app asked for and what the user approved. Stored on the app;
+ * `granted` is always a subset of `requested`.
+ */
+export interface CapabilityManifest {
+  requested: AppCapability[];
+  granted: AppCapability[];
+}
+
+export function isAppCapability(value: unknown): value is AppCapability {
+  return CAPABILITY_IDS.includes(value as AppCapability);
+}
+
+export function normalizeCapabilities(raw: unknown): CapabilityManifest | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const record = raw as Record<string, unknown>;
+  const list = (value: unknown): AppCapability[] =>
+    Array.isArray(value) ? CAPABILITY_IDS.filter(id => value.includes(id)) : [];
+
+  const requested = list(record.requested);
+  return { requested, granted: list(record.granted).filter(id => requested.includes(id)) };
+}
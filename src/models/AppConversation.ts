@@ -0,0 +1,59 @@
+import { LLMMessage } from '../services/providers/types';
+import { ElementTarget } from './ElementTarget';
+
+/**
+ * One turn of an app's refinement thread. User turns are requests; an
+ * assistant turn either proposed an edit (and links to the revision it
+ * produced once the user accepts it), asked a clarifying question, or
+ * reports a failure.
+ */
+export interface AppMessage {
+  id: string;
+  appId: string;
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
+  /** Element the user picked in the app for this request */
+  target?: ElementTarget;
+  /** Revision created by the edit this turn applied */
+  revisionId?: string;
+  /** The turn failed; left out of the context sent to the model */
+  error?: boolean;
+}
+
+export function createMessage(
+  appId: string,
+  role: AppMessage['role'],
+  content: string,
+  details: Pick<AppMessage, 'target' | 'revisionId' | 'error'> = {}
+): AppMessage {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    appId,
+    role,
+    content,
+    createdAt: new Date().toISOString(),
+    ...details
+  };
+}
+
+/**
+ * Earlier turns as model context: failed turns are dropped, the most recent
+ * `limit` kept, and the result starts with a user turn and alternates roles.
+ */
+export function conversationContext(messages: AppMessage[], limit = 12): LLMMessage[] {
+  const context: LLMMessage[] = [];
+
+  for (const message of messages.filter(candidate => !candidate.error).slice(-limit)) {
+    const previous = context[context.length - 1];
+    if (previous?.role === message.role) {
+      previous.content += `\n\n${message.content}`;
+    } else if (previous || message.role === 'user') {
+      context.push({ role: message.role, content: message.content });
+    }
+  }
+
+  // The new request is appended as a user turn, so an unanswered one would repeat it
+  if (context[context.length - 1]?.role === 'user') context.pop();
+  return context;
+}
@@ -0,0 +1,74 @@
+import { VantageApp } from './VantageApp';
+import { ValidationResult } from '../utils/AppValidator';
+import { PromptRef } from '../services/prompts/types';
+import { ElementTarget } from './ElementTarget';
+
+/**
+ * What produced a revision:
+ * - create:  the initial generation (or the code an app had before history existed)
+ * - edit:    a user edit request
+ * - heal:    an automatic repair after a failed runtime test
+ * - restore: a rollback to an earlier revision
+ */
+export type RevisionSource = 'create' | 'edit' | 'heal' | 'restore';
+
+/**
+ * Immutable snapshot of an app's code. Revisions are only ever added,
+ * so restoring an old version creates a new revision on top.
+ */
+export interface AppRevision {
+  id: string;
+  appId: string;
+  source: RevisionSource;
+  /** The generation description or edit request that produced this code */
+  prompt: string;
+  code: string;
+  createdAt: string;
+  /** Validation at the time of the change; absent for apps that predate history */
+  validation?: ValidationResult;
+  /** Template version the model was prompted with, when a model wrote this code */
+  promptTemplate?: PromptRef;
+}
+
+export const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = {
+  create: 'Created',
+  edit: 'Edited',
+  heal: 'Auto-repaired',
+  restore: 'Restored'
+};
+
+export function createRevision(
+  app: Pick<VantageApp, 'id' | 'code'>,
+  source: RevisionSource,
+  prompt: string,
+  validation?: ValidationResult,
+  promptTemplate?: PromptRef
+): AppRevision {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    appId: app.id,
+    source,
+    prompt,
+    code: app.code,
+    createdAt: new Date().toISOString(),
+    validation,
+    promptTemplate
+  };
+}
+
+/**
+ * A proposed edit waiting for the user to accept, reject or refine it.
+ * `app` is the app as it was when the edit was requested; the diff is shown against its code.
+ */
+export interface PendingEdit {
+  app: VantageApp;
+  /** Every instruction that led to this proposal, one per line */
+  prompt: string;
+  code: string;
+  validation: ValidationResult;
+  promptTemplate?: PromptRef;
+  /** Element the request was about; refinements keep targeting it */
+  target?: ElementTarget;
+  /** Conversation reply that proposed the edit; it links to the revision once accepted */
+  messageId?: string;
+}
@@ -0,0 +1,39 @@
+/**
+ * An element the user picked in a running app, attached to an edit request
+ * so the model knows exactly which part of the page "this" refers to.
+ */
+export interface ElementTarget {
+  /** CSS selector that finds the element in the rendered page */
+  selector: string;
+  /** Rendered markup, truncated to MAX_TARGET_HTML characters */
+  outerHTML: string;
+  /** Computed values of the layout and typography properties edits usually touch */
+  styles: Record<string, string>;
+}
+
+export const MAX_TARGET_HTML = 1500;
+
+/**
+ * Validate a target reported by an app frame; the frame runs untrusted code
+ */
+export function normalizeElementTarget(raw: unknown): ElementTarget | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const record = raw as Record<string, unknown>;
+  if (typeof record.selector !== 'string' || !record.selector || typeof record.outerHTML !== 'string') return null;
+
+  const styles: Record<string, string> = {};
+  if (record.styles && typeof record.styles === 'object') {
+    Object.entries(record.styles as Record<string, unknown>).forEach(([name, value]) => {
+      if (typeof value === 'string' && value) styles[name] = value;
+    });
+  }
+
+  return {
+    selector: record.selector.slice(0, 300),
+    outerHTML: record.outerHTML.length > MAX_TARGET_HTML
+      ? `${record.outerHTML.slice(0, MAX_TARGET_HTML)}…`
+      : record.outerHTML,
+    styles
+  };
+}
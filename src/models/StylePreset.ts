@@ -0,0 +1,155 @@
+/**
+ * Design constraints for generated apps. A preset supplies colour tokens and
+ * component rules for the generation prompt; the palette it leaves on the app
+ * lets the validator flag colours from outside it.
+ */
+export type StylePresetId = 'vantage' | 'playful' | 'minimal' | 'custom';
+
+export interface StylePreset {
+  id: StylePresetId;
+  label: string;
+  description: string;
+  /** Colour tokens by role; empty when the preset leaves colour open */
+  colors: Record<string, string>;
+  /** Tailwind colour families React apps may use besides the greys */
+  tailwindColors: string[];
+  typography: string;
+  rules: string[];
+}
+
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'vantage',
+    label: 'Vantage native',
+    description: 'Matches the dashboard: white cards, grey borders, #0072CE accents',
+    colors: {
+      primary: '#0072CE',
+      'primary-hover': '#1D4ED8',
+      'primary-subtle': '#EFF6FF',
+      surface: '#FFFFFF',
+      background: '#F9FAFB',
+      border: '#E5E7EB',
+      text: '#111827',
+      'text-muted': '#6B7280',
+      success: '#16A34A',
+      warning: '#CA8A04',
+      danger: '#DC2626'
+    },
+    tailwindColors: ['blue', 'green', 'yellow', 'red'],
+    typography: 'System UI stack ("Segoe UI", system-ui, sans-serif); 14px body, 16-18px medium-weight headings',
+    rules: [
+      'Cards: white surface, 1px border-colour border, 8px radius, subtle shadow (Tailwind: bg-white border border-gray-200 rounded-lg shadow-sm)',
+      'Card headers: 12px 16px padding, bottom border, medium-weight 16px title (Tailwind: px-4 py-3 border-b border-gray-100 font-medium)',
+      'Primary buttons: primary background, white text, 8px radius, primary-hover on hover (Tailwind: bg-[#0072CE] text-white rounded-lg hover:bg-blue-700)',
+      'Secondary buttons: primary-coloured 1px outline and text, primary-subtle on hover (Tailwind: border border-blue-600 text-blue-600 hover:bg-blue-50)',
+      'Inputs: 1px grey border, 8px radius, 2px primary focus ring',
+      'Selected items: primary-subtle background with a primary left border or outline',
+      'Use success, warning and danger only for status, never for decoration',
+      'No gradients, glows, neon, glassmorphism or particle effects; transitions are short colour or opacity changes'
+    ]
+  },
+  {
+    id: 'playful',
+    label: 'Playful',
+    description: 'Bold gradients, glows and animation',
+    colors: {},
+    tailwindColors: [],
+    typography: 'Expressive display type for headings, clean sans-serif for body text',
+    rules: [
+      'Make it STUNNING and MODERN with bold design choices',
+      'Use eye-catching colour gradients, glows, shadows and visual effects',
+      'Add smooth, satisfying animations and transitions (fade, slide, scale, bounce, etc.)',
+      'Include hover effects, active states, micro-interactions, particle effects and visual feedback',
+      'Use modern CSS features: backdrop-filter, box-shadow, gradients, transforms',
+      'Consider aesthetic styles: synthwave, vaporwave, glassmorphism, neumorphism, retro, neon, cosmic',
+      'Think dribbble.com, behance.net level quality - something people would want to screenshot and share'
+    ]
+  },
+  {
+    id: 'minimal',
+    label: 'Minimal',
+    description: 'Greys, whitespace and a single accent',
+    colors: {
+      accent: '#2563EB',
+      surface: '#FFFFFF',
+      background: '#FAFAFA',
+      border: '#E4E4E7',
+      text: '#18181B',
+      'text-muted': '#71717A'
+    },
+    tailwindColors: ['blue'],
+    typography: 'One sans-serif family, two weights; generous line height',
+    rules: [
+      'Lots of whitespace; align everything to an 8px grid',
+      'Hairline borders instead of shadows; 6px radius at most',
+      'The accent colour marks the single primary action and the current selection only',
+      'No gradients, shadows heavier than a hairline, or decorative animation'
+    ]
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    description: 'Your own palette and rules',
+    colors: {},
+    tailwindColors: [],
+    typography: '',
+    rules: []
+  }
+];
+
+export const DEFAULT_STYLE_PRESET: StylePresetId = 'vantage';
+
+const PRESET_IDS = STYLE_PRESETS.map(preset => preset.id);
+
+/**
+ * The style an app was generated with. Stored on the app so later edits and
+ * validation use the same constraints, even if the preset changes.
+ */
+export interface AppStyle {
+  preset: StylePresetId;
+  /** Hex colours the app may use besides neutrals; empty means any colour */
+  palette: string[];
+  tailwindColors: string[];
+  /** Extra instructions for the custom preset */
+  notes?: string;
+}
+
+export function getStylePreset(id: StylePresetId): StylePreset {
+  return STYLE_PRESETS.find(preset => preset.id === id) || STYLE_PRESETS[0];
+}
+
+/**
+ * Hex colours from free text such as "#0072CE, #ff6b00"
+ */
+export function parsePalette(text: string): string[] {
+  const colors = (text.match(/#(?:[0-9a-f]{6}|[0-9a-f]{3})\b/gi) || []).map(color => color.toUpperCase());
+  return Array.from(new Set(colors));
+}
+
+export function createAppStyle(id: StylePresetId, custom: { palette?: string[]; notes?: string } = {}): AppStyle {
+  if (id === 'custom') {
+    return { preset: id, palette: custom.palette || [], tailwindColors: [], notes: custom.notes?.trim() || undefined };
+  }
+  const preset = getStylePreset(id);
+  return { preset: id, palette: Object.values(preset.colors), tailwindColors: preset.tailwindColors };
+}
+
+export function normalizeAppStyle(raw: unknown): AppStyle | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const record = raw as Record<string, unknown>;
+  if (!PRESET_IDS.includes(record.preset as StylePresetId)) return undefined;
+
+  const strings = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  const style: AppStyle = {
+    preset: record.preset as StylePresetId,
+    palette: strings(record.palette),
+    tailwindColors: strings(record.tailwindColors)
+  };
+  if (typeof record.notes === 'string' && record.notes) {
+    style.notes = record.notes;
+  }
+  return style;
+}
@@ -0,0 +1,137 @@
+import { CapabilityManifest, normalizeCapabilities } from './AppCapabilities';
+import { AppStyle, normalizeAppStyle } from './StylePreset';
+import { PromptRef } from '../services/prompts/types';
+
+/**
+ * Single model for every app on the Vantage Apps page.
+ * `kind` decides which generator, validator and viewer handle `code`:
+ * - html:  a self-contained HTML document rendered via iframe srcDoc
+ * - react: a single `export default function App()` component rendered by DraggableAppModal
+ */
+
+export type AppKind = 'html' | 'react';
+
+export type AppTestStatus = 'untested' | 'testing' | 'passed' | 'failed' | 'healing';
+
+export interface VantageApp {
+  id: string;
+  kind: AppKind;
+  name: string;
+  description: string;
+  iconUrl: string;
+  code: string;
+  createdAt: string;
+  validationWarnings?: string[];
+  testStatus?: AppTestStatus;
+  testErrors?: string[];
+  /** HTML apps only; absent until the user has reviewed what the app asks for */
+  capabilities?: CapabilityManifest;
+  /** Template version that generated the app; absent for apps that predate the prompt registry */
+  promptTemplate?: PromptRef;
+  /** Design constraints chosen at creation; absent for apps created before style presets */
+  style?: AppStyle;
+  /** Set when the generated code was cut off at the model's output limit and had to be continued */
+  continuation?: GenerationContinuation;
+}
+
+export interface GenerationContinuation {
+  /** Continuation requests made after the first response */
+  rounds: number;
+  /** False when the code still looked cut off after the last round */
+  complete: boolean;
+}
+
+export const APP_KIND_OPTIONS: Array<{ id: AppKind; label: string; description: string }> = [
+  { id: 'html', label: 'Web page', description: 'Self-contained HTML, CSS and JavaScript' },
+  { id: 'react', label: 'React component', description: 'Validated, runtime-tested and self-healing' }
+];
+
+/**
+ * Convert a stored or imported record into a VantageApp.
+ * Older records have no `kind` and keep their code in `htmlCode` (HTML page)
+ * or `componentCode` (React component). Returns null for anything unusable.
+ */
+export function normalizeApp(raw: unknown): VantageApp | null {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const record = raw as Record<string, unknown>;
+  const text = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+  let kind: AppKind;
+  let code: string;
+
+  if (record.kind === 'html' || record.kind === 'react') {
+    kind = record.kind;
+    code = text(record.code);
+  } else if (typeof record.componentCode === 'string') {
+    kind = 'react';
+    code = record.componentCode;
+  } else {
+    kind = 'html';
+    code = text(record.htmlCode);
+  }
+
+  if (!code) return null;
+
+  const app: VantageApp = {
+    id: text(record.id) || Date.now().toString(),
+    kind,
+    name: text(record.name) || 'Untitled app',
+    description: text(record.description),
+    iconUrl: text(record.iconUrl),
+    code,
+    createdAt: text(record.createdAt) || new Date().toISOString()
+  };
+
+  if (Array.isArray(record.validationWarnings)) {
+    app.validationWarnings = record.validationWarnings.filter((w): w is string => typeof w === 'string');
+  }
+  if (Array.isArray(record.testErrors)) {
+    app.testErrors = record.testErrors.filter((e): e is string => typeof e === 'string');
+  }
+  const capabilities = normalizeCapabilities(record.capabilities);
+  if (capabilities) {
+    app.capabilities = capabilities;
+  }
+  const promptTemplate = normalizePromptRef(record.promptTemplate);
+  if (promptTemplate) {
+    app.promptTemplate = promptTemplate;
+  }
+  const style = normalizeAppStyle(record.style);
+  if (style) {
+    app.style = style;
+  }
+  const continuation = normalizeContinuation(record.continuation);
+  if (continuation) {
+    app.continuation = continuation;
+  }
+  if (typeof record.testStatus === 'string') {
+    // A test that was running when the page closed never finished
+    app.testStatus = record.testStatus === 'testing' || record.testStatus === 'healing'
+      ? 'untested'
+      : record.testStatus as AppTestStatus;
+  }
+
+  return app;
+}
+
+export function normalizePromptRef(raw: unknown): PromptRef | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { id, version } = raw as Record<string, unknown>;
+  return typeof id === 'string' && Number.isInteger(version)
+    ? { id, version } as PromptRef
+    : undefined;
+}
+
+export function normalizeContinuation(raw: unknown): GenerationContinuation | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const { rounds, complete } = raw as Record<string, unknown>;
+  return typeof rounds === 'number' && Number.isInteger(rounds) && rounds >= 0 && typeof complete === 'boolean'
+    ? { rounds, complete }
+    : undefined;
+}
+
+export function normalizeApps(raw: unknown): VantageApp[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.map(normalizeApp).filter((app): app is VantageApp => app !== null);
+}
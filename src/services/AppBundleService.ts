@@ -0,0 +1,282 @@
+import { VantageApp, normalizeApp, normalizeApps } from '../models/VantageApp';
+import { AppRevision, RevisionSource, createRevision } from '../models/AppRevision';
+import { AppDataItems, AppRepository } from './AppRepository';
+import { APP_STORAGE_QUOTA, AppStorageService, appDataSize } from './AppStorageService';
+import { logger } from '../utils/logger';
+
+export const BUNDLE_FORMAT = 'vantage-apps-bundle';
+// v2 added each app's saved data (`data`); v1 bundles are still accepted
+export const BUNDLE_SCHEMA_VERSION = 2;
+
+export interface BundleEntry {
+  app: VantageApp;
+  revisions: AppRevision[];
+  /** Saved app data; absent in v1 bundles and legacy files */
+  data?: AppDataItems;
+}
+
+/**
+ * Export file format. `checksum` covers everything except itself, so a
+ * truncated or hand-edited file is detected before anything is imported.
+ */
+export interface AppBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  entries: BundleEntry[];
+  checksum: string;
+}
+
+export interface ParsedBundle {
+  /** 'legacy' is the raw SavedApp array written by older versions */
+  source: 'bundle' | 'legacy';
+  schemaVersion: number | null;
+  exportedAt: string | null;
+  entries: BundleEntry[];
+  /** Entries or revisions that failed schema validation and will not be imported */
+  rejected: string[];
+}
+
+/**
+ * What to do when an imported app has the same id as an existing one
+ */
+export type ImportMergeMode = 'skip' | 'overwrite' | 'duplicate';
+
+export interface ImportSummary {
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+}
+
+const REVISION_SOURCES: RevisionSource[] = ['create', 'edit', 'heal', 'restore'];
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// FNV-1a, only used where crypto.subtle is unavailable (plain http on a LAN address)
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+class AppBundleServiceClass {
+  private async computeChecksum(payload: string, algorithm?: string): Promise<string> {
+    const useSubtle = algorithm ? algorithm === 'sha256' : Boolean(globalThis.crypto?.subtle);
+
+    if (useSubtle) {
+      if (!globalThis.crypto?.subtle) {
+        throw new Error('This bundle uses a SHA-256 checksum, which needs a secure context (https or localhost)');
+      }
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+      return `sha256:${toHex(digest)}`;
+    }
+
+    return `fnv1a:${fnv1a(payload)}`;
+  }
+
+  private checksumPayload(bundle: Omit<AppBundle, 'checksum'>): string {
+    return JSON.stringify({
+      format: bundle.format,
+      schemaVersion: bundle.schemaVersion,
+      exportedAt: bundle.exportedAt,
+      entries: bundle.entries
+    });
+  }
+
+  async createBundle(): Promise<AppBundle> {
+    const apps = await AppRepository.getAll();
+    const entries: BundleEntry[] = [];
+    for (const app of apps) {
+      entries.push({
+        app,
+        revisions: await AppRepository.getRevisions(app.id),
+        data: await AppRepository.getAppData(app.id)
+      });
+    }
+
+    const bundle: Omit<AppBundle, 'checksum'> = {
+      format: BUNDLE_FORMAT,
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      entries
+    };
+
+    return { ...bundle, checksum: await this.computeChecksum(this.checksumPayload(bundle)) };
+  }
+
+  /**
+   * Parse and validate an export file. Throws for files that cannot be
+   * imported at all; individual bad entries are listed in `rejected`.
+   */
+  async parseBundle(text: string): Promise<ParsedBundle> {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON');
+    }
+
+    if (Array.isArray(data)) {
+      return this.parseLegacy(data);
+    }
+
+    if (!isRecord(data) || data.format !== BUNDLE_FORMAT) {
+      throw new Error('File is not a Vantage Apps export');
+    }
+
+    if (typeof data.schemaVersion !== 'number' || data.schemaVersion < 1) {
+      throw new Error('Export is missing its schema version');
+    }
+    if (data.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+      throw new Error(`Export uses schema version ${data.schemaVersion}; this version of Vantage supports up to ${BUNDLE_SCHEMA_VERSION}`);
+    }
+    if (!isString(data.exportedAt) || !Array.isArray(data.entries) || !isString(data.checksum)) {
+      throw new Error('Export is missing required fields');
+    }
+
+    const bundle = data as unknown as AppBundle;
+    const algorithm = bundle.checksum.split(':')[0];
+    const expected = await this.computeChecksum(this.checksumPayload(bundle), algorithm);
+    if (expected !== bundle.checksum) {
+      throw new Error('Checksum mismatch - the export file was modified or is corrupted');
+    }
+
+    const entries: BundleEntry[] = [];
+    const rejected: string[] = [];
+    bundle.entries.forEach((entry, index) => {
+      const validated = this.validateEntry(entry, index, rejected);
+      if (validated) entries.push(validated);
+    });
+
+    return { source: 'bundle', schemaVersion: bundle.schemaVersion, exportedAt: bundle.exportedAt, entries, rejected };
+  }
+
+  private parseLegacy(records: unknown[]): ParsedBundle {
+    const apps = normalizeApps(records);
+    const rejected = records.length > apps.length
+      ? [`${records.length - apps.length} record(s) have no code and were skipped`]
+      : [];
+
+    return {
+      source: 'legacy',
+      schemaVersion: null,
+      exportedAt: null,
+      entries: apps.map(app => ({ app, revisions: [] })),
+      rejected
+    };
+  }
+
+  private validateEntry(entry: unknown, index: number, rejected: string[]): BundleEntry | null {
+    const label = `Entry ${index + 1}`;
+
+    if (!isRecord(entry) || !isRecord(entry.app)) {
+      rejected.push(`${label}: missing app`);
+      return null;
+    }
+
+    const app = entry.app;
+    const problems: string[] = [];
+    if (!isString(app.id) || !app.id) problems.push('id');
+    if (app.kind !== 'html' && app.kind !== 'react') problems.push('kind');
+    if (!isString(app.name)) problems.push('name');
+    if (!isString(app.description)) problems.push('description');
+    if (!isString(app.iconUrl)) problems.push('iconUrl');
+    if (!isString(app.code) || !app.code) problems.push('code');
+    if (!isString(app.createdAt) || isNaN(Date.parse(app.createdAt))) problems.push('createdAt');
+
+    // normalizeApp also drops unknown fields and resets interrupted test states
+    const validApp = problems.length === 0 ? normalizeApp(app) : null;
+    if (!validApp) {
+      rejected.push(`${label}${isString(app.name) ? ` (${app.name})` : ''}: invalid ${problems.join(', ')}`);
+      return null;
+    }
+
+    const revisions: AppRevision[] = [];
+    const rawRevisions = Array.isArray(entry.revisions) ? entry.revisions : [];
+
+    rawRevisions.forEach((revision, revisionIndex) => {
+      if (
+        isRecord(revision) &&
+        isString(revision.id) &&
+        revision.appId === validApp.id &&
+        REVISION_SOURCES.includes(revision.source as RevisionSource) &&
+        isString(revision.prompt) &&
+        isString(revision.code) &&
+        isString(revision.createdAt)
+      ) {
+        revisions.push(revision as unknown as AppRevision);
+      } else {
+        rejected.push(`${validApp.name}: revision ${revisionIndex + 1} is invalid and was dropped`);
+      }
+    });
+
+    if (entry.data === undefined) {
+      return { app: validApp, revisions };
+    }
+
+    const data = entry.data;
+    if (!isRecord(data) || !Object.values(data).every(isString)) {
+      rejected.push(`${validApp.name}: saved data is invalid and was dropped`);
+      return { app: validApp, revisions };
+    }
+    if (appDataSize(data as AppDataItems) > APP_STORAGE_QUOTA) {
+      rejected.push(`${validApp.name}: saved data is over the storage quota and was dropped`);
+      return { app: validApp, revisions };
+    }
+
+    return { app: validApp, revisions, data: data as AppDataItems };
+  }
+
+  async importBundle(parsed: ParsedBundle, mode: ImportMergeMode): Promise<ImportSummary> {
+    const summary: ImportSummary = { added: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+    const existingIds = new Set((await AppRepository.getAll()).map(app => app.id));
+
+    for (const entry of parsed.entries) {
+      let { app, revisions } = entry;
+      const exists = existingIds.has(app.id);
+
+      if (exists && mode === 'skip') {
+        summary.skipped++;
+        continue;
+      }
+
+      if (exists && mode === 'duplicate') {
+        const copyId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+        app = { ...app, id: copyId, name: `${app.name} (copy)` };
+        revisions = revisions.map(revision => ({
+          ...revision,
+          id: createRevision(app, revision.source, revision.prompt).id,
+          appId: copyId
+        }));
+      }
+
+      // Apps without history (legacy files) start with a baseline revision
+      if (revisions.length === 0) {
+        revisions = [{ ...createRevision(app, 'create', app.description), createdAt: app.createdAt }];
+      }
+
+      await AppRepository.saveWithHistory(app, revisions, entry.data);
+      AppStorageService.invalidate(app.id);
+      existingIds.add(app.id);
+
+      if (!exists) summary.added++;
+      else if (mode === 'overwrite') summary.overwritten++;
+      else summary.duplicated++;
+    }
+
+    logger.success('Import complete', summary);
+    return summary;
+  }
+}
+
+export const AppBundleService = new AppBundleServiceClass();
@@ -0,0 +1,346 @@
+import { AppKind, VantageApp } from '../models/VantageApp';
+import { AppStyle } from '../models/StylePreset';
+import { AppRevision, PendingEdit, createRevision } from '../models/AppRevision';
+import { AppMessage, createMessage } from '../models/AppConversation';
+import { ElementTarget } from '../models/ElementTarget';
+import { ValidationResult } from '../utils/AppValidator';
+import { SecurityScanner } from '../utils/SecurityScanner';
+import { logger } from '../utils/logger';
+import { AppPipeline } from './AppPipeline';
+import { AppRepository } from './AppRepository';
+import { RefinementReply } from './GeminiService';
+import { JobManager } from './JobManager';
+import { LLMService } from './LLMService';
+import { SelfHealingService } from './SelfHealingService';
+import { PromptRegistry } from './prompts/PromptRegistry';
+import { PromptRef } from './prompts/types';
+
+export const GENERATION_STEPS = [
+  'Creating plan',
+  'Developing logic',
+  'Designing screens',
+  'Testing and final touches'
+];
+
+export interface GenerationRequest {
+  kind: AppKind;
+  description: string;
+  style: AppStyle;
+  iconUrl: string;
+}
+
+/**
+ * What a job did to the library, for whichever view is showing it. Views
+ * that were not mounted at the time read the saved state instead.
+ */
+export type AppJobEvent =
+  | { type: 'app-added'; app: VantageApp }
+  | { type: 'app-changed'; appId: string; changes: Partial<VantageApp> }
+  | { type: 'message-posted'; message: AppMessage };
+
+// Typical generated pages are 15-40 KB. Progress approaches 95% asymptotically
+// so very large apps keep visibly moving instead of pinning at 100%.
+const EXPECTED_APP_BYTES = 24000;
+
+const getStreamProgress = (bytesReceived: number): number =>
+  Math.min(95, Math.round(10 + 85 * (1 - Math.exp(-bytesReceived / EXPECTED_APP_BYTES))));
+
+const formatBlocked = (app: Pick<VantageApp, 'kind' | 'code'>): string | null => {
+  const { blocked } = AppPipeline.scan(app);
+  return blocked.length > 0 ? blocked.map(finding => SecurityScanner.format(finding)).join('\n') : null;
+};
+
+/**
+ * Generation, editing and repair of apps as background jobs. Each job saves
+ * its own results, so it finishes even if no view is open to receive them.
+ */
+class AppJobsClass {
+  private listeners = new Set<(event: AppJobEvent) => void>();
+  // Edits waiting for the user's review, oldest first
+  private proposals: PendingEdit[] = [];
+
+  subscribe(listener: (event: AppJobEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * The oldest edit proposal nobody has reviewed yet
+   */
+  takeProposal(): PendingEdit | null {
+    return this.proposals.shift() || null;
+  }
+
+  /**
+   * Generate, test and save a new app. HTML apps are repaired before they are
+   * saved; React apps are saved first and tested by a follow-up repair job.
+   */
+  generate({ kind, description, style, iconUrl }: GenerationRequest): string {
+    return JobManager.enqueue('generate', description.substring(0, 50), async ({ signal, report }) => {
+      report({ step: GENERATION_STEPS[0], progress: 5, iconUrl });
+
+      let name = '';
+      let generatedDescription = '';
+      try {
+        const appInfo = await LLMService.generateJSON<{ name: string; description: string }>(
+          PromptRegistry.render('app.info', { idea: description }).text,
+          { signal }
+        );
+        name = appInfo.name || '';
+        generatedDescription = appInfo.description || '';
+        if (name) report({ title: name });
+      } catch (error) {
+        if (signal.aborted) throw error;
+        logger.error('App info error', error);
+      }
+
+      // Progress follows the bytes received; the markup starting marks the next step
+      const encoder = new TextEncoder();
+      const startedAt = Date.now();
+      let receivedBytes = 0;
+      report({ step: GENERATION_STEPS[1], progress: 10, preview: { code: '', bytesReceived: 0, startedAt } });
+
+      const promptTemplate = AppPipeline.promptTemplate(kind, 'generate');
+      const { code, continuation } = await AppPipeline.generate(kind, description, style, (chunk, fullText) => {
+        receivedBytes += encoder.encode(chunk).length;
+        report({
+          step: GENERATION_STEPS[fullText.includes(kind === 'react' ? 'return (' : '<body') ? 2 : 1],
+          progress: getStreamProgress(receivedBytes),
+          preview: { code: fullText, bytesReceived: receivedBytes, startedAt }
+        });
+      }, signal);
+
+      if (!code.trim()) {
+        throw new Error('The model returned no code');
+      }
+
+      report({ step: GENERATION_STEPS[3], progress: 100 });
+      const validation = AppPipeline.validate({ kind, code, style });
+      const draftApp: VantageApp = {
+        id: Date.now().toString(),
+        kind,
+        name: name || description.substring(0, 50),
+        description: generatedDescription || description,
+        code,
+        iconUrl,
+        createdAt: new Date().toISOString(),
+        validationWarnings: [...validation.errors, ...validation.warnings],
+        testStatus: 'untested',
+        promptTemplate,
+        style,
+        continuation
+      };
+      const verification = kind === 'html' ? await AppPipeline.verify(draftApp, undefined, [], signal) : null;
+      const newApp: VantageApp = verification ? { ...draftApp, ...verification.check } : draftApp;
+
+      // Code the security policy blocks is never saved
+      const blocked = formatBlocked(newApp);
+      if (blocked) {
+        throw new Error(`Saving the app was blocked by the security policy:\n${blocked}`);
+      }
+      signal.throwIfAborted();
+
+      await AppRepository.put(newApp);
+      this.emit({ type: 'app-added', app: newApp });
+      await AppRepository.addRevision(createRevision(draftApp, 'create', description, validation, promptTemplate));
+      if (verification && newApp.code !== draftApp.code) {
+        await AppRepository.addRevision(createRevision(
+          newApp,
+          'heal',
+          SelfHealingService.describeRepair(verification.attempts),
+          AppPipeline.validate(newApp),
+          verification.promptTemplate
+        ));
+      }
+      if (newApp.kind === 'react') {
+        this.repair(newApp);
+      }
+      return `${newApp.name} was added to your apps`;
+    });
+  }
+
+  /**
+   * Ask for a change to an app. The result is a proposal for review, not a saved edit.
+   */
+  proposeEdit(app: VantageApp, prompt: string, target?: ElementTarget): string {
+    return JobManager.enqueue('edit', `Updating ${app.name}`, async ({ signal, report }) => {
+      report({ step: 'Writing the change' });
+      const current = await this.latest(app);
+      const { code, promptTemplate } = await AppPipeline.update(current, prompt, target, signal);
+      signal.throwIfAborted();
+      this.proposals.push({
+        app: current,
+        prompt,
+        code,
+        validation: AppPipeline.validate({ ...current, code }),
+        promptTemplate,
+        target
+      });
+      return 'The change is ready for review';
+    }, { appId: app.id });
+  }
+
+  /**
+   * Rework the proposal under review. The change is made on the proposed code
+   * but still diffed against the app it was proposed for, and the result goes
+   * ahead of any other proposal since it replaces the one being reviewed.
+   */
+  refineProposal(proposal: PendingEdit, instruction: string): string {
+    const { app } = proposal;
+    return JobManager.enqueue('edit', `Refining ${app.name}`, async ({ signal, report }) => {
+      report({ step: 'Writing the change' });
+      const { code, promptTemplate } = await AppPipeline.update({ ...app, code: proposal.code }, instruction, proposal.target, signal);
+      signal.throwIfAborted();
+      this.proposals.unshift({
+        ...proposal,
+        prompt: `${proposal.prompt}\n${instruction}`,
+        code,
+        validation: AppPipeline.validate({ ...app, code }),
+        promptTemplate
+      });
+      return 'The refined change is ready for review';
+    }, { appId: app.id });
+  }
+
+  /**
+   * One turn of an HTML app's refinement conversation. The reply is saved to
+   * the thread; an edit goes through the same review as any other proposal.
+   */
+  refine(app: VantageApp, history: AppMessage[], request: string, target?: ElementTarget): string {
+    return JobManager.enqueue('edit', `Editing ${app.name}`, async ({ signal, report }) => {
+      report({ step: 'Writing the change' });
+      let current = app;
+      let reply: RefinementReply;
+      try {
+        current = await this.latest(app);
+        reply = await AppPipeline.refine(current, history, request, target, signal);
+        signal.throwIfAborted();
+      } catch (error) {
+        const message = signal.aborted
+          ? 'The change was cancelled.'
+          : `Failed to apply the change: ${error instanceof Error ? error.message : 'unknown error'}`;
+        await this.post(createMessage(app.id, 'assistant', message, { error: true }));
+        throw error;
+      }
+
+      if (!reply.code) {
+        await this.post(createMessage(app.id, 'assistant', reply.message));
+        return 'Replied with a question';
+      }
+
+      const blocked = formatBlocked({ kind: app.kind, code: reply.code });
+      if (blocked) {
+        const message = `The change was not applied because the security policy blocks it:\n${blocked}`;
+        await this.post(createMessage(app.id, 'assistant', message, { error: true }));
+        throw new Error(message);
+      }
+
+      const message = createMessage(app.id, 'assistant', reply.message);
+      await this.post(message);
+      this.proposals.push({
+        app: current,
+        prompt: request,
+        code: reply.code,
+        validation: AppPipeline.validate({ ...current, code: reply.code }),
+        promptTemplate: reply.promptTemplate,
+        target,
+        messageId: message.id
+      });
+      return 'The change is ready for review';
+    }, { appId: app.id });
+  }
+
+  /**
+   * Save an edit as the app's new code, record it and test it in the background
+   */
+  async applyEdit(
+    app: VantageApp,
+    prompt: string,
+    code: string,
+    validation: ValidationResult,
+    promptTemplate?: PromptRef
+  ): Promise<AppRevision> {
+    const changes: Partial<VantageApp> = {
+      code,
+      validationWarnings: [...validation.errors, ...validation.warnings],
+      testStatus: 'untested',
+      testErrors: []
+    };
+    await this.change(app.id, changes);
+
+    const revision = createRevision({ id: app.id, code }, 'edit', prompt, validation, promptTemplate);
+    await AppRepository.addRevision(revision);
+    this.repair({ ...app, ...changes });
+    return revision;
+  }
+
+  /**
+   * Runtime-test the app and self-heal it if it fails. `knownErrors` seeds the
+   * first repair, e.g. errors the viewer saw. Leaves the tray once it is done;
+   * the card shows the result.
+   */
+  repair(app: VantageApp, knownErrors?: string[]): string {
+    return JobManager.enqueue('repair', `Testing ${app.name}`, async ({ signal, report }) => {
+      try {
+        // A newer edit or restore replaced this code and queued its own test
+        const current = await this.latest(app);
+        if (current.code !== app.code) return;
+
+        const { check, attempts, promptTemplate } = await AppPipeline.verify(
+          current,
+          status => {
+            report({ step: status === 'healing' ? 'Repairing' : 'Testing' });
+            this.change(app.id, { testStatus: status }).catch(error => logger.error('Error saving test status', error));
+          },
+          knownErrors,
+          signal
+        );
+        // Accepted edits and restores are saved outside the queue, so one may have landed meanwhile
+        if ((await this.latest(app)).code !== app.code) return;
+        await this.change(app.id, check);
+
+        if (check.code !== app.code) {
+          await AppRepository.addRevision(createRevision(
+            { id: app.id, code: check.code },
+            'heal',
+            SelfHealingService.describeRepair(attempts),
+            AppPipeline.validate({ kind: app.kind, code: check.code, style: app.style }),
+            promptTemplate
+          ));
+        }
+      } catch (error) {
+        // The card should not keep showing a test that is no longer running
+        await this.change(app.id, { testStatus: 'untested' }).catch(() => undefined);
+        throw error;
+      }
+    }, { appId: app.id, transient: true });
+  }
+
+  /**
+   * The app as saved now. A job may wait behind others for the same app, so
+   * the copy it was queued with can be out of date by the time it starts.
+   */
+  private async latest(app: VantageApp): Promise<VantageApp> {
+    const saved = await AppRepository.get(app.id);
+    if (!saved) throw new Error(`${app.name} was deleted`);
+    return saved;
+  }
+
+  private async change(appId: string, changes: Partial<VantageApp>): Promise<void> {
+    this.emit({ type: 'app-changed', appId, changes });
+    await AppRepository.update(appId, changes);
+  }
+
+  private async post(message: AppMessage): Promise<void> {
+    this.emit({ type: 'message-posted', message });
+    await AppRepository.addMessage(message);
+  }
+
+  private emit(event: AppJobEvent): void {
+    this.listeners.forEach(listener => listener(event));
+  }
+}
+
+export const AppJobs = new AppJobsClass();
@@ -0,0 +1,129 @@
+import { AppKind, AppTestStatus, VantageApp } from '../models/VantageApp';
+import { AppStyle } from '../models/StylePreset';
+import { AppMessage, conversationContext } from '../models/AppConversation';
+import { ElementTarget } from '../models/ElementTarget';
+import { AppValidator, ValidationResult } from '../utils/AppValidator';
+import { RuntimeTestResult, RuntimeTester } from '../utils/RuntimeTester';
+import { SecurityReport, SecurityScanner } from '../utils/SecurityScanner';
+import { EditedCode, GeminiService, GeneratedCode, RefinementReply } from './GeminiService';
+import { HealAttempt, SelfHealingService } from './SelfHealingService';
+import { StreamChunkHandler } from './providers/types';
+import { PromptRegistry } from './prompts/PromptRegistry';
+import { PromptRef } from './prompts/types';
+import { loadSecurityPolicy } from './securityPolicy';
+
+export type AppCheckResult = Pick<VantageApp, 'code' | 'validationWarnings' | 'testStatus' | 'testErrors'>;
+
+export interface AppVerification {
+  check: AppCheckResult;
+  attempts: HealAttempt[];
+  /** Repair template, when the passing code came from a model repair */
+  promptTemplate?: PromptRef;
+}
+
+/**
+ * Routes generation, editing, validation and testing to the right
+ * implementation for an app's kind, so the UI only deals with VantageApp.
+ */
+class AppPipelineClass {
+  /**
+   * Output cut off at the model's limit is continued automatically; the result says so.
+   * Every model call here takes an optional `signal` that cancels it.
+   */
+  async generate(
+    kind: AppKind,
+    description: string,
+    style: AppStyle,
+    onChunk?: StreamChunkHandler,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    return kind === 'react'
+      ? GeminiService.generateReactComponent(description, style, onChunk, signal)
+      : GeminiService.generateHtmlApp(description, style, onChunk, signal);
+  }
+
+  /**
+   * `target` is an element picked in the running app; only React edits take
+   * one here, HTML apps get theirs through refine(). React edits are patched
+   * in place when the model's edit blocks apply, so the result says which
+   * template produced the code.
+   */
+  async update(app: VantageApp, editPrompt: string, target?: ElementTarget, signal?: AbortSignal): Promise<EditedCode> {
+    if (app.kind === 'react') {
+      return GeminiService.updateComponent(app.code, editPrompt, app.description, app.style, target, signal);
+    }
+    const promptTemplate = this.promptTemplate(app.kind, 'update');
+    return { code: await GeminiService.updateHtmlApp(app.code, editPrompt, app.style, signal), promptTemplate };
+  }
+
+  /**
+   * One turn of an app's refinement conversation, with the earlier turns as context
+   */
+  async refine(
+    app: VantageApp,
+    history: AppMessage[],
+    request: string,
+    target?: ElementTarget,
+    signal?: AbortSignal
+  ): Promise<RefinementReply> {
+    if (app.kind !== 'html') {
+      throw new Error('Conversational refinement is only available for HTML apps');
+    }
+    return GeminiService.refineHtmlApp(app.code, conversationContext(history), request, app.style, target, signal);
+  }
+
+  /**
+   * Template version generate(), update() or a model repair would use right now
+   */
+  promptTemplate(kind: AppKind, task: 'generate' | 'update' | 'fix'): PromptRef {
+    return PromptRegistry.ref(`${kind}.${task}` as const);
+  }
+
+  validate(app: Pick<VantageApp, 'kind' | 'code' | 'style'>): ValidationResult {
+    return AppValidator.validateApp(app, loadSecurityPolicy());
+  }
+
+  /**
+   * Static security scan under the policy saved in Settings
+   */
+  scan(app: Pick<VantageApp, 'kind' | 'code'>): SecurityReport {
+    return SecurityScanner.check(app, loadSecurityPolicy());
+  }
+
+  /**
+   * Load the app in a hidden sandbox and collect errors
+   */
+  test(app: Pick<VantageApp, 'kind' | 'code'>): Promise<RuntimeTestResult> {
+    return app.kind === 'react'
+      ? RuntimeTester.testComponent(app.code)
+      : RuntimeTester.testHtmlApp(app.code);
+  }
+
+  /**
+   * Validate and runtime-test the code, repairing a failing app through the
+   * bounded self-healing loop. `knownErrors` seeds the first repair with
+   * errors seen elsewhere, e.g. when the app failed in the viewer.
+   */
+  async verify(
+    app: VantageApp,
+    onStatus?: (status: AppTestStatus) => void,
+    knownErrors: string[] = [],
+    signal?: AbortSignal
+  ): Promise<AppVerification> {
+    const result = await SelfHealingService.heal(app, { onStatus, knownErrors, signal });
+    const validation = this.validate({ ...app, code: result.code });
+
+    return {
+      check: {
+        code: result.code,
+        validationWarnings: [...validation.errors, ...validation.warnings],
+        testStatus: result.passed ? 'passed' : 'failed',
+        testErrors: result.errors
+      },
+      attempts: result.attempts,
+      promptTemplate: result.promptTemplate
+    };
+  }
+}
+
+export const AppPipeline = new AppPipelineClass();
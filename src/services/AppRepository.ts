@@ -0,0 +1,351 @@
+import { VantageApp, normalizeApp, normalizeApps } from '../models/VantageApp';
+import { AppRevision, createRevision } from '../models/AppRevision';
+import { AppMessage } from '../models/AppConversation';
+import { logger } from '../utils/logger';
+
+const DB_NAME = 'vantage_vibes';
+const DB_VERSION = 4;
+const APPS_STORE = 'apps';
+const REVISIONS_STORE = 'revisions';
+const APP_DATA_STORE = 'appData';
+const MESSAGES_STORE = 'messages';
+
+// Pre-IndexedDB builds kept the whole library as one JSON array here
+const LEGACY_STORAGE_KEY = 'vantage_apps';
+
+/**
+ * Key/value data a generated app saved through the storage bridge
+ */
+export type AppDataItems = Record<string, string>;
+
+interface AppDataRecord {
+  appId: string;
+  items: AppDataItems;
+  updatedAt: string;
+}
+
+export interface StorageQuota {
+  appCount: number;
+  /** Bytes used by this origin, as reported by the browser */
+  usage: number;
+  /** Bytes available to this origin; 0 when the browser does not report it */
+  quota: number;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * IndexedDB-backed storage for Vantage Apps.
+ * Each app is its own record, so a write never re-serialises the whole library
+ * and large generated pages are not limited by the 5 MB localStorage quota.
+ */
+class AppRepositoryClass {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = event => {
+        const db = request.result;
+
+        if (event.oldVersion < 1) {
+          const store = db.createObjectStore(APPS_STORE, { keyPath: 'id' });
+          store.createIndex('name', 'name', { unique: false });
+          store.createIndex('createdAt', 'createdAt', { unique: false });
+        }
+
+        if (event.oldVersion < 2) {
+          const revisions = db.createObjectStore(REVISIONS_STORE, { keyPath: 'id' });
+          revisions.createIndex('appId', 'appId', { unique: false });
+
+          // Existing apps start their history with the code they have now
+          const cursorRequest = request.transaction?.objectStore(APPS_STORE).openCursor();
+          if (cursorRequest) {
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const app = normalizeApp(cursor.value);
+              if (app) {
+                revisions.add(this.baselineRevision(app));
+              }
+              cursor.continue();
+            };
+          }
+        }
+
+        if (event.oldVersion < 3) {
+          db.createObjectStore(APP_DATA_STORE, { keyPath: 'appId' });
+        }
+
+        if (event.oldVersion < 4) {
+          const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+          messages.createIndex('appId', 'appId', { unique: false });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('App database is open in another tab with an older version'));
+    });
+  }
+
+  /**
+   * Open the database once and run the localStorage migration before first use
+   */
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = this.openDatabase()
+        .then(async db => {
+          await this.migrateFromLocalStorage(db);
+          return db;
+        })
+        .catch(error => {
+          this.dbPromise = null;
+          throw error;
+        });
+    }
+    return this.dbPromise;
+  }
+
+  private async migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (stored === null) return;
+
+    let apps: VantageApp[];
+    try {
+      apps = normalizeApps(JSON.parse(stored));
+    } catch (error) {
+      logger.error('Legacy app library is not valid JSON, leaving it in place', error);
+      return;
+    }
+
+    const transaction = db.transaction([APPS_STORE, REVISIONS_STORE], 'readwrite');
+    const store = transaction.objectStore(APPS_STORE);
+    const revisions = transaction.objectStore(REVISIONS_STORE);
+    for (const app of apps) {
+      // Never overwrite an app that already made it into IndexedDB
+      const request = store.add(app);
+      request.onsuccess = () => revisions.add(this.baselineRevision(app));
+      request.onerror = event => event.preventDefault();
+    }
+    await transactionDone(transaction);
+
+    // Only drop the legacy copy once every app is safely stored
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    logger.success(`Migrated ${apps.length} apps from localStorage to IndexedDB`);
+  }
+
+  private baselineRevision(app: VantageApp): AppRevision {
+    return { ...createRevision(app, 'create', app.description, undefined, app.promptTemplate), createdAt: app.createdAt };
+  }
+
+  /**
+   * All apps, newest first
+   */
+  async getAll(): Promise<VantageApp[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(APPS_STORE, 'readonly').objectStore(APPS_STORE).index('createdAt');
+    const records = await requestToPromise(index.getAll());
+    return normalizeApps(records).reverse();
+  }
+
+  async get(id: string): Promise<VantageApp | null> {
+    const db = await this.getDatabase();
+    const record = await requestToPromise(db.transaction(APPS_STORE, 'readonly').objectStore(APPS_STORE).get(id));
+    return normalizeApp(record);
+  }
+
+  async findByName(name: string): Promise<VantageApp[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(APPS_STORE, 'readonly').objectStore(APPS_STORE).index('name');
+    return normalizeApps(await requestToPromise(index.getAll(name)));
+  }
+
+  async put(app: VantageApp): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(APPS_STORE, 'readwrite');
+    transaction.objectStore(APPS_STORE).put(app);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Merge changes into a stored app and return the result
+   */
+  async update(id: string, changes: Partial<VantageApp>): Promise<VantageApp> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(APPS_STORE, 'readwrite');
+    const store = transaction.objectStore(APPS_STORE);
+
+    const existing = normalizeApp(await requestToPromise(store.get(id)));
+    if (!existing) {
+      transaction.abort();
+      throw new Error(`App not found: ${id}`);
+    }
+
+    const updated: VantageApp = { ...existing, ...changes, id };
+    store.put(updated);
+    await transactionDone(transaction);
+    return updated;
+  }
+
+  /**
+   * Delete an app together with its revision history, conversation and saved data
+   */
+  async delete(id: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([APPS_STORE, REVISIONS_STORE, MESSAGES_STORE, APP_DATA_STORE], 'readwrite');
+    transaction.objectStore(APPS_STORE).delete(id);
+    transaction.objectStore(APP_DATA_STORE).delete(id);
+    this.deleteByAppId(transaction.objectStore(REVISIONS_STORE), id);
+    this.deleteByAppId(transaction.objectStore(MESSAGES_STORE), id);
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Store an app with a complete revision history, replacing any history it had.
+   * Used by import, where the bundle is the source of truth for the app.
+   * Saved data is replaced too when `data` is given and left alone otherwise.
+   */
+  async saveWithHistory(app: VantageApp, revisions: AppRevision[], data?: AppDataItems): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction([APPS_STORE, REVISIONS_STORE, APP_DATA_STORE], 'readwrite');
+    transaction.objectStore(APPS_STORE).put(app);
+    if (data) {
+      this.writeAppData(transaction.objectStore(APP_DATA_STORE), app.id, data);
+    }
+
+    const store = transaction.objectStore(REVISIONS_STORE);
+    const keysRequest = store.index('appId').getAllKeys(app.id);
+    keysRequest.onsuccess = () => {
+      keysRequest.result.forEach(key => store.delete(key));
+      revisions.forEach(revision => store.put(revision));
+    };
+
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Revisions are immutable - adding an existing id fails instead of overwriting it
+   */
+  async addRevision(revision: AppRevision): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(REVISIONS_STORE, 'readwrite');
+    transaction.objectStore(REVISIONS_STORE).add(revision);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Revision history of an app, oldest first
+   */
+  async getRevisions(appId: string): Promise<AppRevision[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(REVISIONS_STORE, 'readonly').objectStore(REVISIONS_STORE).index('appId');
+    const revisions: AppRevision[] = await requestToPromise(index.getAll(appId));
+    return revisions.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async addMessage(message: AppMessage): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(MESSAGES_STORE, 'readwrite');
+    transaction.objectStore(MESSAGES_STORE).add(message);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Merge changes into a stored message
+   */
+  async updateMessage(id: string, changes: Partial<AppMessage>): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(MESSAGES_STORE, 'readwrite');
+    const store = transaction.objectStore(MESSAGES_STORE);
+
+    const existing: AppMessage | undefined = await requestToPromise(store.get(id));
+    if (!existing) {
+      transaction.abort();
+      throw new Error(`Message not found: ${id}`);
+    }
+
+    store.put({ ...existing, ...changes, id });
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Refinement thread of an app, oldest first
+   */
+  async getMessages(appId: string): Promise<AppMessage[]> {
+    const db = await this.getDatabase();
+    const index = db.transaction(MESSAGES_STORE, 'readonly').objectStore(MESSAGES_STORE).index('appId');
+    const messages: AppMessage[] = await requestToPromise(index.getAll(appId));
+    return messages.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async clearMessages(appId: string): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(MESSAGES_STORE, 'readwrite');
+    this.deleteByAppId(transaction.objectStore(MESSAGES_STORE), appId);
+    await transactionDone(transaction);
+  }
+
+  private deleteByAppId(store: IDBObjectStore, appId: string): void {
+    const keysRequest = store.index('appId').getAllKeys(appId);
+    keysRequest.onsuccess = () => keysRequest.result.forEach(key => store.delete(key));
+  }
+
+  async getAppData(appId: string): Promise<AppDataItems> {
+    const db = await this.getDatabase();
+    const store = db.transaction(APP_DATA_STORE, 'readonly').objectStore(APP_DATA_STORE);
+    const record: AppDataRecord | undefined = await requestToPromise(store.get(appId));
+    return record?.items ?? {};
+  }
+
+  async putAppData(appId: string, items: AppDataItems): Promise<void> {
+    const db = await this.getDatabase();
+    const transaction = db.transaction(APP_DATA_STORE, 'readwrite');
+    this.writeAppData(transaction.objectStore(APP_DATA_STORE), appId, items);
+    await transactionDone(transaction);
+  }
+
+  // Apps without saved data have no record at all
+  private writeAppData(store: IDBObjectStore, appId: string, items: AppDataItems): void {
+    if (Object.keys(items).length === 0) {
+      store.delete(appId);
+    } else {
+      const record: AppDataRecord = { appId, items, updatedAt: new Date().toISOString() };
+      store.put(record);
+    }
+  }
+
+  async getQuota(): Promise<StorageQuota> {
+    const db = await this.getDatabase();
+    const appCount = await requestToPromise(db.transaction(APPS_STORE, 'readonly').objectStore(APPS_STORE).count());
+
+    if (!navigator.storage?.estimate) {
+      return { appCount, usage: 0, quota: 0 };
+    }
+
+    const estimate = await navigator.storage.estimate();
+    return { appCount, usage: estimate.usage || 0, quota: estimate.quota || 0 };
+  }
+}
+
+export const AppRepository = new AppRepositoryClass();
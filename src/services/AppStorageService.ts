@@ -0,0 +1,87 @@
+import { AppDataItems, AppRepository } from './AppRepository';
+import { logger } from '../utils/logger';
+
+/** Per-app limit, counted in characters of keys plus values like Web Storage */
+export const APP_STORAGE_QUOTA = 1024 * 1024;
+
+export function appDataSize(items: AppDataItems): number {
+  return Object.entries(items).reduce((size, [key, value]) => size + key.length + value.length, 0);
+}
+
+/**
+ * Namespaced key/value storage for generated apps, keyed by app id.
+ * Apps read synchronously from a snapshot injected at load time, so this
+ * keeps the latest items in memory and writes every change through to the
+ * repository in order.
+ */
+class AppStorageServiceClass {
+  private cache = new Map<string, AppDataItems>();
+  private writes = new Map<string, Promise<void>>();
+
+  async load(appId: string): Promise<AppDataItems> {
+    const cached = this.cache.get(appId);
+    if (cached) return cached;
+
+    const items = await AppRepository.getAppData(appId);
+    this.cache.set(appId, items);
+    return items;
+  }
+
+  /**
+   * Items as of the last load or change; empty if the app was never loaded
+   */
+  snapshot(appId: string): AppDataItems {
+    return this.cache.get(appId) ?? {};
+  }
+
+  async setItem(appId: string, key: string, value: string): Promise<void> {
+    const current = await this.load(appId);
+    const next = { ...current, [key]: value };
+
+    if (appDataSize(next) > APP_STORAGE_QUOTA) {
+      throw new Error(`Storage quota exceeded (${Math.round(APP_STORAGE_QUOTA / 1024)} KB per app)`);
+    }
+    await this.save(appId, next);
+  }
+
+  async removeItem(appId: string, key: string): Promise<void> {
+    const current = await this.load(appId);
+    if (!(key in current)) return;
+
+    const next = { ...current };
+    delete next[key];
+    await this.save(appId, next);
+  }
+
+  async clear(appId: string): Promise<void> {
+    await this.save(appId, {});
+  }
+
+  /**
+   * Forget cached items, e.g. after an import or delete replaced them in the repository
+   */
+  invalidate(appId?: string): void {
+    if (appId) {
+      this.cache.delete(appId);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private save(appId: string, items: AppDataItems): Promise<void> {
+    this.cache.set(appId, items);
+
+    const previous = this.writes.get(appId) ?? Promise.resolve();
+    const write = previous
+      .catch(() => undefined)
+      .then(() => AppRepository.putAppData(appId, items))
+      .catch(error => {
+        logger.error(`Failed to save data for app ${appId}`, error);
+        throw error;
+      });
+    this.writes.set(appId, write);
+    return write;
+  }
+}
+
+export const AppStorageService = new AppStorageServiceClass();
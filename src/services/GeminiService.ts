@@ -1,16 +1,54 @@
-import { codeFixer } from '../utils/GeminiCodeFixer';
+import { codeRepairEngine } from '../utils/CodeRepairEngine';
 import { logger } from '../utils/logger';
+import { SyntaxChecker } from '../utils/SyntaxChecker';
+import { SecurityScanner } from '../utils/SecurityScanner';
+import { PatchApplier } from '../utils/PatchApplier';
+import { TruncationDetector } from '../utils/TruncationDetector';
+import { LLMService } from './LLMService';
+import { loadSecurityPolicy } from './securityPolicy';
+import { GenerateOptions, LLMMessage, StreamChunkHandler } from './providers/types';
+import { PromptRegistry } from './prompts/PromptRegistry';
+import { PromptRef, PromptVariables } from './prompts/types';
+import { AppKind, GenerationContinuation, VantageApp } from '../models/VantageApp';
+import { AppStyle, DEFAULT_STYLE_PRESET, createAppStyle } from '../models/StylePreset';
+import { ElementTarget } from '../models/ElementTarget';
 
 export interface AppIdea {
   name: string;
   description: string;
 }
 
-export interface GeneratedApp {
-  name: string;
-  description: string;
-  iconUrl: string;
-  componentCode: string;
+export type GeneratedApp = Omit<VantageApp, 'id' | 'createdAt'>;
+
+/**
+ * A refinement turn: the updated page, or no code when the model asked a question
+ */
+export interface RefinementReply {
+  message: string;
+  code?: string;
+  /** Template that produced `code`: the edit-block one, or the full page one when the blocks did not apply */
+  promptTemplate?: PromptRef;
+}
+
+/**
+ * Code for a new app; `continuation` is set when the output was cut off and continued
+ */
+export interface GeneratedCode {
+  code: string;
+  continuation?: GenerationContinuation;
+}
+
+// Continuation requests allowed after the first response of a generation
+const MAX_CONTINUATION_ROUNDS = 3;
+// End of the text so far quoted in a continuation request, so the model knows where it stopped
+const CONTINUATION_TAIL_LENGTH = 600;
+
+/**
+ * Code produced by an edit, with the template that produced it
+ */
+export interface EditedCode {
+  code: string;
+  promptTemplate: PromptRef;
 }
 
 // Pre-generated app ideas for instant loading
@@ -28,57 +66,15 @@ export const PRE_GENERATED_IDEAS: AppIdea[] = [
 ];
 
 class GeminiServiceClass {
-  private getApiKey(): string {
-    // Check localStorage first (allows user override in Settings)
-    const userKey = localStorage.getItem('gemini_api_key');
-    if (userKey) return userKey;
-
-    // Then check environment variable
-    const envKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (envKey) return envKey;
-
-    // If neither exists, throw error
-    throw new Error(
-      'Gemini API key not configured. Please set VITE_GEMINI_API_KEY environment variable or configure in Settings.'
-    );
-  }
-
   async generateAppIdeas(count: number = 5): Promise<AppIdea[]> {
-    const apiKey = this.getApiKey();
-
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000); // Increased to 60 seconds
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          signal: controller.signal,
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Generate ${count} creative mini-app ideas suitable for a productivity dashboard. Each app should be simple and achievable with React components. Return ONLY a JSON array with this exact format: [{"name": "App Name", "description": "Brief description"}]. No other text or explanation.`
-              }]
-            }]
-          })
-        }
+      const ideas = await LLMService.generateJSON<AppIdea[]>(
+        PromptRegistry.render('app.ideas', { count }).text,
+        { timeoutMs: 60000 }
       );
 
-      clearTimeout(timeoutId);
-      const data = await response.json();
-
-      if (data.candidates && data.candidates[0]) {
-        const text = data.candidates[0].content.parts[0].text;
-        // Extract JSON from markdown code blocks if present
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\[[\s\S]*\]/);
-        if (jsonMatch) {
-          const jsonText = jsonMatch[1] || jsonMatch[0];
-          return JSON.parse(jsonText);
-        }
+      if (Array.isArray(ideas)) {
+        return ideas;
       }
 
       // Fallback ideas if parsing fails
@@ -107,64 +103,40 @@ class GeminiServiceClass {
   }
 
   async generateAppFromPrompt(prompt: string, onProgress?: (step: number, percentage: number) => void): Promise<GeneratedApp> {
-    const apiKey = this.getApiKey();
-
     // Step 1: Generate app name and description (25%)
     onProgress?.(1, 25);
-    const appInfo = await this.generateAppInfo(prompt, apiKey);
+    const appInfo = await this.generateAppInfo(prompt);
 
     // Step 2: Generate icon (50%)
     onProgress?.(2, 50);
-    const iconUrl = await this.generateIcon(appInfo.description, apiKey);
+    const iconUrl = await this.generateIcon(appInfo.description);
 
     // Step 3: Generate component code (75%)
     onProgress?.(3, 75);
-    const componentCode = await this.generateReactComponent(appInfo.description, apiKey);
+    const { code: componentCode, continuation } = await this.generateReactComponent(appInfo.description);
 
     // Step 4: Final touches (100%)
     onProgress?.(4, 100);
 
     return {
+      kind: 'react',
       name: appInfo.name,
       description: appInfo.description,
       iconUrl,
-      componentCode
+      code: componentCode,
+      continuation
     };
   }
 
-  private async generateAppInfo(prompt: string, apiKey: string): Promise<{ name: string; description: string }> {
+  private async generateAppInfo(prompt: string): Promise<{ name: string; description: string }> {
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000); // Increased to 60 seconds
-
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          signal: controller.signal,
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: `Based on this app idea: "${prompt}", generate a catchy app name and brief description. Return ONLY a JSON object with this exact format: {"name": "App Name", "description": "Brief description"}. No other text.`
-              }]
-            }]
-          })
-        }
+      const appInfo = await LLMService.generateJSON<{ name: string; description: string }>(
+        PromptRegistry.render('app.info', { idea: prompt }).text,
+        { timeoutMs: 60000 }
       );
 
-      clearTimeout(timeoutId);
-      const data = await response.json();
-
-      if (data.candidates && data.candidates[0]) {
-        const text = data.candidates[0].content.parts[0].text;
-        const jsonMatch = text.match(/```json\n([\s\S]*?)\n```/) || text.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          const jsonText = jsonMatch[1] || jsonMatch[0];
-          return JSON.parse(jsonText);
-        }
+      if (appInfo && appInfo.name) {
+        return appInfo;
       }
 
       return { name: prompt, description: `A useful ${prompt} application` };
@@ -174,7 +146,7 @@ class GeminiServiceClass {
     }
   }
 
-  async generateIcon(appDescription: string, apiKey: string): Promise<string> {
+  async generateIcon(appDescription: string): Promise<string> {
     // Imagen API has CORS issues when called from browser
     // Skip API call and use emoji fallback directly
     return this.generateEmojiIcon(appDescription);
@@ -191,284 +163,181 @@ class GeminiServiceClass {
     return `data:image/svg+xml,${encodeURIComponent(svg)}`;
   }
 
-  async generateReactComponent(description: string, apiKey: string): Promise<string> {
-    const maxRetries = 3; // Increased from 2 to 3 for Phase 2
+  /**
+   * Generate a self-contained HTML page. Pass onChunk to stream the page as it is written.
+   */
+  async generateHtmlApp(
+    description: string,
+    style: AppStyle = createAppStyle(DEFAULT_STYLE_PRESET),
+    onChunk?: StreamChunkHandler,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    const prompt = PromptRegistry.render('html.generate', { description, style }).text;
+    const { text, continuation } = await this.generateUntilComplete(prompt, 'html', onChunk, { signal });
+
+    return { code: this.extractHtml(text), continuation };
+  }
 
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      logger.info(`Generation attempt ${attempt + 1}/${maxRetries}`, { description: description.substring(0, 50) });
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // Increased to 120 seconds (2 minutes) for code generation
-
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            signal: controller.signal,
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: `═══════════════════════════════════════════════════════════
-🚨 YOUR CODE IS BROKEN WITHOUT THIS FIRST LINE 🚨
-═══════════════════════════════════════════════════════════
-
-Line 1 MUST be: import React from 'react';
-Line 2: blank line
-Line 3: export default function App() {
-
-WITHOUT THE IMPORT, CODE WILL CRASH: "React is not defined"
-
-YOUR FIRST LINE OF OUTPUT:
-import React from 'react';
-
-═══════════════════════════════════════════════════════════
-
-Now, create a complete, production-ready React component for: ${description}
-
-START YOUR CODE WITH:
-import React from 'react';
-
-🚨 CRITICAL REQUIREMENTS - READ CAREFULLY:
-
-📦 CODE COMPLETENESS:
-1. FIRST LINE: import React from 'react';
-2. SECOND LINE: blank line
-3. THIRD LINE: export default function App() {
-4. Do NOT write explanatory text before the import
-5. Do NOT skip the React import - CODE WILL CRASH WITHOUT IT
-6. Use React.useState, React.useEffect (with React prefix) for all hooks
-7. Ensure NO undefined variables or missing dependencies
-8. Follow React best practices and modern syntax
-9. Write self-contained, production-ready code that runs without modifications
-
-⚠️ VERIFY YOUR CODE STARTS WITH THIS EXACT SEQUENCE:
-import React from 'react';
+  /**
+   * Run a generation prompt and, while the output looks cut off, ask the model
+   * to carry on from where it stopped and stitch the parts together. Streamed
+   * chunks report the text so far, continuations included.
+   */
+  private async generateUntilComplete(
+    prompt: string,
+    kind: AppKind,
+    onChunk?: StreamChunkHandler,
+    options?: GenerateOptions
+  ): Promise<{ text: string; continuation?: GenerationContinuation }> {
+    const request = (input: string | LLMMessage[], before: string) => onChunk
+      ? LLMService.streamText(input, (chunk, fullText) => onChunk(chunk, before + fullText), options)
+      : LLMService.generateText(input, options);
+
+    let result = await request(prompt, '');
+    let text = result.text;
+    let check = TruncationDetector.check(text, kind, result.finishReason);
+    let rounds = 0;
+
+    while (check.truncated && text.trim() && rounds < MAX_CONTINUATION_ROUNDS) {
+      rounds++;
+      logger.warn(`Output was cut off, continuing (round ${rounds}/${MAX_CONTINUATION_ROUNDS})`, check.reasons);
+
+      const tail = text.slice(-CONTINUATION_TAIL_LENGTH);
+      result = await request([
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: text },
+        { role: 'user', content: PromptRegistry.render(`${kind}.continue` as const, { tail }).text }
+      ], text);
+      text = TruncationDetector.stitch(text, result.text);
+      check = TruncationDetector.check(text, kind, result.finishReason);
+    }
 
-export default function App() {
+    if (check.truncated && rounds > 0) {
+      logger.error(`Output still looks cut off after ${rounds} continuation round(s)`, check.reasons);
+    }
+    return { text, continuation: rounds > 0 ? { rounds, complete: !check.truncated } : undefined };
+  }
 
-IF YOUR CODE DOESN'T START WITH "import React from 'react';" IT IS BROKEN.
-✓ All React hooks and methods have corresponding imports
-✓ React is imported (required for JSX)
-✓ No syntax errors or undefined references
-✓ All variables are declared before use
-✓ All functions are defined before being called
-✓ No typos in variable or function names
-
-🎯 OUTPUT FORMAT:
-- MUST begin with: import React from 'react';
-- Provide complete code file ready to copy and run
-- Include all imports even if they will be removed during processing
-- Use ONLY React.useState, React.useEffect syntax (with React prefix) - NEVER plain useState/useEffect
-- After imports, start with EXACTLY "export default function App() {"
-- Return ONLY valid JavaScript code, NO explanations or markdown
-
-⚠️ MANDATORY JSX/React Syntax Rules - MEMORIZE THESE PATTERNS:
-
-1. **style with percentages - backticks REQUIRED:**
-   ✅ CORRECT: style={{ width: \`\${value}%\` }}
-   ❌ WRONG: style={{ width: \${value}% }}
-
-2. **className with dynamic values - backticks REQUIRED:**
-   ✅ CORRECT: className={\`static-class \${dynamic} other-class\`}
-   ❌ WRONG: className={static-class \${dynamic} other-class}
-
-3. **Space between dynamic and static classes - REQUIRED:**
-   ✅ CORRECT: className={\`\${condition ? 'class1' : 'class2'} static-class\`}
-   ❌ WRONG: className={\`\${condition ? 'class1' : 'class2'}static-class\`}
-
-4. **String interpolation - backticks REQUIRED:**
-   ✅ CORRECT: {\`\${winner} WINS!\`}
-   ❌ WRONG: \${winner} WINS!
-
-🔧 THREE-LAYER VALIDATION PROTOCOL (Run on EVERY className/style attribute):
-
-Layer 1: The Container
-- Does prop start with className={ and end with }?
-- ERROR: className="\${variable}" ❌ (Cannot interpolate in quotes)
-- CORRECT: className={\`static \${variable}\`} ✅
-
-Layer 2: The Template Literal
-- Inside JSX braces, does string start AND end with backtick?
-- ERROR: className={static \${variable}} ❌ (Missing backticks)
-- CORRECT: className={\`static \${variable}\`} ✅
-
-Layer 3: The Interpolation (CRITICAL)
-- Every \${ MUST have matching } before next character
-- ERROR: \${variable}\` ❌ (Merged closing brace with backtick)
-- ERROR: \${variable}}\` ❌ (Extra brace)
-- CORRECT: \`\${variable}\` ✅ (Clean: backtick, dollar, brace, content, brace, backtick)
-
-WHITESPACE RULE:
-- Space BEFORE \${} when injecting into class list
-- ERROR: btn-primary\${dynamic} ❌
-- CORRECT: btn-primary \${dynamic} ✅
-
-VALIDATION CHECKLIST - Check EVERY instance:
-□ Every className with \${} starts with backtick immediately after {
-□ Every style percentage: \`\${value}%\` (% INSIDE backtick)
-□ Space before every \${} when concatenating classes
-□ Every \${ has matching } before closing backtick
-□ No merged delimiters: \${var}\` or \${var}}\`
-
-🎯 CRITICAL Requirements - THESE ARE MANDATORY:
-
-✅ Component Structure:
-- Must be a single React functional component named "App"
-- MUST use "React.useState" and "React.useEffect" (with React prefix) for all hooks
-- Include all necessary logic and UI - make it complete and self-contained
-- Use Tailwind CSS classes for styling (no custom CSS)
-- Make it interactive and fully functional
-
-✅ Code Quality:
-- Return ONLY valid JavaScript code, NO explanations or markdown
-- Start with EXACTLY "export default function App() {"
-- All brackets, parentheses, and braces MUST be properly balanced
-- All strings must be properly quoted with correct backticks
-- No syntax errors - the code must execute immediately without fixes
-- NO undefined variables - declare everything before use
-- NO missing functions - define all functions before calling them
-
-✅ Mathematical Operators (CRITICAL):
-    * Example: setInterval(() => setProgress(prev => Math.min(100, prev + 3)), 150)
-    * This gives: 100 units ÷ 3 per tick = ~33 ticks × 150ms = ~5 seconds total
-  - WRONG patterns that cause problems:
-    * Fast interval + large random: setInterval(() => prev + Math.random() * 15, 100) ❌ (jumpy, reaches 75% then stalls)
-    * Slow interval + tiny increment: setInterval(() => prev + 1, 1000) ❌ (takes 100 seconds!)
-    * No Math.min cap: setProgress(prev => prev + 5) ❌ (exceeds 100%)
-  - Progress MUST move evenly through ALL ranges: 0-25%, 25-50%, 50-75%, 75-100%
-  - Always use Math.min(100, prev + increment) to cap at 100%
-  - Always clear interval when reaching 100% or component unmounts
-
-CRITICAL React/JSX RULES - MUST FOLLOW TO AVOID SYNTAX ERRORS:
-
-1. **className attribute ALWAYS needs quotes or backticks:**
-   - Static classes: className="static-classes"
-   - Dynamic with \${}: className={\`dynamic \${condition ? 'class1' : 'class2'}\`}
-   - WRONG: className={dynamic classes without quotes} ❌
-
-2. **Template Literals - backticks are REQUIRED for string interpolation:**
-   - CORRECT: \`Player \${name} wins!\` ✅
-   - WRONG: Player \${name} wins! ❌ (missing backticks)
-
-3. **Dynamic className - Use backticks with \${}:**
-   - CORRECT: className={\`base-class \${isActive ? 'active' : ''}\`} ✅
-   - WRONG: className={base-class \${isActive ? 'active' : ''}} ❌ (missing backticks)
-
-4. **NEVER start template literal with \${:**
-   - WRONG: className={\${condition ? 'class' : ''}} ❌ (starts with \${, invalid syntax)
-   - CORRECT: className={condition ? 'class' : ''} ✅ (no \${}, no backticks needed)
-   - CORRECT: className={\`static \${condition ? 'class' : ''}\`} ✅ (has static text, needs backticks)
-
-5. **Units and symbols INSIDE the backticks:**
-   - CORRECT: style={{ width: \`\${percentage}%\` }} ✅
-   - WRONG: style={{ width: \`\${percentage}\`% }} ❌ (% outside backticks)
-
-6. **NEVER nest backticks:**
-   - CORRECT: className={\`text-lg \${isActive ? 'font-bold' : 'font-normal'}\`} ✅
-   - WRONG: className={\`text-lg \`\${isActive ? 'font-bold' : 'font-normal'}\`\`} ❌ (nested backticks)
-
-CRITICAL BACKTICK RULES - MOST COMMON ERRORS:
-1. Units MUST be INSIDE the backticks with the variable
-   - CORRECT: \`\${value}%\`
-   - WRONG: \`\${value}\`%
-   - CORRECT: \`\${x}px\`
-   - WRONG: \`\${x}\`px
-2. NEVER nest backticks - use ONE pair of backticks for the entire string
-   - CORRECT: className={\`text-lg \${isActive ? 'font-bold' : 'font-normal'}\`}
-   - WRONG: className={\`text-lg \`\${isActive ? 'font-bold' : 'font-normal'}\`\`}
-   - CORRECT: \`Player \${name}\`
-   - WRONG: Player\`\${name}\`
-3. ALL arithmetic operations MUST have explicit operators
-   - CORRECT: value * 2
-   - WRONG: value  2
-   - CORRECT: Math.random() * array.length
-   - WRONG: Math.random()  array.length
-   - CORRECT: energy + (1.5 * deltaTime)
-   - WRONG: energy + (1.5  deltaTime)
-
-🚫 FORBIDDEN (these will cause IMMEDIATE ERRORS):
-- ❌ Do NOT skip the React import - MUST include: import React from 'react';
-- ❌ Do NOT use other import statements besides React (import ... from ...) - they will be stripped automatically
-- ❌ Do NOT use require() statements
-- ❌ Do NOT use eval, innerHTML, dangerouslySetInnerHTML, or script tags
-- ❌ Do NOT use <style> tags or dangerouslySetInnerHTML - use inline styles or Tailwind classes only
-- ❌ Do NOT use plain useState/useEffect without React prefix - ALWAYS use React.useState
-- ❌ Do NOT include markdown code blocks or backticks in your response
-- ❌ Do NOT include any explanatory text before or after the code
-- ❌ Do NOT use export statements other than "export default function App"
-- ❌ Do NOT EVER write className={text \${variable}...} - this is a SYNTAX ERROR (missing backticks!)
-- ❌ NEVER use \${} without wrapping the entire string in backticks
-- ❌ NEVER use undefined variables - declare ALL variables with const/let before use
-- ❌ NEVER call functions before defining them
-
-✅ BEFORE RETURNING CODE - FINAL VERIFICATION CHECKLIST:
-You MUST verify your code passes ALL these checks before returning it:
-
-1. Template Literal Syntax:
-   ✓ No nested backticks within template literals (use ONE pair of backticks for entire string)
-   ✓ All \${} expressions are wrapped in backticks
-   ✓ Percent signs and units (%, px, etc.) are INSIDE the template literal closing backtick
-   ✓ className uses single template literal with \${} interpolation, not nested backticks
-
-2. Mathematical Operators:
-   ✓ All math operations have explicit operators (*, +, -, /)
-   ✓ No spaces between numbers where operators should be
-
-3. Variables and Functions:
-   ✓ All variables declared with const/let before use
-   ✓ All functions defined before being called
-   ✓ No typos in variable or function names
-   ✓ All React hooks use React.useState/React.useEffect syntax
-
-4. Code Completeness:
-   ✓ No syntax errors - code must execute immediately without fixes
-   ✓ No undefined references
-   ✓ All brackets properly balanced
-   ✓ Component is complete and self-contained
-
-Generate syntactically correct code that will run without errors.
-
-📋 Example CORRECT format (COPY THIS STRUCTURE):
-
-import React from 'react';
+  async updateHtmlApp(currentCode: string, editPrompt: string, style?: AppStyle, signal?: AbortSignal): Promise<string> {
+    const result = await LLMService.generateText(
+      PromptRegistry.render('html.update', { code: currentCode, request: editPrompt, style }).text,
+      { signal }
+    );
 
-export default function App() {
-  const [count, setCount] = React.useState(0);
+    return this.extractHtml(result.text);
+  }
 
-  React.useEffect(() => {
-    console.log('Component mounted');
-  }, []);
+  /**
+   * One turn of the refinement conversation. The earlier turns go first so the
+   * model keeps their context; the reply is either an edit or a question.
+   * Edits come back as search/replace blocks applied here; the whole page is
+   * only regenerated when the blocks do not fit the current code.
+   */
+  async refineHtmlApp(
+    currentCode: string,
+    history: LLMMessage[],
+    request: string,
+    style?: AppStyle,
+    target?: ElementTarget,
+    signal?: AbortSignal
+  ): Promise<RefinementReply> {
+    const variables = { code: currentCode, request, style, target };
+    const patchPrompt = PromptRegistry.render('html.patch', variables);
+    const result = await LLMService.generateText(
+      [...history, { role: 'user', content: patchPrompt.text }],
+      { timeoutMs: 120000, signal }
+    );
 
-  return (
-    <div className="p-6 max-w-md mx-auto">
-      <h1 className="text-2xl font-bold mb-4">Counter: {count}</h1>
-      <button
-        onClick={() => setCount(count + 1)}
-        className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
-      >
-        Increment
-      </button>
-    </div>
-  );
-}
+    const blocks = PatchApplier.parse(result.text);
+    if (blocks.length === 0) {
+      // A question, or a model that sent the whole page anyway
+      return this.parseRefinementReply(result.text, patchPrompt.ref);
+    }
 
-⚠️ CRITICAL: Your code MUST start with "import React from 'react';" followed by the component.
+    const patch = PatchApplier.apply(currentCode, blocks);
+    if (patch.conflicts.length === 0) {
+      logger.success(`Applied ${patch.applied} edit block(s) to the page`);
+      return {
+        message: PatchApplier.preamble(result.text) || 'Updated the app.',
+        code: patch.code,
+        promptTemplate: patchPrompt.ref
+      };
+    }
 
-Now create the component for: ${description}`
-                }]
-              }]
-            })
-          }
-        );
+    logger.warn('Edit blocks did not apply, regenerating the whole page', patch.conflicts.map(conflict => PatchApplier.describe(conflict)));
+    const fullPrompt = PromptRegistry.render('html.refine', variables);
+    const fallback = await LLMService.generateText(
+      [...history, { role: 'user', content: fullPrompt.text }],
+      { timeoutMs: 120000, signal }
+    );
+    return this.parseRefinementReply(fallback.text, fullPrompt.ref);
+  }
+
+  private parseRefinementReply(text: string, promptTemplate: PromptRef): RefinementReply {
+    const fence = text.search(/```/);
+    const doctype = text.search(/<!DOCTYPE|<html/i);
+    const codeStart = fence >= 0 ? fence : doctype;
 
-        clearTimeout(timeoutId);
-        const data = await response.json();
+    if (codeStart < 0) {
+      return { message: text.trim().replace(/^QUESTION:\s*/i, '') || 'Could you say more about what to change?' };
+    }
 
-        if (data.candidates && data.candidates[0]) {
-          let code = data.candidates[0].content.parts[0].text;
+    const summary = text.substring(0, codeStart).trim();
+    return {
+      message: summary || 'Updated the app.',
+      code: this.extractHtml(text.substring(codeStart)),
+      promptTemplate
+    };
+  }
+
+  /**
+   * Repair an HTML app that failed its runtime test
+   */
+  async fixBrokenHtmlApp(brokenCode: string, errors: string[], originalDescription: string, signal?: AbortSignal): Promise<string> {
+    const result = await LLMService.generateText(
+      PromptRegistry.render('html.fix', { code: brokenCode, errors, description: originalDescription }).text,
+      { timeoutMs: 120000, signal }
+    );
+
+    return this.extractHtml(result.text);
+  }
+
+  private extractHtml(text: string): string {
+    const codeBlockMatch = text.match(/```html\n([\s\S]*?)\n```/);
+    if (codeBlockMatch) return codeBlockMatch[1];
+
+    const genericBlockMatch = text.match(/```\n([\s\S]*?)\n```/);
+    if (genericBlockMatch) return genericBlockMatch[1];
+
+    // A block whose closing fence never came, e.g. output that was cut off
+    const openBlockMatch = text.match(/^\s*```(?:html)?\n([\s\S]*)$/);
+    if (openBlockMatch) return openBlockMatch[1].trim();
+
+    if (text.trim().startsWith('<!DOCTYPE') || text.trim().startsWith('<html')) {
+      return text.trim();
+    }
+
+    return text;
+  }
+
+  async generateReactComponent(
+    description: string,
+    style: AppStyle = createAppStyle(DEFAULT_STYLE_PRESET),
+    onChunk?: StreamChunkHandler,
+    signal?: AbortSignal
+  ): Promise<GeneratedCode> {
+    const maxRetries = 3; // Increased from 2 to 3 for Phase 2
+
+    for (let attempt = 0; attempt < maxRetries; attempt++) {
+      logger.info(`Generation attempt ${attempt + 1}/${maxRetries}`, { description: description.substring(0, 50) });
+      try {
+        const prompt = PromptRegistry.render('react.generate', { description, style }).text;
+
+        const options = { timeoutMs: 120000, signal }; // Increased to 120 seconds (2 minutes) for code generation
+        const { text, continuation } = await this.generateUntilComplete(prompt, 'react', onChunk, options);
+
+        if (text) {
+          let code = text;
 
           logger.debug('Raw code from Gemini', { preview: code.substring(0, 500) });
 
@@ -484,7 +353,7 @@ Now create the component for: ${description}`
               continue; // Skip to next iteration
             } else {
               logger.error('All retry attempts exhausted due to validation failures');
-              return this.getFallbackComponent(description);
+              return { code: this.getFallbackComponent(description) };
             }
           }
 
@@ -502,7 +371,7 @@ Now create the component for: ${description}`
 
           if (isValid) {
             logger.success(`Code passed all validations on attempt ${attempt + 1}/${maxRetries}`);
-            return code;
+            return { code, continuation };
           } else if (attempt < maxRetries - 1) {
             logger.warn(`Post-cleanup validation failed on attempt ${attempt + 1}/${maxRetries}, retrying`);
             continue;
@@ -512,9 +381,12 @@ Now create the component for: ${description}`
         }
 
         if (attempt === maxRetries - 1) {
-          return this.getFallbackComponent(description);
+          return { code: this.getFallbackComponent(description) };
         }
       } catch (error) {
+        // A cancelled job is not retried or replaced by the fallback
+        if (signal?.aborted) throw error;
+
         // Check if it's an abort/timeout error
         const isTimeout = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
 
@@ -529,12 +401,12 @@ Now create the component for: ${description}`
           if (isTimeout) {
             logger.error('All attempts timed out - returning fallback component');
           }
-          return this.getFallbackComponent(description);
+          return { code: this.getFallbackComponent(description) };
         }
       }
     }
 
-    return this.getFallbackComponent(description);
+    return { code: this.getFallbackComponent(description) };
   }
 
   private cleanupGeneratedCode(code: string): string {
@@ -658,8 +530,8 @@ Now create the component for: ${description}`
       }
     }
 
-    // Use GeminiCodeFixer for comprehensive syntax error detection and fixing
-    console.log('🔧 Running GeminiCodeFixer for comprehensive error detection...');
+    // Use CodeRepairEngine for parser-driven error detection and repair
+    console.log('🔧 Running CodeRepairEngine for error detection and repair...');
 
     // Log React analysis BEFORE fixes
     console.log('🔍 React Analysis Before Fixes:');
@@ -672,7 +544,7 @@ Now create the component for: ${description}`
     console.log(`  - Code snippet (first 200 chars):`);
     console.log(`    ${code.substring(0, 200).replace(/\n/g, '\\n')}`);
 
-    const result = codeFixer.fixCode(code);
+    const result = codeRepairEngine.repair(code);
 
     // Log React analysis AFTER fixes
     console.log('🔍 React Analysis After Fixes:');
@@ -686,13 +558,13 @@ Now create the component for: ${description}`
     // Check for multiplied React prefix (bug detection)
     if (result.fixedCode.includes('React.React.')) {
       console.error('🚨 BUG DETECTED: Multiplied React prefix found!');
-      console.error('  This indicates GeminiCodeFixer is broken');
+      console.error('  This indicates CodeRepairEngine is broken');
       console.error('  Example:', result.fixedCode.match(/React\.React\.[a-zA-Z]+/)?.[0]);
     }
 
     // Log the results
     if (result.errors.length > 0) {
-      console.log(`✅ GeminiCodeFixer detected and fixed ${result.errors.length} error(s):`);
+      console.log(`✅ CodeRepairEngine detected and fixed ${result.errors.length} error(s):`);
       console.log('📊 Fix Statistics:', result.stats);
 
       // Log individual errors for debugging
@@ -707,11 +579,11 @@ Now create the component for: ${description}`
         }
       });
     } else {
-      console.log('ℹ️ GeminiCodeFixer: No syntax errors detected');
+      console.log('ℹ️ CodeRepairEngine: No syntax errors detected');
     }
 
     if (!result.success) {
-      console.warn('⚠️ GeminiCodeFixer encountered issues during fixing');
+      console.warn('⚠️ CodeRepairEngine could not repair every syntax error');
     }
 
     let finalCode = result.fixedCode;
@@ -758,8 +630,10 @@ Now create the component for: ${description}`
       return false;
     }
 
-    // Check 2: Check for balanced brackets with JSX awareness
-    if (!this.hasBalancedBrackets(code)) {
+    // Check 2: Must parse as JSX
+    const syntaxErrors = SyntaxChecker.checkScript(code, { jsx: true });
+    if (syntaxErrors.length > 0) {
+      console.error('Code has syntax errors:', syntaxErrors.map(d => SyntaxChecker.format(d)));
       return false;
     }
 
@@ -769,50 +643,10 @@ Now create the component for: ${description}`
       return false;
     }
 
-    // Check 4: No dangerous patterns
-    const dangerousPatterns = [/eval\(/g, /<script/gi, /innerHTML/g];
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(code)) {
-        console.error('Code contains dangerous pattern:', pattern);
-        return false;
-      }
-    }
-
-    return true;
-  }
-
-  private hasBalancedBrackets(code: string): boolean {
-    // Remove strings and comments to avoid counting brackets inside them
-    let cleanCode = code;
-
-    // Remove string contents (keep quotes for structure)
-    cleanCode = cleanCode.replace(/'[^'\\]*(\\.[^'\\]*)*'/g, "''");
-    cleanCode = cleanCode.replace(/"[^"\\]*(\\.[^"\\]*)*"/g, '""');
-    cleanCode = cleanCode.replace(/`[^`\\]*(\\.[^`\\]*)*`/g, '``');
-
-    // Remove single-line comments
-    cleanCode = cleanCode.replace(/\/\/.*$/gm, '');
-
-    // Remove multi-line comments
-    cleanCode = cleanCode.replace(/\/\*[\s\S]*?\*\//g, '');
-
-    const openBraces = (cleanCode.match(/\{/g) || []).length;
-    const closeBraces = (cleanCode.match(/\}/g) || []).length;
-    const openParens = (cleanCode.match(/\(/g) || []).length;
-    const closeParens = (cleanCode.match(/\)/g) || []).length;
-    const openBrackets = (cleanCode.match(/\[/g) || []).length;
-    const closeBrackets = (cleanCode.match(/\]/g) || []).length;
-
-    if (openBraces !== closeBraces) {
-      console.error(`Unbalanced braces: ${openBraces} open, ${closeBraces} close`);
-      return false;
-    }
-    if (openParens !== closeParens) {
-      console.error(`Unbalanced parentheses: ${openParens} open, ${closeParens} close`);
-      return false;
-    }
-    if (openBrackets !== closeBrackets) {
-      console.error(`Unbalanced square brackets: ${openBrackets} open, ${closeBrackets} close`);
+    // Check 4: Nothing the security policy blocks
+    const security = SecurityScanner.check({ kind: 'react', code }, loadSecurityPolicy());
+    if (security.blocked.length > 0) {
+      console.error('Code is blocked by the security policy:', security.blocked.map(finding => SecurityScanner.format(finding)));
       return false;
     }
 
@@ -966,107 +800,20 @@ export default function App() {
   async fixBrokenComponent(
     brokenCode: string,
     errors: string[],
-    originalDescription: string
+    originalDescription: string,
+    signal?: AbortSignal
   ): Promise<string> {
-    const apiKey = this.getApiKey();
     const maxRetries = 2;
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const errorList = errors.map((err, idx) => `${idx + 1}. ${err}`).join('\n');
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // Increased to 120 seconds (2 minutes)
-
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            signal: controller.signal,
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: `═══════════════════════════════════════════════════════════
-🚨 YOUR FIXED CODE IS BROKEN WITHOUT THIS FIRST LINE 🚨
-═══════════════════════════════════════════════════════════
-
-Line 1 MUST be: import React from 'react';
-Line 2: blank line
-Line 3: export default function App() {
-
-WITHOUT THE IMPORT, FIXED CODE WILL CRASH: "React is not defined"
-
-YOUR FIRST LINE OF OUTPUT:
-import React from 'react';
-
-═══════════════════════════════════════════════════════════
-
-The following React component has runtime errors. Please fix ALL the errors and return the corrected code.
-
-START YOUR FIXED CODE WITH:
-import React from 'react';
-
-ORIGINAL APP DESCRIPTION: ${originalDescription}
-
-BROKEN CODE:
-\`\`\`javascript
-${brokenCode}
-\`\`\`
-
-RUNTIME ERRORS DETECTED:
-${errorList}
-
-CRITICAL INSTRUCTIONS:
-- FIRST LINE: import React from 'react';
-- SECOND LINE: blank
-- THIRD LINE: export default function App() {
-- Fix ALL the errors listed above
-- MUST use "React.useState" and "React.useEffect" (with React prefix) for all hooks
-- Use Tailwind CSS classes for styling (no custom CSS)
-- Return ONLY the fixed JavaScript code, NO explanations or markdown
-- Do NOT write any text before the import statement
-- All brackets, parentheses, and braces MUST be properly balanced
-- All strings must be properly quoted
-- No syntax errors - the code must execute immediately
-- Make sure all variables are properly defined before use
-- Ensure all functions are defined before being called
-- Fix any typos in variable or function names
-
-TEMPLATE LITERAL RULES (CRITICAL - THIS IS LIKELY THE ERROR):
-- When using variables in className, ALWAYS use backticks around the ENTIRE string
-- CORRECT: className={\`flex gap-2 \${active ? 'bg-blue-500' : 'bg-gray-500'}\`}
-- WRONG: className={flex gap-2 \${active ? 'bg-blue-500' : 'bg-gray-500'}}
-- CORRECT: style={{ width: \`\${percentage}%\` }}
-- WRONG: style={{ width: \${percentage}% }}
-- If className has ANY \${} inside it, wrap the WHOLE string in backticks
-- Static classNames (no variables) should use regular quotes: className="flex gap-2"
-- If you see "Unexpected token" error with className, add backticks around the entire className value
-
-FORBIDDEN:
-- Do NOT use any import statements
-- Do NOT use require() statements
-- Do NOT use eval, innerHTML, or script tags
-- Do NOT use plain useState/useEffect without React prefix
-- Do NOT include markdown code blocks or backticks in your response
-- Do NOT include any explanatory text
-- Do NOT EVER write className={text \${variable}...} - this is a SYNTAX ERROR
-- NEVER use \${} without wrapping the entire string in backticks
-
-Return ONLY the complete, fixed, working code that will run without errors.`
-                }]
-              }]
-            })
-          }
+        const result = await LLMService.generateText(
+          PromptRegistry.render('react.fix', { code: brokenCode, errors, description: originalDescription }).text,
+          { timeoutMs: 120000, signal } // Increased to 120 seconds (2 minutes)
         );
 
-        clearTimeout(timeoutId);
-        const data = await response.json();
-
-        if (data.candidates && data.candidates[0]) {
-          let code = data.candidates[0].content.parts[0].text;
+        if (result.text) {
+          let code = result.text;
 
           // Clean up the code
           code = this.cleanupGeneratedCode(code);
@@ -1085,6 +832,8 @@ Return ONLY the complete, fixed, working code that will run without errors.`
           throw new Error('Failed to generate valid fixed code after all retries');
         }
       } catch (error) {
+        if (signal?.aborted) throw error;
+
         // Check if it's an abort/timeout error
         const isTimeout = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
 
@@ -1110,77 +859,27 @@ Return ONLY the complete, fixed, working code that will run without errors.`
   async updateComponent(
     currentCode: string,
     updatePrompt: string,
-    originalDescription: string
-  ): Promise<string> {
-    const apiKey = this.getApiKey();
+    originalDescription: string,
+    style?: AppStyle,
+    target?: ElementTarget,
+    signal?: AbortSignal
+  ): Promise<EditedCode> {
+    const variables = { code: currentCode, request: updatePrompt, description: originalDescription, style, target };
+    const patched = await this.patchComponent(variables, signal);
+    if (patched) return patched;
+
     const maxRetries = 2;
+    const prompt = PromptRegistry.render('react.update', variables);
 
     for (let attempt = 0; attempt < maxRetries; attempt++) {
       try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 120000); // Increased to 120 seconds (2 minutes)
-
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-preview:generateContent?key=${apiKey}`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            signal: controller.signal,
-            body: JSON.stringify({
-              contents: [{
-                parts: [{
-                  text: `═══════════════════════════════════════════════════════════
-🚨 YOUR CODE IS BROKEN WITHOUT THIS FIRST LINE 🚨
-═══════════════════════════════════════════════════════════
-
-Line 1 MUST be: import React from 'react';
-Line 2: blank line
-Line 3: export default function App() {
-
-WITHOUT THE IMPORT, CODE WILL CRASH: "React is not defined"
-
-YOUR FIRST LINE OF OUTPUT:
-import React from 'react';
-
-═══════════════════════════════════════════════════════════
-
-You are updating an existing React component. Keep all existing functionality and add the requested features.
-
-ORIGINAL APP DESCRIPTION: ${originalDescription}
-
-CURRENT CODE:
-\`\`\`javascript
-${currentCode}
-\`\`\`
-
-UPDATE REQUEST:
-${updatePrompt}
-
-INSTRUCTIONS:
-1. FIRST LINE: import React from 'react';
-2. SECOND LINE: blank
-3. THIRD LINE: export default function App() {
-4. Keep ALL existing functionality from the current code
-5. Add the requested features described in the update request
-6. Use React.useState, React.useEffect (with React prefix) for all hooks
-7. Use Tailwind CSS classes for styling
-8. Return ONLY the updated JavaScript code, NO explanations
-9. Make sure the updated component is fully functional
-
-Return ONLY the complete, updated, working code.`
-                }]
-              }]
-            })
-          }
+        const result = await LLMService.generateText(
+          prompt.text,
+          { timeoutMs: 120000, signal } // Increased to 120 seconds (2 minutes)
         );
 
-        clearTimeout(timeoutId);
-        const data = await response.json();
-
-        if (data.candidates && data.candidates[0]) {
-          let code = data.candidates[0].content.parts[0].text;
+        if (result.text) {
+          let code = result.text;
 
           // Clean up the code
           code = this.cleanupGeneratedCode(code);
@@ -1188,7 +887,7 @@ Return ONLY the complete, updated, working code.`
           // Validate the updated code
           if (this.validateGeneratedCode(code)) {
             logger.success(`Successfully updated component on attempt ${attempt + 1}`);
-            return code;
+            return { code, promptTemplate: prompt.ref };
           } else if (attempt < maxRetries - 1) {
             logger.warn(`Updated code invalid on attempt ${attempt + 1}, retrying`);
             continue;
@@ -1199,6 +898,8 @@ Return ONLY the complete, updated, working code.`
           throw new Error('Failed to generate valid updated code after all retries');
         }
       } catch (error) {
+        if (signal?.aborted) throw error;
+
         // Check if it's an abort/timeout error
         const isTimeout = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
 
@@ -1220,6 +921,42 @@ Return ONLY the complete, updated, working code.`
 
     throw new Error('Failed to update component after all retry attempts');
   }
+
+  /**
+   * Ask for search/replace blocks and apply them here. Returns null, so the
+   * caller regenerates the whole component, when the request fails, the
+   * blocks do not fit the code or the patched code does not validate.
+   */
+  private async patchComponent(variables: PromptVariables['react.patch'], signal?: AbortSignal): Promise<EditedCode | null> {
+    const prompt = PromptRegistry.render('react.patch', variables);
+
+    try {
+      const result = await LLMService.generateText(prompt.text, { timeoutMs: 120000, signal });
+      const blocks = PatchApplier.parse(result.text);
+
+      // A model that ignored the protocol and sent the whole component saves the second request
+      let code = result.text;
+      if (blocks.length > 0) {
+        const patch = PatchApplier.apply(variables.code, blocks);
+        if (patch.conflicts.length > 0) {
+          logger.warn('Edit blocks did not apply, regenerating the whole component', patch.conflicts.map(conflict => PatchApplier.describe(conflict)));
+          return null;
+        }
+        code = patch.code;
+      }
+
+      code = this.cleanupGeneratedCode(code);
+      if (this.validateGeneratedCode(code)) {
+        logger.success(blocks.length > 0 ? `Applied ${blocks.length} edit block(s) to the component` : 'Model returned the whole component');
+        return { code, promptTemplate: prompt.ref };
+      }
+      logger.warn('Patched component failed validation, regenerating the whole component');
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      logger.warn('Edit block request failed, regenerating the whole component', error);
+    }
+    return null;
+  }
 }
 
 export const GeminiService = new GeminiServiceClass();
@@ -0,0 +1,186 @@
+import { logger } from '../utils/logger';
+
+export type JobKind = 'generate' | 'edit' | 'repair';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Code streamed so far by a generation, for the live preview
+ */
+export interface JobPreview {
+  code: string;
+  bytesReceived: number;
+  startedAt: number;
+}
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  title: string;
+  /** App the job works on; set by a generation once the app has an id */
+  appId?: string;
+  status: JobStatus;
+  /** What the job is doing right now, e.g. 'Developing logic' */
+  step: string;
+  /** 0-100, when the job can tell */
+  progress?: number;
+  iconUrl?: string;
+  preview?: JobPreview;
+  /** What a finished job produced, e.g. 'Added to your apps' */
+  outcome?: string;
+  error?: string;
+  createdAt: number;
+  finishedAt?: number;
+}
+
+export type JobUpdate = Partial<Pick<Job, 'title' | 'appId' | 'step' | 'progress' | 'iconUrl' | 'preview'>>;
+
+export interface JobContext {
+  /** Aborted when the job is cancelled; pass it to every model call */
+  signal: AbortSignal;
+  report(update: JobUpdate): void;
+}
+
+/**
+ * The work behind a job. It resolves with the outcome shown in the tray and
+ * throws to fail; anything it throws after cancellation counts as cancelled,
+ * while resolving counts as success even if the job was cancelled meanwhile.
+ */
+export type JobTask = (context: JobContext) => Promise<string | void>;
+
+export interface JobOptions {
+  appId?: string;
+  /** Leave the tray as soon as the job succeeds, for routine background work */
+  transient?: boolean;
+}
+
+export const isActiveJob = (job: Job): boolean => job.status === 'queued' || job.status === 'running';
+
+interface PendingTask {
+  task: JobTask;
+  options: JobOptions;
+  controller: AbortController;
+}
+
+// Model calls are network-bound, but more than this at once mostly hits provider rate limits
+const MAX_RUNNING_JOBS = 2;
+
+/**
+ * Runs generations, edits and repairs outside any component, so they keep
+ * going while the user closes modals or switches pages. Jobs past the
+ * concurrency limit wait in order, and jobs for the same app run one after
+ * another so none works on code another is about to replace. Any job can be
+ * cancelled.
+ */
+class JobManagerClass {
+  private jobs: Job[] = [];
+  // Tasks of the jobs that are queued or running
+  private tasks = new Map<string, PendingTask>();
+  private listeners = new Set<(jobs: Job[]) => void>();
+
+  getJobs(): Job[] {
+    return this.jobs;
+  }
+
+  /**
+   * Called with the full job list whenever any job changes; returns the unsubscribe function
+   */
+  subscribe(listener: (jobs: Job[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  enqueue(kind: JobKind, title: string, task: JobTask, options: JobOptions = {}): string {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.jobs = [...this.jobs, { id, kind, title, appId: options.appId, status: 'queued', step: 'Waiting', createdAt: Date.now() }];
+    this.tasks.set(id, { task, options, controller: new AbortController() });
+    this.emit();
+    this.startNext();
+    return id;
+  }
+
+  cancel(id: string): void {
+    const job = this.jobs.find(candidate => candidate.id === id);
+    const entry = this.tasks.get(id);
+    if (!job || !entry) return;
+
+    entry.controller.abort();
+    // A running job settles as cancelled once its task notices the signal
+    if (job.status === 'queued') {
+      this.tasks.delete(id);
+      this.finish(id, { status: 'cancelled' });
+    }
+  }
+
+  /**
+   * Remove a finished job from the list
+   */
+  dismiss(id: string): void {
+    if (this.tasks.has(id)) return;
+    this.jobs = this.jobs.filter(job => job.id !== id);
+    this.emit();
+  }
+
+  isBusy(appId: string): boolean {
+    return this.jobs.some(job => job.appId === appId && isActiveJob(job));
+  }
+
+  private startNext(): void {
+    const running = this.jobs.filter(job => job.status === 'running');
+    const busyApps = new Set(running.map(job => job.appId));
+    const next = this.jobs.find(job => job.status === 'queued' && !(job.appId && busyApps.has(job.appId)));
+    const pending = next && this.tasks.get(next.id);
+    if (!next || !pending || running.length >= MAX_RUNNING_JOBS) return;
+
+    this.update(next.id, { status: 'running', step: 'Starting' });
+    this.run(next.id, pending);
+    this.startNext();
+  }
+
+  private async run(id: string, { task, options, controller }: PendingTask): Promise<void> {
+    const context: JobContext = {
+      signal: controller.signal,
+      report: update => {
+        if (!controller.signal.aborted) this.update(id, update);
+      }
+    };
+
+    let result: Pick<Job, 'status' | 'outcome' | 'error'>;
+    try {
+      const outcome = await task(context);
+      result = { status: 'succeeded', outcome: outcome || undefined };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        result = { status: 'cancelled' };
+      } else {
+        logger.error(`Job ${id} failed`, error);
+        result = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }
+
+    this.tasks.delete(id);
+    if (result.status === 'succeeded' && options.transient) {
+      this.dismiss(id);
+    } else {
+      this.finish(id, result);
+    }
+    this.startNext();
+  }
+
+  private finish(id: string, changes: Pick<Job, 'status'> & Partial<Job>): void {
+    this.update(id, { ...changes, step: '', finishedAt: Date.now() });
+  }
+
+  private update(id: string, changes: Partial<Job>): void {
+    this.jobs = this.jobs.map(job => (job.id === id ? { ...job, ...changes } : job));
+    this.emit();
+  }
+
+  private emit(): void {
+    this.listeners.forEach(listener => listener(this.jobs));
+  }
+}
+
+export const JobManager = new JobManagerClass();
@@ -0,0 +1,46 @@
+import { logger } from '../utils/logger';
+import {
+  GenerateOptions,
+  GenerateResult,
+  LLMInput,
+  LLMProvider,
+  StreamChunkHandler
+} from './providers/types';
+import { createProvider, loadProviderSettings } from './providers/providerSettings';
+
+/**
+ * Entry point for all model calls.
+ * Resolves the provider selected in Settings on every request so a change
+ * takes effect immediately without reloading the page.
+ */
+class LLMServiceClass {
+  getProvider(): LLMProvider {
+    return createProvider(loadProviderSettings());
+  }
+
+  async generateText(input: LLMInput, options?: GenerateOptions): Promise<GenerateResult> {
+    const provider = this.getProvider();
+    const startTime = Date.now();
+    const result = await provider.generateText(input, options);
+    logger.perf(`${provider.label} (${provider.model}) generateText`, Date.now() - startTime);
+    return result;
+  }
+
+  async streamText(input: LLMInput, onChunk: StreamChunkHandler, options?: GenerateOptions): Promise<GenerateResult> {
+    const provider = this.getProvider();
+    const startTime = Date.now();
+    const result = await provider.streamText(input, onChunk, options);
+    logger.perf(`${provider.label} (${provider.model}) streamText`, Date.now() - startTime);
+    return result;
+  }
+
+  async generateJSON<T>(input: LLMInput, options?: GenerateOptions): Promise<T> {
+    const provider = this.getProvider();
+    const startTime = Date.now();
+    const result = await provider.generateJSON<T>(input, options);
+    logger.perf(`${provider.label} (${provider.model}) generateJSON`, Date.now() - startTime);
+    return result;
+  }
+}
+
+export const LLMService = new LLMServiceClass();
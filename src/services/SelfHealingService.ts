@@ -0,0 +1,134 @@
+import { AppTestStatus, VantageApp } from '../models/VantageApp';
+import { AppValidator } from '../utils/AppValidator';
+import { codeRepairEngine } from '../utils/CodeRepairEngine';
+import { RuntimeTestResult, RuntimeTester } from '../utils/RuntimeTester';
+import { logger } from '../utils/logger';
+import { GeminiService } from './GeminiService';
+import { PromptRegistry } from './prompts/PromptRegistry';
+import { PromptRef } from './prompts/types';
+import { loadSecurityPolicy } from './securityPolicy';
+
+/** Model repair rounds after the first test, so a failing app costs at most this many LLM calls */
+export const MAX_HEAL_ATTEMPTS = 2;
+
+/**
+ * One pass through the loop: local fixes, a runtime test and, when the test
+ * failed and attempts remain, a model repair feeding the next pass
+ */
+export interface HealAttempt {
+  attempt: number;
+  /** Local fixers changed the code before it was tested */
+  localFixes: boolean;
+  passed: boolean;
+  errors: string[];
+  /** The model was asked to repair the code after this attempt */
+  modelFix: boolean;
+}
+
+export interface HealResult {
+  /** Passing code if the loop succeeded, otherwise the original code */
+  code: string;
+  passed: boolean;
+  errors: string[];
+  attempts: HealAttempt[];
+  /** Repair template behind the passing code, if the model changed it */
+  promptTemplate?: PromptRef;
+}
+
+export interface HealOptions {
+  maxAttempts?: number;
+  /** Errors already seen outside the loop, e.g. reported by the viewer */
+  knownErrors?: string[];
+  onStatus?: (status: AppTestStatus) => void;
+  /** Stops the loop between steps and aborts a model repair in flight */
+  signal?: AbortSignal;
+}
+
+const unique = (errors: string[]): string[] => Array.from(new Set(errors));
+
+/**
+ * Bounded repair loop for generated apps. Each attempt applies the cheap
+ * local fixers, runtime-tests the result and, if it still fails, hands the
+ * collected errors to the model for the next attempt.
+ */
+class SelfHealingServiceClass {
+  async heal(app: VantageApp, options: HealOptions = {}): Promise<HealResult> {
+    const { maxAttempts = MAX_HEAL_ATTEMPTS, knownErrors = [], onStatus, signal } = options;
+    const attempts: HealAttempt[] = [];
+
+    let code = app.code;
+    let errors: string[] = [];
+    let promptTemplate: PromptRef | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts + 1; attempt++) {
+      signal?.throwIfAborted();
+      const fixedCode = this.applyLocalFixes(app, code);
+
+      onStatus?.('testing');
+      const run = await this.runTest(app, fixedCode);
+      const validation = AppValidator.validateApp({ ...app, code: fixedCode }, loadSecurityPolicy());
+      // What the viewer saw is still worth telling the model on the first round
+      errors = unique([...(attempt === 1 ? knownErrors : []), ...validation.errors, ...run.errors]);
+
+      const record: HealAttempt = {
+        attempt,
+        localFixes: fixedCode !== code,
+        passed: run.success,
+        errors: run.success ? [] : errors,
+        modelFix: false
+      };
+      attempts.push(record);
+
+      if (run.success) {
+        logger.success(`Heal attempt ${attempt} passed for ${app.name}`);
+        return { code: fixedCode, passed: true, errors: [], attempts, promptTemplate };
+      }
+      logger.warn(`Heal attempt ${attempt} failed for ${app.name}`, errors);
+
+      if (attempt > maxAttempts) break;
+
+      try {
+        onStatus?.('healing');
+        record.modelFix = true;
+        promptTemplate = PromptRegistry.ref(`${app.kind}.fix` as const);
+        code = app.kind === 'react'
+          ? await GeminiService.fixBrokenComponent(fixedCode, errors, app.description, signal)
+          : await GeminiService.fixBrokenHtmlApp(fixedCode, errors, app.description, signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        logger.error(`Model repair failed for ${app.name}`, error);
+        break;
+      }
+    }
+
+    logger.warn(`Giving up on ${app.name} after ${attempts.length} attempt(s)`);
+    return { code: app.code, passed: false, errors, attempts };
+  }
+
+  /**
+   * Revision note for code that changed during a successful heal
+   */
+  describeRepair(attempts: HealAttempt[]): string {
+    const modelRounds = attempts.filter(attempt => attempt.modelFix).length;
+    if (modelRounds === 0) return 'Automatic repair: local fixes';
+
+    const firstError = attempts[0].errors[0];
+    const rounds = `${modelRounds} model round${modelRounds === 1 ? '' : 's'}`;
+    return firstError ? `Automatic repair (${rounds}): ${firstError}` : `Automatic repair (${rounds})`;
+  }
+
+  /**
+   * Deterministic repairs for known generator mistakes. They target JSX, so
+   * HTML apps go straight to the runtime test.
+   */
+  private applyLocalFixes(app: VantageApp, code: string): string {
+    if (app.kind !== 'react') return code;
+    return codeRepairEngine.repair(code).fixedCode;
+  }
+
+  private runTest(app: VantageApp, code: string): Promise<RuntimeTestResult> {
+    return app.kind === 'react' ? RuntimeTester.testComponent(code) : RuntimeTester.testHtmlApp(code);
+  }
+}
+
+export const SelfHealingService = new SelfHealingServiceClass();
@@ -0,0 +1,74 @@
+import { AnyPromptTemplate, PromptId, PromptRef, PromptTemplate, PromptVariables, RenderedPrompt } from './types';
+import { APP_TEMPLATES } from './appTemplates';
+import { HTML_TEMPLATES } from './htmlTemplates';
+import { REACT_TEMPLATES } from './reactTemplates';
+
+/**
+ * Every prompt template, all versions. The latest version of a template is
+ * used unless another one is pinned, e.g. to A/B a new wording against the
+ * old one or to reproduce an app from the version recorded on it.
+ */
+class PromptRegistryClass {
+  private templates = new Map<PromptId, AnyPromptTemplate[]>();
+  private pinned = new Map<PromptId, number>();
+
+  constructor(templates: AnyPromptTemplate[]) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: AnyPromptTemplate): void {
+    const versions = (this.templates.get(template.id) || []).filter(existing => existing.version !== template.version);
+    versions.push(template);
+    this.templates.set(template.id, versions.sort((a, b) => a.version - b.version));
+  }
+
+  versions(id: PromptId): number[] {
+    return (this.templates.get(id) || []).map(template => template.version);
+  }
+
+  /**
+   * Use `version` of a template until unpinned; omit it to go back to the latest
+   */
+  pin(id: PromptId, version?: number): void {
+    if (version === undefined) {
+      this.pinned.delete(id);
+      return;
+    }
+    if (!this.versions(id).includes(version)) {
+      throw new Error(`Prompt template ${id} has no version ${version}`);
+    }
+    this.pinned.set(id, version);
+  }
+
+  /**
+   * The version render() would use right now
+   */
+  ref(id: PromptId): PromptRef {
+    return { id, version: this.get(id).version };
+  }
+
+  render<Id extends PromptId>(id: Id, variables: PromptVariables[Id], version?: number): RenderedPrompt {
+    const template = this.get(id, version) as unknown as PromptTemplate<Id>;
+    return {
+      text: template.render(variables),
+      ref: { id, version: template.version }
+    };
+  }
+
+  format(ref: PromptRef): string {
+    return `${ref.id}@v${ref.version}`;
+  }
+
+  private get(id: PromptId, version = this.pinned.get(id)): AnyPromptTemplate {
+    const versions = this.templates.get(id) || [];
+    const template = version === undefined
+      ? versions[versions.length - 1]
+      : versions.find(candidate => candidate.version === version);
+    if (!template) {
+      throw new Error(`Unknown prompt template ${version === undefined ? id : `${id}@v${version}`}`);
+    }
+    return template;
+  }
+}
+
+export const PromptRegistry = new PromptRegistryClass([...APP_TEMPLATES, ...HTML_TEMPLATES, ...REACT_TEMPLATES]);
@@ -0,0 +1,41 @@
+import { AnyPromptTemplate } from './types';
+
+export const APP_TEMPLATES: AnyPromptTemplate[] = [
+  {
+    id: 'app.ideas',
+    version: 1,
+    description: 'Ideas for the create dialog',
+    render: ({ count }) => `Generate ${count} creative mini-app ideas suitable for a productivity dashboard. Each app should be simple and achievable with React components. Return ONLY a JSON array with this exact format: [{"name": "App Name", "description": "Brief description"}]. No other text or explanation.`
+  },
+  {
+    id: 'app.info',
+    version: 1,
+    description: 'Name and short description for a new app, as JSON',
+    render: ({ idea }) => `Based on this app idea: "${idea}", generate a catchy app name and brief description. Return ONLY a JSON object with this exact format: {"name": "App Name", "description": "Brief description"}. No other text.`
+  },
+  {
+    id: 'app.enhance',
+    version: 1,
+    description: 'Turns a short app idea into a detailed generation prompt',
+    render: ({ idea }) => `You are a creative prompt enhancer for generating interactive web apps. Take this basic app idea and transform it into a vivid, detailed, creative prompt that will result in a stunning, interactive web application.
+
+Original idea: "${idea}"
+
+Transform this into a bold, creative, detailed prompt that includes:
+- Specific visual style (e.g., neon, retro, minimalist, aesthetic, cosmic, synthwave, vaporwave)
+- Interactive elements and animations (particles, transitions, hover effects, smooth animations)
+- Color schemes and visual effects (gradients, glows, shadows, filters)
+- User interactions (drag-drop, click effects, keyboard controls, gestures)
+- Unique features that make it memorable and fun
+- Modern, trendy design elements
+
+Examples of good enhancements:
+- "timer" → "Stunning pomodoro timer with animated synthwave aesthetics, neon grid backgrounds, sunset gradients, and satisfying completion effects"
+- "photo editor" → "Interactive photo booth that transforms images into retro Polaroid-style strips with vintage filters, customizable poses, and nostalgic white frames"
+- "note app" → "Aesthetic note-taking app with gradient backgrounds, smooth card animations, drag-to-reorder, and beautiful typography with auto-save sparkle effects"
+
+Be creative and bold! Think about what would make someone say "wow, this is cool!"
+
+Return ONLY the enhanced prompt, no explanations or quotation marks.`
+  }
+];
@@ -0,0 +1,105 @@
+import { AppKind } from '../../models/VantageApp';
+import { AppStyle, getStylePreset } from '../../models/StylePreset';
+import { ElementTarget } from '../../models/ElementTarget';
+
+/**
+ * Wording shared by several templates, so a rule reads the same everywhere
+ */
+
+export const reactFirstLineBanner = (subject: string): string => `═══════════════════════════════════════════════════════════
+🚨 YOUR ${subject} IS BROKEN WITHOUT THIS FIRST LINE 🚨
+═══════════════════════════════════════════════════════════
+
+Line 1 MUST be: import React from 'react';
+Line 2: blank line
+Line 3: export default function App() {
+
+WITHOUT THE IMPORT, ${subject} WILL CRASH: "React is not defined"
+
+YOUR FIRST LINE OF OUTPUT:
+import React from 'react';
+
+═══════════════════════════════════════════════════════════`;
+
+export const IMAGE_MANIPULATION_RULES = `IMAGE MANIPULATION REQUIREMENTS (if the app involves uploading, editing, or manipulating images):
+- MUST use HTML5 Canvas API for all image manipulation
+- Use canvas.getContext('2d') for drawing and image processing
+- For filters/effects, manipulate pixel data using getImageData() and putImageData()
+- Example pattern: canvas.drawImage() -> getImageData() -> modify pixels -> putImageData()
+- DO NOT use CSS filters alone for image editing (CSS is OK for UI effects only)
+- Provide download functionality using canvas.toDataURL() or canvas.toBlob()`;
+
+/**
+ * The edit-block protocol; PatchApplier parses and applies the blocks
+ */
+export const PATCH_FORMAT_RULES = `EDIT BLOCKS:
+Describe every change as one or more blocks in exactly this format:
+<<<<<<< SEARCH
+lines copied from the current code
+=======
+the lines that replace them
+>>>>>>> REPLACE
+
+- SEARCH must match the current code exactly, character for character, including indentation
+- Each SEARCH must match only one place in the code; add a neighbouring line if it would match more
+- Keep blocks small: a few lines around each change, never the whole file
+- Blocks are applied in order and must not overlap
+- To insert code, SEARCH for the line next to the insertion point and repeat it in REPLACE with the new lines
+- To delete code, leave REPLACE empty`;
+
+/**
+ * Follow-up for an output that was cut off; `tail` is the end of the text so far
+ */
+export const continuePrompt = (tail: string, ending: string): string => `Your previous reply was cut off before the code was finished.
+Continue EXACTLY where it stopped. The reply so far ended with:
+
+${tail}
+
+- Output ONLY the rest of the code, starting with the very next character after the text above
+- Do NOT repeat anything already written, do NOT start over, and do NOT add explanations or markdown fences
+- Finish the code completely, ${ending}`;
+
+export const numberedList = (items: string[]): string => items.map((item, idx) => `${idx + 1}. ${item}`).join('\n');
+
+/**
+ * Tokens and component rules for the app's style. Presets without a palette
+ * leave colour to the model; the rest are held to it by the validator.
+ */
+export const styleGuide = (style: AppStyle, kind: AppKind): string => {
+  const preset = getStylePreset(style.preset);
+  const tokens = Object.entries(preset.colors);
+  const lines = [`STYLE GUIDE - ${preset.label.toUpperCase()}:`];
+
+  if (style.preset === 'custom' ? style.palette.length > 0 : tokens.length > 0) {
+    lines.push('Colour tokens - use ONLY these colours, plus white, black and neutral greys:');
+    lines.push(...(style.preset === 'custom'
+      ? style.palette.map((color, idx) => `- color-${idx + 1}: ${color}`)
+      : tokens.map(([name, color]) => `- ${name}: ${color}`)));
+    lines.push(kind === 'html'
+      ? '- Declare the tokens as CSS custom properties on :root and use var(--name) everywhere'
+      : '- Use arbitrary Tailwind values for tokens, e.g. bg-[#0072CE]' +
+        (style.tailwindColors.length ? `; the only named Tailwind colours allowed are gray and ${style.tailwindColors.join(', ')}` : ''));
+  }
+  if (preset.typography) lines.push(`Typography: ${preset.typography}`);
+  if (preset.rules.length) {
+    lines.push('Component rules:', ...preset.rules.map(rule => `- ${rule}`));
+  }
+  if (style.notes) lines.push('Additional rules:', style.notes);
+
+  return lines.join('\n');
+};
+
+/**
+ * The element the user picked in the running app. React apps report rendered
+ * DOM, so the model is told to find the JSX that produces it.
+ */
+export const targetElement = (target: ElementTarget, kind: AppKind): string => {
+  const styles = Object.entries(target.styles).map(([name, value]) => `${name}: ${value}`).join('; ');
+  return `TARGET ELEMENT - the user picked this element in the running app; "this", "it" and similar words refer to it:
+- Selector in the rendered page: ${target.selector}
+- Computed styles: ${styles || 'not captured'}
+- Rendered markup:
+${target.outerHTML}
+
+Apply the request to this element${kind === 'react' ? ' (find the JSX that renders it)' : ''} and only change the rest of the app where the change requires it.`;
+};
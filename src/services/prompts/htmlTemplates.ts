@@ -0,0 +1,285 @@
+import { AnyPromptTemplate } from './types';
+import { AppStyle } from '../../models/StylePreset';
+import { IMAGE_MANIPULATION_RULES, PATCH_FORMAT_RULES, continuePrompt, numberedList, styleGuide, targetElement } from './fragments';
+
+// Version 2 of the refinement template adds the picked element where `focus` sits
+const refinePrompt = (code: string, request: string, style: AppStyle | undefined, focus: string): string => `You are editing an existing HTML application in a conversation with its user.
+The earlier messages are the conversation so far; the page below already includes every change made in it.
+
+CURRENT CODE:
+${code}
+
+User's latest message: ${request}${focus}
+
+HOW TO REPLY - choose exactly one:
+1. If the request is clear, apply it. Reply with one or two sentences saying what you changed, then the
+   COMPLETE updated page in a single \`\`\`html code block.
+2. If the request is ambiguous or could break the app in ways the user may not want, do not change anything.
+   Reply with a single line starting with "QUESTION:" asking what you need to know. Include no code.
+
+${style ? styleGuide(style, 'html') : 'STYLE:\n- Keep the existing look and palette consistent'}
+
+TECHNICAL REQUIREMENTS:
+- The page starts with <!DOCTYPE html>
+- Keep all CSS in a <style> tag in the <head>
+- Keep all JavaScript in a <script> tag before closing </body>
+- Maintain the app's existing functionality unless the user asks to change it
+- No external dependencies or imports
+- Keep the <meta name="vantage-capabilities"> tag in sync: list every one of network, clipboard, camera,
+  downloads or storage the updated page needs
+
+${IMAGE_MANIPULATION_RULES}
+
+CRITICAL - NO BROWSER DEFAULTS:
+- NEVER use alert(), confirm(), or prompt() functions
+- Instead, create custom modal dialogs styled to match the rest of the app`;
+
+export const HTML_TEMPLATES: AnyPromptTemplate[] = [
+  {
+    id: 'html.generate',
+    version: 1,
+    description: 'A new self-contained HTML app',
+    render: ({ description }) => `Generate a complete, self-contained HTML page with inline CSS and JavaScript for: ${description}
+
+VISUAL STYLE & DESIGN:
+- Make it STUNNING and MODERN with bold design choices
+- Use eye-catching color gradients, glows, shadows, and visual effects
+- Add smooth, satisfying animations and transitions (fade, slide, scale, bounce, etc.)
+- Include hover effects, active states, and micro-interactions
+- Use modern CSS features: backdrop-filter, box-shadow, gradients, transforms
+- Consider aesthetic styles: synthwave, vaporwave, glassmorphism, neumorphism, minimalist, retro, neon, cosmic, etc.
+
+INTERACTIVITY:
+- Make it highly interactive and responsive to user actions
+- Add particle effects, visual feedback, and satisfying click/hover animations
+- Include keyboard shortcuts where appropriate
+- Smooth state transitions and loading animations
+- Add sound effects or visual cues for important actions
+
+TECHNICAL REQUIREMENTS:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Include all CSS in a <style> tag in the <head>
+- Include all JavaScript in a <script> tag before closing </body>
+- No external dependencies or imports
+- The code should run immediately when loaded
+- Make it mobile-friendly and responsive
+- The page runs in a locked-down sandbox. If it needs any of network, clipboard, camera, downloads or storage
+  (saved data), declare them in the <head>, e.g. <meta name="vantage-capabilities" content="storage, downloads">
+
+${IMAGE_MANIPULATION_RULES}
+
+CRITICAL - NO BROWSER DEFAULTS:
+- NEVER use alert(), confirm(), or prompt() functions
+- Instead, create custom modal dialogs with HTML/CSS/JavaScript
+- Custom modals should have:
+  * Beautiful, modern styling with backdrop blur or dark overlay (use backdrop-filter: blur())
+  * Smooth fade-in/fade-out animations with CSS transitions
+  * Rounded corners, shadows, and polished design
+  * Styled buttons that match the app's aesthetic
+  * Perfect centering with flexbox
+  * Close button with smooth hover effect
+- Example modal structure: <div class="modal-overlay"><div class="modal-content">...</div></div>
+
+INSPIRATION:
+Think dribbble.com, behance.net level quality. Make something people would want to screenshot and share!
+
+Return only the HTML code, no explanations or markdown.`
+  },
+  {
+    id: 'html.generate',
+    version: 2,
+    description: 'A new self-contained HTML app, following the chosen style preset',
+    render: ({ description, style }) => `Generate a complete, self-contained HTML page with inline CSS and JavaScript for: ${description}
+
+${styleGuide(style, 'html')}
+
+INTERACTIVITY:
+- Make it interactive and responsive to user actions
+- Give visual feedback for clicks, hovers and state changes, in the manner the style guide allows
+- Include keyboard shortcuts where appropriate
+
+TECHNICAL REQUIREMENTS:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Include all CSS in a <style> tag in the <head>
+- Include all JavaScript in a <script> tag before closing </body>
+- No external dependencies or imports
+- The code should run immediately when loaded
+- Make it mobile-friendly and responsive
+- The page runs in a locked-down sandbox. If it needs any of network, clipboard, camera, downloads or storage
+  (saved data), declare them in the <head>, e.g. <meta name="vantage-capabilities" content="storage, downloads">
+
+${IMAGE_MANIPULATION_RULES}
+
+CRITICAL - NO BROWSER DEFAULTS:
+- NEVER use alert(), confirm(), or prompt() functions
+- Instead, create custom modal dialogs with HTML/CSS/JavaScript
+- Style modals with the style guide's tokens and rules: an overlay, a centred panel, styled buttons and a close button
+- Example modal structure: <div class="modal-overlay"><div class="modal-content">...</div></div>
+
+Return only the HTML code, no explanations or markdown.`
+  },
+  {
+    id: 'html.update',
+    version: 1,
+    description: 'An edit request applied to an existing HTML app',
+    render: ({ code, request }) => `You are editing an existing HTML application. Here is the current code:
+
+${code}
+
+User's edit request: ${request}
+
+Generate the COMPLETE updated HTML code with the requested changes applied.
+
+WHEN APPLYING CHANGES:
+- Make improvements BOLD and VISUALLY STRIKING
+- If adding features, make them aesthetic with smooth animations
+- Enhance with gradients, glows, shadows, and modern effects
+- Add satisfying micro-interactions and hover effects
+- Keep the existing style consistent while making it even better
+- Add particle effects or visual flourishes where appropriate
+
+TECHNICAL REQUIREMENTS:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Keep all CSS in a <style> tag in the <head>
+- Keep all JavaScript in a <script> tag before closing </body>
+- Maintain the app's existing functionality unless explicitly asked to change it
+- Apply the user's requested changes with creative flair
+- No external dependencies or imports
+- Keep the <meta name="vantage-capabilities"> tag in sync: list every one of network, clipboard, camera,
+  downloads or storage the updated page needs
+
+${IMAGE_MANIPULATION_RULES}
+
+CRITICAL - NO BROWSER DEFAULTS:
+- NEVER use alert(), confirm(), or prompt() functions
+- Instead, create custom modal dialogs with beautiful styling, backdrop blur, smooth animations
+
+Return only the HTML code, no explanations or markdown.`
+  },
+  {
+    id: 'html.update',
+    version: 2,
+    description: 'An edit request applied to an existing HTML app, keeping its style preset',
+    render: ({ code, request, style }) => `You are editing an existing HTML application. Here is the current code:
+
+${code}
+
+User's edit request: ${request}
+
+Generate the COMPLETE updated HTML code with the requested changes applied.
+
+${style ? styleGuide(style, 'html') : 'STYLE:\n- Keep the existing look and palette consistent'}
+
+TECHNICAL REQUIREMENTS:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Keep all CSS in a <style> tag in the <head>
+- Keep all JavaScript in a <script> tag before closing </body>
+- Maintain the app's existing functionality unless explicitly asked to change it
+- Apply the user's requested changes within the style above
+- No external dependencies or imports
+- Keep the <meta name="vantage-capabilities"> tag in sync: list every one of network, clipboard, camera,
+  downloads or storage the updated page needs
+
+${IMAGE_MANIPULATION_RULES}
+
+CRITICAL - NO BROWSER DEFAULTS:
+- NEVER use alert(), confirm(), or prompt() functions
+- Instead, create custom modal dialogs styled to match the rest of the app
+
+Return only the HTML code, no explanations or markdown.`
+  },
+  {
+    id: 'html.fix',
+    version: 1,
+    description: 'Repair of an HTML app that failed its runtime test',
+    render: ({ code, errors, description }) => `The following HTML app failed its automated test. Fix ALL the problems and return the corrected page.
+
+ORIGINAL APP DESCRIPTION: ${description}
+
+BROKEN CODE:
+${code}
+
+PROBLEMS DETECTED:
+${numberedList(errors)}
+
+CRITICAL INSTRUCTIONS:
+- Fix every problem listed above while keeping the app's design and features
+- Make sure all variables and functions are defined before they are used
+- The page must show visible content as soon as it loads
+- NEVER use alert(), confirm() or prompt() - replace them with styled in-page modals
+- Keep the <meta name="vantage-capabilities"> tag if there is one
+
+TECHNICAL REQUIREMENTS:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Keep all CSS in a <style> tag in the <head>
+- Keep all JavaScript in a <script> tag before closing </body>
+- No external dependencies or imports
+
+Return only the HTML code, no explanations or markdown.`
+  },
+  {
+    id: 'html.refine',
+    version: 1,
+    description: 'One turn of the refinement conversation for an HTML app',
+    render: ({ code, request, style }) => refinePrompt(code, request, style, '')
+  },
+  {
+    id: 'html.refine',
+    version: 2,
+    description: 'One turn of the refinement conversation, with the element the user picked',
+    render: ({ code, request, style, target }) => refinePrompt(code, request, style, target ? `\n\n${targetElement(target, 'html')}` : '')
+  },
+  {
+    id: 'html.patch',
+    version: 1,
+    description: 'One turn of the refinement conversation, answered with edit blocks instead of the whole page',
+    render: ({ code, request, style, target }) => `You are editing an existing HTML application in a conversation with its user.
+The earlier messages are the conversation so far; the page below already includes every change made in it.
+
+CURRENT CODE:
+${code}
+
+User's latest message: ${request}${target ? `\n\n${targetElement(target, 'html')}` : ''}
+
+HOW TO REPLY - choose exactly one:
+1. If the request is clear, apply it. Reply with one or two sentences saying what you changed, then the
+   edit blocks described below. Do NOT return the whole page.
+2. If the request is ambiguous or could break the app in ways the user may not want, do not change anything.
+   Reply with a single line starting with "QUESTION:" asking what you need to know. Include no code.
+
+${PATCH_FORMAT_RULES}
+
+${style ? styleGuide(style, 'html') : 'STYLE:\n- Keep the existing look and palette consistent'}
+
+TECHNICAL REQUIREMENTS:
+- Keep all CSS in the <style> tag in the <head> and all JavaScript in the <script> tag before </body>
+- Maintain the app's existing functionality unless the user asks to change it
+- No external dependencies or imports
+- Keep the <meta name="vantage-capabilities"> tag in sync: list every one of network, clipboard, camera,
+  downloads or storage the updated page needs
+- NEVER use alert(), confirm(), or prompt(); use custom modal dialogs styled to match the rest of the app`
+  },
+  {
+    id: 'html.continue',
+    version: 1,
+    description: 'Follow-up asking for the rest of an HTML page that hit the output limit',
+    render: ({ tail }) => continuePrompt(tail, 'closing every open tag and ending with </html>')
+  },
+  {
+    id: 'html.chat',
+    version: 1,
+    description: 'Quick HTML page from the chat code mode',
+    render: ({ request }) => `Generate a complete, self-contained HTML page with inline CSS and JavaScript for: ${request}
+
+Requirements:
+- Return ONLY the complete HTML code, starting with <!DOCTYPE html>
+- Include all CSS in a <style> tag in the <head>
+- Include all JavaScript in a <script> tag before closing </body>
+- Make it interactive and visually appealing
+- Use modern, clean design
+- No external dependencies or imports
+- The code should run immediately when loaded
+
+Return only the HTML code, no explanations or markdown.`
+  }
+];
@@ -0,0 +1,397 @@
+import { AnyPromptTemplate } from './types';
+import { AppStyle } from '../../models/StylePreset';
+import { PATCH_FORMAT_RULES, continuePrompt, numberedList, reactFirstLineBanner, styleGuide, targetElement } from './fragments';
+
+// Version 1 of each template had no style guide; later versions insert it where `guide` sits
+const withGuide = (style: AppStyle | undefined, before: string, after: string): string =>
+  style ? `${before}${styleGuide(style, 'react')}${after}` : '';
+
+const generatePrompt = (description: string, guide: string): string => `${reactFirstLineBanner('CODE')}
+
+Now, create a complete, production-ready React component for: ${description}
+
+START YOUR CODE WITH:
+import React from 'react';
+
+🚨 CRITICAL REQUIREMENTS - READ CAREFULLY:
+
+📦 CODE COMPLETENESS:
+1. FIRST LINE: import React from 'react';
+2. SECOND LINE: blank line
+3. THIRD LINE: export default function App() {
+4. Do NOT write explanatory text before the import
+5. Do NOT skip the React import - CODE WILL CRASH WITHOUT IT
+6. Use React.useState, React.useEffect (with React prefix) for all hooks
+7. Ensure NO undefined variables or missing dependencies
+8. Follow React best practices and modern syntax
+9. Write self-contained, production-ready code that runs without modifications
+
+⚠️ VERIFY YOUR CODE STARTS WITH THIS EXACT SEQUENCE:
+import React from 'react';
+
+export default function App() {
+
+IF YOUR CODE DOESN'T START WITH "import React from 'react';" IT IS BROKEN.
+✓ All React hooks and methods have corresponding imports
+✓ React is imported (required for JSX)
+✓ No syntax errors or undefined references
+✓ All variables are declared before use
+✓ All functions are defined before being called
+✓ No typos in variable or function names
+
+🎯 OUTPUT FORMAT:
+- MUST begin with: import React from 'react';
+- Provide complete code file ready to copy and run
+- Use ONLY React.useState, React.useEffect syntax (with React prefix) - NEVER plain useState/useEffect
+- After imports, start with EXACTLY "export default function App() {"
+- Return ONLY valid JavaScript code, NO explanations or markdown
+
+⚠️ MANDATORY JSX/React Syntax Rules - MEMORIZE THESE PATTERNS:
+
+1. **style with percentages - backticks REQUIRED:**
+   ✅ CORRECT: style={{ width: \`\${value}%\` }}
+   ❌ WRONG: style={{ width: \${value}% }}
+
+2. **className with dynamic values - backticks REQUIRED:**
+   ✅ CORRECT: className={\`static-class \${dynamic} other-class\`}
+   ❌ WRONG: className={static-class \${dynamic} other-class}
+
+3. **Space between dynamic and static classes - REQUIRED:**
+   ✅ CORRECT: className={\`\${condition ? 'class1' : 'class2'} static-class\`}
+   ❌ WRONG: className={\`\${condition ? 'class1' : 'class2'}static-class\`}
+
+4. **String interpolation - backticks REQUIRED:**
+   ✅ CORRECT: {\`\${winner} WINS!\`}
+   ❌ WRONG: \${winner} WINS!
+
+🔧 THREE-LAYER VALIDATION PROTOCOL (Run on EVERY className/style attribute):
+
+Layer 1: The Container
+- Does prop start with className={ and end with }?
+- ERROR: className="\${variable}" ❌ (Cannot interpolate in quotes)
+- CORRECT: className={\`static \${variable}\`} ✅
+
+Layer 2: The Template Literal
+- Inside JSX braces, does string start AND end with backtick?
+- ERROR: className={static \${variable}} ❌ (Missing backticks)
+- CORRECT: className={\`static \${variable}\`} ✅
+
+Layer 3: The Interpolation (CRITICAL)
+- Every \${ MUST have matching } before next character
+- ERROR: \${variable}\` ❌ (Merged closing brace with backtick)
+- ERROR: \${variable}}\` ❌ (Extra brace)
+- CORRECT: \`\${variable}\` ✅ (Clean: backtick, dollar, brace, content, brace, backtick)
+
+WHITESPACE RULE:
+- Space BEFORE \${} when injecting into class list
+- ERROR: btn-primary\${dynamic} ❌
+- CORRECT: btn-primary \${dynamic} ✅
+
+VALIDATION CHECKLIST - Check EVERY instance:
+□ Every className with \${} starts with backtick immediately after {
+□ Every style percentage: \`\${value}%\` (% INSIDE backtick)
+□ Space before every \${} when concatenating classes
+□ Every \${ has matching } before closing backtick
+□ No merged delimiters: \${var}\` or \${var}}\`
+
+🎯 CRITICAL Requirements - THESE ARE MANDATORY:
+
+✅ Component Structure:
+- Must be a single React functional component named "App"
+- MUST use "React.useState" and "React.useEffect" (with React prefix) for all hooks
+- Include all necessary logic and UI - make it complete and self-contained
+- Use Tailwind CSS classes for styling (no custom CSS)
+- Make it interactive and fully functional
+
+✅ Code Quality:
+- Return ONLY valid JavaScript code, NO explanations or markdown
+- After the React import, start the component with EXACTLY "export default function App() {"
+- All brackets, parentheses, and braces MUST be properly balanced
+- All strings must be properly quoted with correct backticks
+- No syntax errors - the code must execute immediately without fixes
+- NO undefined variables - declare everything before use
+- NO missing functions - define all functions before calling them
+
+✅ Mathematical Operators (CRITICAL):
+    * Example: setInterval(() => setProgress(prev => Math.min(100, prev + 3)), 150)
+    * This gives: 100 units ÷ 3 per tick = ~33 ticks × 150ms = ~5 seconds total
+  - WRONG patterns that cause problems:
+    * Fast interval + large random: setInterval(() => prev + Math.random() * 15, 100) ❌ (jumpy, reaches 75% then stalls)
+    * Slow interval + tiny increment: setInterval(() => prev + 1, 1000) ❌ (takes 100 seconds!)
+    * No Math.min cap: setProgress(prev => prev + 5) ❌ (exceeds 100%)
+  - Progress MUST move evenly through ALL ranges: 0-25%, 25-50%, 50-75%, 75-100%
+  - Always use Math.min(100, prev + increment) to cap at 100%
+  - Always clear interval when reaching 100% or component unmounts
+
+CRITICAL React/JSX RULES - MUST FOLLOW TO AVOID SYNTAX ERRORS:
+
+1. **className attribute ALWAYS needs quotes or backticks:**
+   - Static classes: className="static-classes"
+   - Dynamic with \${}: className={\`dynamic \${condition ? 'class1' : 'class2'}\`}
+   - WRONG: className={dynamic classes without quotes} ❌
+
+2. **Template Literals - backticks are REQUIRED for string interpolation:**
+   - CORRECT: \`Player \${name} wins!\` ✅
+   - WRONG: Player \${name} wins! ❌ (missing backticks)
+
+3. **Dynamic className - Use backticks with \${}:**
+   - CORRECT: className={\`base-class \${isActive ? 'active' : ''}\`} ✅
+   - WRONG: className={base-class \${isActive ? 'active' : ''}} ❌ (missing backticks)
+
+4. **NEVER start template literal with \${:**
+   - WRONG: className={\${condition ? 'class' : ''}} ❌ (starts with \${, invalid syntax)
+   - CORRECT: className={condition ? 'class' : ''} ✅ (no \${}, no backticks needed)
+   - CORRECT: className={\`static \${condition ? 'class' : ''}\`} ✅ (has static text, needs backticks)
+
+5. **Units and symbols INSIDE the backticks:**
+   - CORRECT: style={{ width: \`\${percentage}%\` }} ✅
+   - WRONG: style={{ width: \`\${percentage}\`% }} ❌ (% outside backticks)
+
+6. **NEVER nest backticks:**
+   - CORRECT: className={\`text-lg \${isActive ? 'font-bold' : 'font-normal'}\`} ✅
+   - WRONG: className={\`text-lg \`\${isActive ? 'font-bold' : 'font-normal'}\`\`} ❌ (nested backticks)
+
+CRITICAL BACKTICK RULES - MOST COMMON ERRORS:
+1. Units MUST be INSIDE the backticks with the variable
+   - CORRECT: \`\${value}%\`
+   - WRONG: \`\${value}\`%
+   - CORRECT: \`\${x}px\`
+   - WRONG: \`\${x}\`px
+2. NEVER nest backticks - use ONE pair of backticks for the entire string
+   - CORRECT: className={\`text-lg \${isActive ? 'font-bold' : 'font-normal'}\`}
+   - WRONG: className={\`text-lg \`\${isActive ? 'font-bold' : 'font-normal'}\`\`}
+   - CORRECT: \`Player \${name}\`
+   - WRONG: Player\`\${name}\`
+3. ALL arithmetic operations MUST have explicit operators
+   - CORRECT: value * 2
+   - WRONG: value  2
+   - CORRECT: Math.random() * array.length
+   - WRONG: Math.random()  array.length
+   - CORRECT: energy + (1.5 * deltaTime)
+   - WRONG: energy + (1.5  deltaTime)
+
+🚫 FORBIDDEN (these will cause IMMEDIATE ERRORS):
+- ❌ Do NOT skip the React import - MUST include: import React from 'react';
+- ❌ Do NOT use other import statements besides React (import ... from ...) - they will be stripped automatically
+- ❌ Do NOT use require() statements
+- ❌ Do NOT use eval, innerHTML, dangerouslySetInnerHTML, or script tags
+- ❌ Do NOT use <style> tags or dangerouslySetInnerHTML - use inline styles or Tailwind classes only
+- ❌ Do NOT use plain useState/useEffect without React prefix - ALWAYS use React.useState
+- ❌ Do NOT include markdown code blocks or backticks in your response
+- ❌ Do NOT include any explanatory text before or after the code
+- ❌ Do NOT use export statements other than "export default function App"
+- ❌ Do NOT EVER write className={text \${variable}...} - this is a SYNTAX ERROR (missing backticks!)
+- ❌ NEVER use \${} without wrapping the entire string in backticks
+- ❌ NEVER use undefined variables - declare ALL variables with const/let before use
+- ❌ NEVER call functions before defining them
+
+✅ BEFORE RETURNING CODE - FINAL VERIFICATION CHECKLIST:
+You MUST verify your code passes ALL these checks before returning it:
+
+1. Template Literal Syntax:
+   ✓ No nested backticks within template literals (use ONE pair of backticks for entire string)
+   ✓ All \${} expressions are wrapped in backticks
+   ✓ Percent signs and units (%, px, etc.) are INSIDE the template literal closing backtick
+   ✓ className uses single template literal with \${} interpolation, not nested backticks
+
+2. Mathematical Operators:
+   ✓ All math operations have explicit operators (*, +, -, /)
+   ✓ No spaces between numbers where operators should be
+
+3. Variables and Functions:
+   ✓ All variables declared with const/let before use
+   ✓ All functions defined before being called
+   ✓ No typos in variable or function names
+   ✓ All React hooks use React.useState/React.useEffect syntax
+
+4. Code Completeness:
+   ✓ No syntax errors - code must execute immediately without fixes
+   ✓ No undefined references
+   ✓ All brackets properly balanced
+   ✓ Component is complete and self-contained
+
+Generate syntactically correct code that will run without errors.
+
+${guide}📋 Example CORRECT format (COPY THIS STRUCTURE):
+
+import React from 'react';
+
+export default function App() {
+  const [count, setCount] = React.useState(0);
+
+  React.useEffect(() => {
+    console.log('Component mounted');
+  }, []);
+
+  return (
+    <div className="p-6 max-w-md mx-auto">
+      <h1 className="text-2xl font-bold mb-4">Counter: {count}</h1>
+      <button
+        onClick={() => setCount(count + 1)}
+        className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+      >
+        Increment
+      </button>
+    </div>
+  );
+}
+
+⚠️ CRITICAL: Your code MUST start with "import React from 'react';" followed by the component.
+
+Now create the component for: ${description}`;
+
+const updatePrompt = (code: string, request: string, description: string, guide: string, focus = ''): string => `${reactFirstLineBanner('CODE')}
+
+You are updating an existing React component. Keep all existing functionality and add the requested features.
+
+ORIGINAL APP DESCRIPTION: ${description}
+
+CURRENT CODE:
+\`\`\`javascript
+${code}
+\`\`\`
+
+UPDATE REQUEST:
+${request}${focus}
+
+INSTRUCTIONS:
+1. FIRST LINE: import React from 'react';
+2. SECOND LINE: blank
+3. THIRD LINE: export default function App() {
+4. Keep ALL existing functionality from the current code
+5. Add the requested features described in the update request
+6. Use React.useState, React.useEffect (with React prefix) for all hooks
+7. Use Tailwind CSS classes for styling
+8. Return ONLY the updated JavaScript code, NO explanations
+9. Make sure the updated component is fully functional
+${guide}
+Return ONLY the complete, updated, working code.`;
+
+export const REACT_TEMPLATES: AnyPromptTemplate[] = [
+  {
+    id: 'react.generate',
+    version: 1,
+    description: 'A new single-component React app',
+    render: ({ description }) => generatePrompt(description, '')
+  },
+  {
+    id: 'react.generate',
+    version: 2,
+    description: 'A new single-component React app, following the chosen style preset',
+    render: ({ description, style }) => generatePrompt(description, withGuide(style, '', '\n\n'))
+  },
+  {
+    id: 'react.update',
+    version: 1,
+    description: 'An update request applied to an existing React app',
+    render: ({ code, request, description }) => updatePrompt(code, request, description, '')
+  },
+  {
+    id: 'react.update',
+    version: 2,
+    description: 'An update request applied to an existing React app, keeping its style preset',
+    render: ({ code, request, description, style }) => updatePrompt(code, request, description, withGuide(style, '\n', '\n'))
+  },
+  {
+    id: 'react.update',
+    version: 3,
+    description: 'An update request applied to an existing React app, with the element the user picked',
+    render: ({ code, request, description, style, target }) => updatePrompt(
+      code,
+      request,
+      description,
+      withGuide(style, '\n', '\n'),
+      target ? `\n\n${targetElement(target, 'react')}` : ''
+    )
+  },
+  {
+    id: 'react.patch',
+    version: 1,
+    description: 'An update request answered with edit blocks instead of the whole component',
+    render: ({ code, request, description, style, target }) => `You are updating an existing React component with small, targeted edits. Keep all existing functionality and add the requested features.
+
+ORIGINAL APP DESCRIPTION: ${description}
+
+CURRENT CODE:
+\`\`\`javascript
+${code}
+\`\`\`
+
+UPDATE REQUEST:
+${request}${target ? `\n\n${targetElement(target, 'react')}` : ''}
+
+${PATCH_FORMAT_RULES}
+${withGuide(style, '\n', '\n')}
+INSTRUCTIONS:
+- Reply with the edit blocks only, NO explanations and NOT the whole component
+- The code must still start with import React from 'react'; followed by export default function App() {
+- Do NOT add import statements other than the React import
+- Use React.useState, React.useEffect (with React prefix) for all hooks
+- Use Tailwind CSS classes for styling`
+  },
+  {
+    id: 'react.fix',
+    version: 1,
+    description: 'Repair of a React app that failed its runtime test',
+    render: ({ code, errors, description }) => `${reactFirstLineBanner('FIXED CODE')}
+
+The following React component has runtime errors. Please fix ALL the errors and return the corrected code.
+
+START YOUR FIXED CODE WITH:
+import React from 'react';
+
+ORIGINAL APP DESCRIPTION: ${description}
+
+BROKEN CODE:
+\`\`\`javascript
+${code}
+\`\`\`
+
+RUNTIME ERRORS DETECTED:
+${numberedList(errors)}
+
+CRITICAL INSTRUCTIONS:
+- FIRST LINE: import React from 'react';
+- SECOND LINE: blank
+- THIRD LINE: export default function App() {
+- Fix ALL the errors listed above
+- MUST use "React.useState" and "React.useEffect" (with React prefix) for all hooks
+- Use Tailwind CSS classes for styling (no custom CSS)
+- Return ONLY the fixed JavaScript code, NO explanations or markdown
+- Do NOT write any text before the import statement
+- All brackets, parentheses, and braces MUST be properly balanced
+- All strings must be properly quoted
+- No syntax errors - the code must execute immediately
+- Make sure all variables are properly defined before use
+- Ensure all functions are defined before being called
+- Fix any typos in variable or function names
+
+TEMPLATE LITERAL RULES (CRITICAL - THIS IS LIKELY THE ERROR):
+- When using variables in className, ALWAYS use backticks around the ENTIRE string
+- CORRECT: className={\`flex gap-2 \${active ? 'bg-blue-500' : 'bg-gray-500'}\`}
+- WRONG: className={flex gap-2 \${active ? 'bg-blue-500' : 'bg-gray-500'}}
+- CORRECT: style={{ width: \`\${percentage}%\` }}
+- WRONG: style={{ width: \${percentage}% }}
+- If className has ANY \${} inside it, wrap the WHOLE string in backticks
+- Static classNames (no variables) should use regular quotes: className="flex gap-2"
+- If you see "Unexpected token" error with className, add backticks around the entire className value
+
+FORBIDDEN:
+- Do NOT use import statements other than the React import
+- Do NOT use require() statements
+- Do NOT use eval, innerHTML, or script tags
+- Do NOT use plain useState/useEffect without React prefix
+- Do NOT include markdown code blocks or backticks in your response
+- Do NOT include any explanatory text
+- Do NOT EVER write className={text \${variable}...} - this is a SYNTAX ERROR
+- NEVER use \${} without wrapping the entire string in backticks
+
+Return ONLY the complete, fixed, working code that will run without errors.`
+  },
+  {
+    id: 'react.continue',
+    version: 1,
+    description: 'Follow-up asking for the rest of a React component that hit the output limit',
+    render: ({ tail }) => continuePrompt(tail, 'closing every open bracket and ending with the closing brace of App')
+  }
+];
@@ -0,0 +1,57 @@
+import { AppStyle } from '../../models/StylePreset';
+import { ElementTarget } from '../../models/ElementTarget';
+
+/**
+ * Shared types for the prompt registry.
+ * Every prompt sent to a model is a named, versioned template; callers pass
+ * typed variables instead of building the text themselves.
+ */
+
+/**
+ * Variables each template takes, keyed by template id
+ */
+export interface PromptVariables {
+  'app.ideas': { count: number };
+  'app.info': { idea: string };
+  'app.enhance': { idea: string };
+  'html.generate': { description: string; style: AppStyle };
+  'html.update': { code: string; request: string; style?: AppStyle };
+  'html.fix': { code: string; errors: string[]; description: string };
+  'html.refine': { code: string; request: string; style?: AppStyle; target?: ElementTarget };
+  'html.patch': { code: string; request: string; style?: AppStyle; target?: ElementTarget };
+  'html.continue': { tail: string };
+  'html.chat': { request: string };
+  'react.generate': { description: string; style: AppStyle };
+  'react.update': { code: string; request: string; description: string; style?: AppStyle; target?: ElementTarget };
+  'react.patch': { code: string; request: string; description: string; style?: AppStyle; target?: ElementTarget };
+  'react.fix': { code: string; errors: string[]; description: string };
+  'react.continue': { tail: string };
+}
+
+export type PromptId = keyof PromptVariables;
+
+export interface PromptTemplate<Id extends PromptId = PromptId> {
+  id: Id;
+  /** Bump when the wording changes; old versions stay registered so results can be reproduced */
+  version: number;
+  description: string;
+  render: (variables: PromptVariables[Id]) => string;
+}
+
+/**
+ * A template for any id, with its variables still tied to that id
+ */
+export type AnyPromptTemplate = { [Id in PromptId]: PromptTemplate<Id> }[PromptId];
+
+/**
+ * Which template version produced a piece of code
+ */
+export interface PromptRef {
+  id: PromptId;
+  version: number;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  ref: PromptRef;
+}
@@ -0,0 +1,155 @@
+import {
+  GenerateOptions,
+  GenerateResult,
+  LLMInput,
+  LLMProvider,
+  StreamChunkHandler
+} from './types';
+import { assertOk, createRequestSignal, parseJSONResponse, readEventStream, toMessages } from './providerUtils';
+
+const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta/models';
+export const DEFAULT_GEMINI_MODEL = import.meta.env.VITE_GEMINI_MODEL || 'gemini-3-pro-preview';
+
+interface GeminiProviderConfig {
+  /** Explicit key; when omitted the Settings override or VITE_GEMINI_API_KEY is used */
+  apiKey?: string;
+  model?: string;
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{
+    content?: { parts?: GeminiPart[] };
+    finishReason?: string;
+  }>;
+  modelVersion?: string;
+}
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  readonly label = 'Google Gemini';
+  readonly model: string;
+  private apiKey?: string;
+
+  constructor(config: GeminiProviderConfig = {}) {
+    this.apiKey = config.apiKey;
+    this.model = config.model || DEFAULT_GEMINI_MODEL;
+  }
+
+  private getApiKey(): string {
+    if (this.apiKey) return this.apiKey;
+
+    // Check localStorage first (allows user override in Settings)
+    const userKey = localStorage.getItem('gemini_api_key');
+    if (userKey) return userKey;
+
+    // Then check environment variable
+    const envKey = import.meta.env.VITE_GEMINI_API_KEY;
+    if (envKey) return envKey;
+
+    throw new Error(
+      'Gemini API key not configured. Please set VITE_GEMINI_API_KEY environment variable or configure in Settings.'
+    );
+  }
+
+  private buildBody(input: LLMInput, json = false): string {
+    return JSON.stringify({
+      contents: toMessages(input).map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }]
+      })),
+      ...(json ? { generationConfig: { responseMimeType: 'application/json' } } : {})
+    });
+  }
+
+  private readText(data: GeminiResponse): string {
+    const parts = data.candidates?.[0]?.content?.parts || [];
+    return parts
+      .filter(part => !part.thought && typeof part.text === 'string')
+      .map(part => part.text)
+      .join('');
+  }
+
+  private async request(input: LLMInput, options: GenerateOptions, json: boolean): Promise<GenerateResult> {
+    const apiKey = this.getApiKey();
+    const { signal, dispose } = createRequestSignal(options);
+
+    try {
+      const response = await fetch(
+        `${GEMINI_API_BASE}/${this.model}:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          signal,
+          body: this.buildBody(input, json)
+        }
+      );
+
+      await assertOk(response, this.label);
+      const data: GeminiResponse = await response.json();
+
+      if (!data.candidates || !data.candidates[0]) {
+        throw new Error('No response from API');
+      }
+
+      return {
+        text: this.readText(data),
+        finishReason: data.candidates[0].finishReason,
+        modelVersion: data.modelVersion || this.model
+      };
+    } finally {
+      dispose();
+    }
+  }
+
+  generateText(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    return this.request(input, options, false);
+  }
+
+  async generateJSON<T>(input: LLMInput, options: GenerateOptions = {}): Promise<T> {
+    const result = await this.request(input, options, true);
+    return parseJSONResponse<T>(result.text);
+  }
+
+  async streamText(input: LLMInput, onChunk: StreamChunkHandler, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const apiKey = this.getApiKey();
+    const { signal, dispose } = createRequestSignal(options);
+    let fullText = '';
+    let finishReason: string | undefined;
+    let modelVersion: string | undefined;
+
+    try {
+      const response = await fetch(
+        `${GEMINI_API_BASE}/${this.model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          signal,
+          body: this.buildBody(input)
+        }
+      );
+
+      await assertOk(response, this.label);
+
+      await readEventStream(response, (payload) => {
+        const data: GeminiResponse = JSON.parse(payload);
+        const chunk = this.readText(data);
+        finishReason = data.candidates?.[0]?.finishReason || finishReason;
+        modelVersion = data.modelVersion || modelVersion;
+
+        if (chunk) {
+          fullText += chunk;
+          onChunk(chunk, fullText);
+        }
+      });
+
+      return { text: fullText, finishReason, modelVersion: modelVersion || this.model };
+    } finally {
+      dispose();
+    }
+  }
+}
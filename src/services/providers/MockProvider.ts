@@ -0,0 +1,104 @@
+import {
+  GenerateOptions,
+  GenerateResult,
+  LLMInput,
+  LLMProvider,
+  StreamChunkHandler
+} from './types';
+import { parseJSONResponse, toMessages } from './providerUtils';
+
+/**
+ * A recorded model response.
+ * `match` is a case-insensitive regular expression tested against the last
+ * user message; `response` is the raw Gemini generateContent payload.
+ */
+export interface MockFixture {
+  name: string;
+  match: string;
+  response: {
+    candidates: Array<{
+      content: { parts: Array<{ text: string }> };
+      finishReason?: string;
+    }>;
+    modelVersion?: string;
+  };
+}
+
+// Fixtures are bundled at build time, so the mock works without any network.
+// Files are tried in filename order - keep the catch-all last.
+const fixtureModules = import.meta.glob<MockFixture>('./fixtures/*.json', { eager: true, import: 'default' });
+
+const BUNDLED_FIXTURES: MockFixture[] = Object.keys(fixtureModules)
+  .sort()
+  .map(path => fixtureModules[path]);
+
+const STREAM_CHUNK_SIZE = 256;
+
+/**
+ * Deterministic offline provider that replays recorded responses.
+ * The same prompt always produces the same output.
+ */
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+  readonly label = 'Offline mock';
+  readonly model = 'mock-fixtures';
+  private fixtures: MockFixture[];
+
+  constructor(fixtures: MockFixture[] = BUNDLED_FIXTURES) {
+    this.fixtures = fixtures;
+  }
+
+  private findFixture(input: LLMInput): MockFixture {
+    const messages = toMessages(input);
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+    const fixture = this.fixtures.find(candidate => new RegExp(candidate.match, 'i').test(prompt));
+    if (!fixture) {
+      throw new Error(`No mock fixture matches prompt: "${prompt.substring(0, 80)}"`);
+    }
+    return fixture;
+  }
+
+  private replay(input: LLMInput, options: GenerateOptions): GenerateResult {
+    if (options.signal?.aborted) {
+      throw new DOMException('The operation was aborted.', 'AbortError');
+    }
+
+    const fixture = this.findFixture(input);
+    const candidate = fixture.response.candidates[0];
+
+    return {
+      text: candidate.content.parts[0].text,
+      finishReason: candidate.finishReason || 'STOP',
+      modelVersion: fixture.response.modelVersion || this.model
+    };
+  }
+
+  async generateText(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    return this.replay(input, options);
+  }
+
+  async generateJSON<T>(input: LLMInput, options: GenerateOptions = {}): Promise<T> {
+    return parseJSONResponse<T>(this.replay(input, options).text);
+  }
+
+  async streamText(input: LLMInput, onChunk: StreamChunkHandler, options: GenerateOptions = {}): Promise<GenerateResult> {
+    const result = this.replay(input, options);
+    let fullText = '';
+
+    for (let offset = 0; offset < result.text.length; offset += STREAM_CHUNK_SIZE) {
+      if (options.signal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+
+      const chunk = result.text.slice(offset, offset + STREAM_CHUNK_SIZE);
+      fullText += chunk;
+      onChunk(chunk, fullText);
+
+      // Yield so the UI can render each chunk like a real stream
+      await new Promise(resolve => setTimeout(resolve, 0));
+    }
+
+    return result;
+  }
+}
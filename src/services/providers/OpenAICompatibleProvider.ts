@@ -0,0 +1,154 @@
+import {
+  GenerateOptions,
+  GenerateResult,
+  LLMInput,
+  LLMProvider,
+  StreamChunkHandler
+} from './types';
+import { assertOk, createRequestSignal, parseJSONResponse, readEventStream, toMessages } from './providerUtils';
+
+interface OpenAICompatibleConfig {
+  id?: 'openai' | 'local';
+  label?: string;
+  /** Base URL including the version segment, e.g. https://api.openai.com/v1 */
+  baseUrl: string;
+  /** Optional for local servers such as Ollama or LM Studio */
+  apiKey?: string;
+  model: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: { content?: string };
+    delta?: { content?: string };
+    finish_reason?: string | null;
+  }>;
+  model?: string;
+}
+
+// Map OpenAI finish reasons onto the Gemini vocabulary used across the app
+const FINISH_REASONS: Record<string, string> = {
+  stop: 'STOP',
+  length: 'MAX_TOKENS',
+  content_filter: 'SAFETY'
+};
+
+/**
+ * Provider for any server speaking the OpenAI Chat Completions protocol.
+ * Also backs the "local" provider (Ollama, LM Studio, llama.cpp server).
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id: 'openai' | 'local';
+  readonly label: string;
+  readonly model: string;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.id = config.id || 'openai';
+    this.label = config.label || 'OpenAI-compatible';
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  private buildBody(input: LLMInput, stream: boolean): string {
+    return JSON.stringify({
+      model: this.model,
+      messages: toMessages(input),
+      stream
+    });
+  }
+
+  private normaliseFinishReason(reason?: string | null): string | undefined {
+    if (!reason) return undefined;
+    return FINISH_REASONS[reason] || reason.toUpperCase();
+  }
+
+  async generateText(input: LLMInput, options: GenerateOptions = {}): Promise<GenerateResult> {
+    if (!this.baseUrl) {
+      throw new Error(`${this.label} base URL not configured. Please set it in Settings.`);
+    }
+
+    const { signal, dispose } = createRequestSignal(options);
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        signal,
+        body: this.buildBody(input, false)
+      });
+
+      await assertOk(response, this.label);
+      const data: ChatCompletionResponse = await response.json();
+      const choice = data.choices?.[0];
+
+      if (!choice) {
+        throw new Error('No response from API');
+      }
+
+      return {
+        text: choice.message?.content || '',
+        finishReason: this.normaliseFinishReason(choice.finish_reason),
+        modelVersion: data.model || this.model
+      };
+    } finally {
+      dispose();
+    }
+  }
+
+  async generateJSON<T>(input: LLMInput, options: GenerateOptions = {}): Promise<T> {
+    const result = await this.generateText(input, options);
+    return parseJSONResponse<T>(result.text);
+  }
+
+  async streamText(input: LLMInput, onChunk: StreamChunkHandler, options: GenerateOptions = {}): Promise<GenerateResult> {
+    if (!this.baseUrl) {
+      throw new Error(`${this.label} base URL not configured. Please set it in Settings.`);
+    }
+
+    const { signal, dispose } = createRequestSignal(options);
+    let fullText = '';
+    let finishReason: string | undefined;
+    let modelVersion: string | undefined;
+
+    try {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        signal,
+        body: this.buildBody(input, true)
+      });
+
+      await assertOk(response, this.label);
+
+      await readEventStream(response, (payload) => {
+        if (payload === '[DONE]') return;
+
+        const data: ChatCompletionResponse = JSON.parse(payload);
+        const choice = data.choices?.[0];
+        const chunk = choice?.delta?.content || '';
+        finishReason = this.normaliseFinishReason(choice?.finish_reason) || finishReason;
+        modelVersion = data.model || modelVersion;
+
+        if (chunk) {
+          fullText += chunk;
+          onChunk(chunk, fullText);
+        }
+      });
+
+      return { text: fullText, finishReason, modelVersion: modelVersion || this.model };
+    } finally {
+      dispose();
+    }
+  }
+}
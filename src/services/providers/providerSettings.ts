@@ -0,0 +1,76 @@
+import { LLMProvider, ProviderId, ProviderSettings } from './types';
+import { DEFAULT_GEMINI_MODEL, GeminiProvider } from './GeminiProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { MockProvider } from './MockProvider';
+
+const SETTINGS_KEY = 'llm_provider_settings';
+
+export const PROVIDER_OPTIONS: Array<{ id: ProviderId; label: string; description: string }> = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Gemini API with the key configured below or in VITE_GEMINI_API_KEY' },
+  { id: 'openai', label: 'OpenAI-compatible', description: 'Any Chat Completions endpoint (OpenAI, Azure, OpenRouter, ...)' },
+  { id: 'local', label: 'Local model', description: 'A model served on this machine, e.g. Ollama or LM Studio' },
+  { id: 'mock', label: 'Offline mock', description: 'Replays recorded responses - no key or network needed' }
+];
+
+const PROVIDER_IDS = PROVIDER_OPTIONS.map(option => option.id);
+
+// VITE_LLM_PROVIDER picks the default (e.g. "mock" for offline development);
+// a provider saved in Settings still takes precedence
+const envProvider = import.meta.env.VITE_LLM_PROVIDER as ProviderId | undefined;
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: envProvider && PROVIDER_IDS.includes(envProvider) ? envProvider : 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  openaiBaseUrl: 'https://api.openai.com/v1',
+  openaiApiKey: '',
+  openaiModel: 'gpt-4o',
+  localBaseUrl: 'http://localhost:11434/v1',
+  localModel: 'llama3.1'
+};
+
+export function loadProviderSettings(): ProviderSettings {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return { ...DEFAULT_PROVIDER_SETTINGS };
+
+  try {
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(stored) };
+  } catch (error) {
+    console.error('Error loading provider settings:', error);
+    return { ...DEFAULT_PROVIDER_SETTINGS };
+  }
+}
+
+export function saveProviderSettings(settings: ProviderSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+/**
+ * Build a provider instance for the given settings
+ */
+export function createProvider(settings: ProviderSettings): LLMProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        id: 'openai',
+        label: 'OpenAI-compatible',
+        baseUrl: settings.openaiBaseUrl,
+        apiKey: settings.openaiApiKey,
+        model: settings.openaiModel
+      });
+
+    case 'local':
+      return new OpenAICompatibleProvider({
+        id: 'local',
+        label: 'Local model',
+        baseUrl: settings.localBaseUrl,
+        model: settings.localModel
+      });
+
+    case 'mock':
+      return new MockProvider();
+
+    case 'gemini':
+    default:
+      return new GeminiProvider({ model: settings.geminiModel });
+  }
+}
@@ -0,0 +1,107 @@
+import { GenerateOptions, LLMInput, LLMMessage } from './types';
+
+/**
+ * Normalise a prompt into a message list
+ */
+export function toMessages(input: LLMInput): LLMMessage[] {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+}
+
+/**
+ * Create an AbortSignal that fires on timeout or when the caller's signal aborts.
+ * Call dispose() once the request has settled to clear the timer.
+ */
+export function createRequestSignal(options: GenerateOptions = {}): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const timeoutId = options.timeoutMs
+    ? setTimeout(() => controller.abort(), options.timeoutMs)
+    : undefined;
+
+  const onExternalAbort = () => controller.abort();
+  if (options.signal) {
+    if (options.signal.aborted) {
+      controller.abort();
+    } else {
+      options.signal.addEventListener('abort', onExternalAbort);
+    }
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onExternalAbort);
+    }
+  };
+}
+
+/**
+ * Throw a descriptive error for non-2xx responses
+ */
+export async function assertOk(response: Response, providerLabel: string): Promise<void> {
+  if (response.ok) return;
+
+  let detail = response.statusText;
+  try {
+    const data = await response.json();
+    detail = data.error?.message || JSON.stringify(data);
+  } catch {
+    // Body was not JSON - keep the status text
+  }
+  throw new Error(`${providerLabel} API error: ${response.status} ${detail}`);
+}
+
+/**
+ * Read a text/event-stream response, invoking onData for every `data:` payload
+ */
+export async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('data:')) {
+      onData(trimmed.slice(5).trim());
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(flushLine);
+  }
+
+  buffer += decoder.decode();
+  if (buffer) flushLine(buffer);
+}
+
+/**
+ * Extract and parse JSON from a model response.
+ * Handles ```json fences and leading/trailing prose around an object or array.
+ */
+export function parseJSONResponse<T>(text: string): T {
+  const fenced = text.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  if (fenced) {
+    return JSON.parse(fenced[1]);
+  }
+
+  const trimmed = text.trim();
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const structured = trimmed.match(/[[{][\s\S]*[\]}]/);
+    if (structured) {
+      return JSON.parse(structured[0]);
+    }
+    throw new Error('Response did not contain valid JSON');
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Shared types for the pluggable LLM provider layer.
+ * Every component talks to a provider through LLMService instead of
+ * hand-building requests against a specific vendor API.
+ */
+
+export type ProviderId = 'gemini' | 'openai' | 'local' | 'mock';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * A prompt is either a single user message or a full conversation
+ */
+export type LLMInput = string | LLMMessage[];
+
+export interface GenerateOptions {
+  /** Abort the request after this many milliseconds */
+  timeoutMs?: number;
+  /** External cancellation signal (combined with the timeout) */
+  signal?: AbortSignal;
+}
+
+export interface GenerateResult {
+  text: string;
+  /** Normalised finish reason, e.g. 'STOP' or 'MAX_TOKENS' */
+  finishReason?: string;
+  /** Model version reported by the backend, if any */
+  modelVersion?: string;
+}
+
+export type StreamChunkHandler = (chunk: string, fullText: string) => void;
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly label: string;
+  readonly model: string;
+
+  generateText(input: LLMInput, options?: GenerateOptions): Promise<GenerateResult>;
+  streamText(input: LLMInput, onChunk: StreamChunkHandler, options?: GenerateOptions): Promise<GenerateResult>;
+  generateJSON<T>(input: LLMInput, options?: GenerateOptions): Promise<T>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  geminiModel: string;
+  openaiBaseUrl: string;
+  openaiApiKey: string;
+  openaiModel: string;
+  localBaseUrl: string;
+  localModel: string;
+}
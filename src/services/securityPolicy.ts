@@ -0,0 +1,44 @@
+import { SECURITY_SEVERITIES, SecurityAction, SecurityPolicy } from '../utils/SecurityScanner';
+
+const SETTINGS_KEY = 'app_security_policy';
+
+const SECURITY_ACTIONS: SecurityAction[] = ['block', 'warn', 'ignore'];
+
+export const DEFAULT_SECURITY_POLICY: SecurityPolicy = {
+  actions: { critical: 'block', high: 'warn', medium: 'warn', low: 'ignore' },
+  allowedHosts: [
+    'fonts.googleapis.com',
+    'fonts.gstatic.com',
+    'cdn.jsdelivr.net',
+    'unpkg.com',
+    'cdnjs.cloudflare.com',
+    'images.unsplash.com',
+    'picsum.photos'
+  ]
+};
+
+export function loadSecurityPolicy(): SecurityPolicy {
+  const stored = localStorage.getItem(SETTINGS_KEY);
+  if (!stored) return { ...DEFAULT_SECURITY_POLICY };
+
+  try {
+    const parsed = JSON.parse(stored);
+    const actions = { ...DEFAULT_SECURITY_POLICY.actions };
+    SECURITY_SEVERITIES.forEach(severity => {
+      if (SECURITY_ACTIONS.includes(parsed.actions?.[severity])) {
+        actions[severity] = parsed.actions[severity];
+      }
+    });
+    const allowedHosts = Array.isArray(parsed.allowedHosts)
+      ? parsed.allowedHosts.filter((host: unknown): host is string => typeof host === 'string')
+      : DEFAULT_SECURITY_POLICY.allowedHosts;
+    return { actions, allowedHosts };
+  } catch (error) {
+    console.error('Error loading security policy:', error);
+    return { ...DEFAULT_SECURITY_POLICY };
+  }
+}
+
+export function saveSecurityPolicy(policy: SecurityPolicy): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(policy));
+}
@@ -0,0 +1,220 @@
+import { AppCapability, isAppCapability } from '../models/AppCapabilities';
+import { AppDataItems } from '../services/AppRepository';
+import { APP_STORAGE_QUOTA } from '../services/AppStorageService';
+
+/** `channel` field on every message between a sandboxed app and the host */
+export const BRIDGE_CHANNEL = 'vantage-bridge';
+
+export interface BridgeRequest {
+  channel: typeof BRIDGE_CHANNEL;
+  id: number;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface BridgeResponse {
+  channel: typeof BRIDGE_CHANNEL;
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+// Static hints for apps that predate the capabilities meta tag
+const CAPABILITY_PATTERNS: Record<AppCapability, RegExp> = {
+  network: /\bfetch\s*\(|XMLHttpRequest|new\s+WebSocket|new\s+EventSource|["'(]https?:\/\/(?!www\.w3\.org)/,
+  clipboard: /navigator\.clipboard|execCommand\(\s*["'](copy|cut|paste)["']/,
+  camera: /getUserMedia|mediaDevices/,
+  downloads: /\.download\s*=|setAttribute\(\s*["']download["']|<a\b[^>]*\sdownload\b/,
+  storage: /localStorage|sessionStorage|indexedDB/
+};
+
+/**
+ * Runs inside the app before any of its own scripts. Replaces the APIs an
+ * opaque origin cannot use (or should not use directly) with calls over the
+ * postMessage bridge; the host decides whether each call is allowed.
+ * `storedItems` is the app's saved data when storage was granted, else null.
+ */
+const bridgeScript = (storedItems: AppDataItems | null): string => `(function () {
+  var CHANNEL = '${BRIDGE_CHANNEL}';
+  var STORED_ITEMS = ${JSON.stringify(storedItems).replace(/</g, '\\u003c')};
+  var QUOTA = ${APP_STORAGE_QUOTA};
+  var nextId = 0;
+  var pending = {};
+
+  function call(method, params) {
+    return new Promise(function (resolve, reject) {
+      var id = ++nextId;
+      pending[id] = { resolve: resolve, reject: reject };
+      parent.postMessage({ channel: CHANNEL, id: id, method: method, params: params }, '*');
+    });
+  }
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.channel !== CHANNEL || !pending[data.id]) return;
+    var request = pending[data.id];
+    delete pending[data.id];
+    if (data.error) request.reject(new Error(data.error));
+    else request.resolve(data.result);
+  });
+
+  // Opaque origins have no Web Storage. With the storage capability, localStorage
+  // is backed by the app's own saved data on the host; otherwise it lasts until reload.
+  function createStorage(initial, persist) {
+    var items = new Map(Object.entries(initial || {}));
+    function size() {
+      var total = 0;
+      items.forEach(function (value, key) { total += key.length + value.length; });
+      return total;
+    }
+    function sync(method, params) {
+      if (!persist) return;
+      call(method, params).catch(function (error) { console.error('Could not save app data:', error.message); });
+    }
+    return {
+      get length() { return items.size; },
+      key: function (index) { return Array.from(items.keys())[index] ?? null; },
+      getItem: function (key) { return items.has(String(key)) ? items.get(String(key)) : null; },
+      setItem: function (key, value) {
+        key = String(key);
+        value = String(value);
+        var previous = items.get(key);
+        items.set(key, value);
+        if (size() > QUOTA) {
+          if (previous === undefined) items.delete(key);
+          else items.set(key, previous);
+          throw new DOMException('App storage quota exceeded', 'QuotaExceededError');
+        }
+        sync('storage.setItem', { key: key, value: value });
+      },
+      removeItem: function (key) {
+        if (!items.delete(String(key))) return;
+        sync('storage.removeItem', { key: String(key) });
+      },
+      clear: function () {
+        items.clear();
+        sync('storage.clear');
+      }
+    };
+  }
+  var appStorage = createStorage(STORED_ITEMS, STORED_ITEMS !== null);
+  try {
+    Object.defineProperty(window, 'localStorage', { value: appStorage, configurable: true });
+    Object.defineProperty(window, 'sessionStorage', { value: createStorage(null, false), configurable: true });
+  } catch (e) {}
+
+  try {
+    Object.defineProperty(navigator, 'clipboard', {
+      configurable: true,
+      value: {
+        writeText: function (text) { return call('clipboard.writeText', { text: String(text) }); },
+        readText: function () { return call('clipboard.readText'); }
+      }
+    });
+  } catch (e) {}
+
+  // Sandboxed frames cannot download; hand the file to the host instead
+  function sendDownload(link) {
+    var fileName = link.getAttribute('download') || 'download';
+    return fetch(link.href)
+      .then(function (response) { return response.blob(); })
+      .then(function (blob) { return call('download', { fileName: fileName, blob: blob }); })
+      .catch(function (error) { console.error('Download failed:', error.message); });
+  }
+  var nativeClick = HTMLAnchorElement.prototype.click;
+  HTMLAnchorElement.prototype.click = function () {
+    if (this.hasAttribute('download')) {
+      sendDownload(this);
+      return;
+    }
+    return nativeClick.call(this);
+  };
+  document.addEventListener('click', function (event) {
+    var link = event.target && event.target.closest ? event.target.closest('a[download]') : null;
+    if (!link) return;
+    event.preventDefault();
+    sendDownload(link);
+  }, true);
+
+  window.vantage = { call: call, storage: appStorage };
+})();`;
+
+export class AppSandbox {
+  /**
+   * Capabilities an HTML app asks for: whatever it declares in
+   * <meta name="vantage-capabilities" content="...">, plus anything its code
+   * plainly uses, so older apps are reviewed too.
+   */
+  static detectCapabilities(code: string): AppCapability[] {
+    const requested = new Set<AppCapability>();
+
+    for (const tag of code.match(/<meta\b[^>]*>/gi) || []) {
+      if (!/name\s*=\s*["']vantage-capabilities["']/i.test(tag)) continue;
+      const content = tag.match(/content\s*=\s*["']([^"']*)["']/i)?.[1] || '';
+      content.split(/[\s,]+/).filter(isAppCapability).forEach(capability => requested.add(capability));
+    }
+
+    (Object.keys(CAPABILITY_PATTERNS) as AppCapability[]).forEach(capability => {
+      if (CAPABILITY_PATTERNS[capability].test(code)) requested.add(capability);
+    });
+
+    return Array.from(requested);
+  }
+
+  static contentSecurityPolicy(granted: AppCapability[]): string {
+    const remote = granted.includes('network') ? ' https:' : '';
+    return [
+      `default-src 'none'`,
+      `script-src 'unsafe-inline' 'unsafe-eval'`,
+      `style-src 'unsafe-inline'${remote}`,
+      `img-src data: blob:${remote}`,
+      `font-src data:${remote}`,
+      `media-src data: blob:${granted.includes('camera') ? ' mediastream:' : ''}${remote}`,
+      `connect-src data: blob:${remote}`,
+      `worker-src blob:`,
+      `form-action 'none'`,
+      `base-uri 'none'`
+    ].join('; ');
+  }
+
+  /**
+   * Never includes allow-same-origin: the app gets an opaque origin and cannot
+   * reach the host's storage (API keys, other apps) or DOM.
+   */
+  static sandboxAttribute(granted: AppCapability[]): string {
+    const tokens = ['allow-scripts', 'allow-forms', 'allow-modals'];
+    if (granted.includes('network')) tokens.push('allow-popups');
+    return tokens.join(' ');
+  }
+
+  /** iframe `allow` attribute; camera is the only capability enforced by permission policy */
+  static permissionPolicy(granted: AppCapability[]): string {
+    return granted.includes('camera') ? 'camera *; microphone *' : '';
+  }
+
+  /**
+   * The app's HTML with the CSP and bridge injected at the top of <head>,
+   * ahead of anything the app itself loads or runs. Pass the app's saved
+   * data when storage is granted so it can read it synchronously;
+   * `extraScript` runs right after the bridge (used by the runtime tester).
+   */
+  static buildDocument(
+    code: string,
+    granted: AppCapability[],
+    storedItems: AppDataItems = {},
+    extraScript = ''
+  ): string {
+    const items = granted.includes('storage') ? storedItems : null;
+    const injected = `
+<meta http-equiv="Content-Security-Policy" content="${this.contentSecurityPolicy(granted)}">
+<script>${bridgeScript(items)}</script>${extraScript ? `\n<script>${extraScript}</script>` : ''}`;
+
+    if (/<head[^>]*>/i.test(code)) {
+      return code.replace(/<head[^>]*>/i, match => match + injected);
+    }
+    if (/<html[^>]*>/i.test(code)) {
+      return code.replace(/<html[^>]*>/i, match => `${match}<head>${injected}</head>`);
+    }
+    return injected + code;
+  }
+}
@@ -1,4 +1,9 @@
 import { logger } from './logger';
+import { SyntaxChecker } from './SyntaxChecker';
+import { SecurityPolicy, SecurityScanner } from './SecurityScanner';
+import { DEFAULT_SECURITY_POLICY } from '../services/securityPolicy';
+import { VantageApp } from '../models/VantageApp';
+import { AppStyle, getStylePreset } from '../models/StylePreset';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -6,8 +11,74 @@ export interface ValidationResult {
   warnings: string[];
 }
 
+// Tailwind colour utilities, e.g. bg-pink-500 or hover:text-purple-300/50
+const TAILWIND_COLOR_CLASS = /\b(?:bg|text|border|from|via|to|ring|fill|stroke|outline|divide|decoration|accent|caret|shadow|placeholder)-(red|orange|amber|yellow|lime|green|emerald|teal|cyan|sky|blue|indigo|violet|purple|fuchsia|pink|rose|slate|gray|zinc|neutral|stone)-\d{2,3}\b/g;
+const NEUTRAL_TAILWIND_COLORS = ['slate', 'gray', 'zinc', 'neutral', 'stone'];
+
+// Colour literals in CSS or JS; the lookbehind keeps `#id` selectors and anchors out
+const HEX_COLOR = /(?<=[:\s(,'"`[=])#([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3})\b(?!\s*[{,])/gi;
+const RGB_COLOR = /rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})/gi;
+
+// Greys may drift from the palette's neutrals; colours within this RGB distance of a token count as the token
+const MAX_NEUTRAL_SPREAD = 24;
+const MAX_TOKEN_DISTANCE = 40;
+const MAX_LISTED_COLORS = 5;
+
+type Rgb = [number, number, number];
+
 export class AppValidator {
-  static validate(componentCode: string): ValidationResult {
+  /**
+   * Validate an app with the checks that match its kind, plus the palette of its style if it has one
+   */
+  static validateApp(app: Pick<VantageApp, 'kind' | 'code' | 'style'>, policy: SecurityPolicy = DEFAULT_SECURITY_POLICY): ValidationResult {
+    const result = app.kind === 'react' ? this.validate(app.code, policy) : this.validateHtml(app.code);
+    if (!app.style) return result;
+
+    return { ...result, warnings: [...result.warnings, ...this.checkPalette(app.code, app.style)] };
+  }
+
+  /**
+   * Warn about colours outside the style's palette. Neutral greys are always
+   * allowed; a style without a palette allows anything.
+   */
+  static checkPalette(code: string, style: AppStyle): string[] {
+    if (style.palette.length === 0) return [];
+
+    const palette = style.palette.map(color => this.parseHex(color)).filter((rgb): rgb is Rgb => rgb !== null);
+    const outside = new Set<string>();
+
+    const checkRgb = (label: string, rgb: Rgb | null) => {
+      if (rgb && !this.isNeutral(rgb) && !palette.some(token => this.distance(token, rgb) <= MAX_TOKEN_DISTANCE)) {
+        outside.add(label);
+      }
+    };
+
+    for (const match of code.matchAll(HEX_COLOR)) {
+      checkRgb(`#${match[1].toUpperCase()}`, this.parseHex(match[0]));
+    }
+    for (const match of code.matchAll(RGB_COLOR)) {
+      const rgb = [match[1], match[2], match[3]].map(Number) as Rgb;
+      checkRgb(`rgb(${rgb.join(', ')})`, rgb);
+    }
+    if (style.tailwindColors.length > 0) {
+      for (const match of code.matchAll(TAILWIND_COLOR_CLASS)) {
+        const family = match[1];
+        if (!NEUTRAL_TAILWIND_COLORS.includes(family) && !style.tailwindColors.includes(family)) {
+          outside.add(match[0]);
+        }
+      }
+    }
+
+    if (outside.size === 0) return [];
+
+    const colors = Array.from(outside);
+    const listed = colors.slice(0, MAX_LISTED_COLORS).join(', ');
+    const more = colors.length > MAX_LISTED_COLORS ? ` and ${colors.length - MAX_LISTED_COLORS} more` : '';
+    const label = style.preset === 'custom' ? 'custom' : getStylePreset(style.preset).label;
+    return [`Uses colours outside the ${label} palette: ${listed}${more}`];
+  }
+
+  static validate(componentCode: string, policy: SecurityPolicy = DEFAULT_SECURITY_POLICY): ValidationResult {
     logger.debug('AppValidator: Starting validation');
     logger.debug('Code details', {
       length: componentCode.length,
@@ -25,22 +96,10 @@ export class AppValidator {
       console.log('✅ Check passed: Has export default');
     }
 
-    // Check 2: No dangerous patterns
-    const dangerousPatterns = [
-      { pattern: /eval\(/g, message: 'eval() is not allowed for security reasons' },
-      { pattern: /Function\(/g, message: 'Function constructor is not allowed' },
-      { pattern: /innerHTML/g, message: 'innerHTML is not allowed, use React rendering instead' },
-      { pattern: /dangerouslySetInnerHTML/g, message: 'dangerouslySetInnerHTML is not allowed' },
-      { pattern: /<script/gi, message: 'Script tags are not allowed' },
-      { pattern: /document\.write/g, message: 'document.write is not allowed' },
-      { pattern: /window\.location/g, message: 'window.location manipulation is not allowed' },
-    ];
-
-    for (const { pattern, message } of dangerousPatterns) {
-      if (pattern.test(componentCode)) {
-        errors.push(message);
-      }
-    }
+    // Check 2: Nothing the security policy blocks; what it warns about stays a warning
+    const security = SecurityScanner.check({ kind: 'react', code: componentCode }, policy);
+    errors.push(...security.blocked.map(finding => SecurityScanner.format(finding)));
+    warnings.push(...security.warnings.map(finding => SecurityScanner.format(finding)));
 
     // Check 3: Basic React hooks validation
     const hookPattern = /React\.(useState|useEffect|useCallback|useMemo|useRef)/g;
@@ -51,37 +110,13 @@ export class AppValidator {
       errors.push('Component must have a return statement');
     }
 
-    // Check 5: Check for balanced brackets
-    const openBraces = (componentCode.match(/\{/g) || []).length;
-    const closeBraces = (componentCode.match(/\}/g) || []).length;
-    const openParens = (componentCode.match(/\(/g) || []).length;
-    const closeParens = (componentCode.match(/\)/g) || []).length;
-    const openBrackets = (componentCode.match(/\[/g) || []).length;
-    const closeBrackets = (componentCode.match(/\]/g) || []).length;
-
-    console.log('🔢 Bracket counts:', {
-      braces: `${openBraces} open, ${closeBraces} close`,
-      parens: `${openParens} open, ${closeParens} close`,
-      brackets: `${openBrackets} open, ${closeBrackets} close`
-    });
-
-    if (openBraces !== closeBraces) {
-      console.error(`❌ Unbalanced braces: ${openBraces} open, ${closeBraces} close`);
-      errors.push('Unbalanced curly braces detected');
-    } else {
-      console.log('✅ Check passed: Braces balanced');
-    }
-    if (openParens !== closeParens) {
-      console.error(`❌ Unbalanced parens: ${openParens} open, ${closeParens} close`);
-      errors.push('Unbalanced parentheses detected');
-    } else {
-      console.log('✅ Check passed: Parentheses balanced');
-    }
-    if (openBrackets !== closeBrackets) {
-      console.error(`❌ Unbalanced brackets: ${openBrackets} open, ${closeBrackets} close`);
-      errors.push('Unbalanced square brackets detected');
+    // Check 5: The component must parse as JSX
+    const syntaxErrors = SyntaxChecker.checkScript(componentCode, { jsx: true }).map(d => SyntaxChecker.format(d));
+    if (syntaxErrors.length > 0) {
+      console.error('❌ Syntax errors:', syntaxErrors);
+      errors.push(...syntaxErrors);
     } else {
-      console.log('✅ Check passed: Square brackets balanced');
+      console.log('✅ Check passed: Parses as JSX');
     }
 
     // Check 6: No external API calls without user awareness
@@ -152,6 +187,70 @@ export class AppValidator {
     };
   }
 
+  static validateHtml(htmlCode: string): ValidationResult {
+    logger.debug('AppValidator: Starting HTML validation', { length: htmlCode.length });
+
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const code = htmlCode.trim();
+
+    // Check 1: Must contain an HTML document
+    if (!code) {
+      errors.push('Generated page is empty');
+    } else if (!/<html[\s>]/i.test(code) && !/<body[\s>]/i.test(code)) {
+      errors.push('Generated code is not an HTML document');
+    }
+
+    // Check 2: A missing closing tag usually means the response was cut off
+    if (code && !/<\/html>\s*$/i.test(code)) {
+      warnings.push('Document does not end with </html> - the page may be incomplete');
+    }
+
+    // Check 3: Every script block must be closed
+    const openScripts = (code.match(/<script[\s>]/gi) || []).length;
+    const closeScripts = (code.match(/<\/script>/gi) || []).length;
+    if (openScripts !== closeScripts) {
+      errors.push(`Unbalanced script tags: ${openScripts} open, ${closeScripts} close`);
+    }
+
+    // Check 4: External resources will not load offline
+    if (/<(script|link)[^>]+(src|href)=["']https?:/i.test(code)) {
+      warnings.push('Page loads external scripts or stylesheets');
+    }
+
+    // Check 5: Browser dialogs are forbidden by the generation prompt
+    errors.push(...this.findBrowserDialogs(code));
+
+    // Check 6: Inline scripts must parse; positions are lines of the whole page
+    errors.push(...SyntaxChecker.checkHtmlScripts(code).map(d => SyntaxChecker.format(d)));
+
+    const isValid = errors.length === 0;
+    logger.validation('HTML validation', isValid, { errors, warnings });
+
+    return {
+      isValid,
+      errors,
+      warnings
+    };
+  }
+
+  /**
+   * One error per alert/confirm/prompt call found in the page's scripts and
+   * inline event handlers; the same words in visible text are not calls
+   */
+  static findBrowserDialogs(html: string): string[] {
+    const scripts = SyntaxChecker.extractScripts(html).map(block => block.code);
+    const handlers = Array.from(html.matchAll(/\son[a-z]+\s*=\s*(?:"([^"]*)"|'([^']*)')/gi), match => match[1] ?? match[2]);
+
+    const found = new Set<string>();
+    for (const source of [...scripts, ...handlers]) {
+      for (const match of source.matchAll(/(?<![\w.$])(?:window\.)?(alert|confirm|prompt)\s*\(/g)) {
+        found.add(match[1]);
+      }
+    }
+    return Array.from(found).map(name => `Uses ${name}() - replace it with an in-page modal`);
+  }
+
   static testRuntimeSyntax(componentCode: string): { success: boolean; errors: string[] } {
     const errors: string[] = [];
 
@@ -168,12 +267,6 @@ export class AppValidator {
       const eventIssues = this.checkEventHandlers(componentCode);
       errors.push(...eventIssues);
 
-      // Test 4: Try to create a sandboxed test
-      const sandboxTest = this.sandboxedSyntaxCheck(componentCode);
-      if (!sandboxTest.success) {
-        errors.push(...sandboxTest.errors);
-      }
-
       return {
         success: errors.length === 0,
         errors
@@ -184,6 +277,21 @@ export class AppValidator {
     }
   }
 
+  private static parseHex(color: string): Rgb | null {
+    let hex = color.replace('#', '');
+    if (hex.length === 3) hex = hex.split('').map(char => char + char).join('');
+    if (!/^[0-9a-f]{6}/i.test(hex)) return null;
+    return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16)) as Rgb;
+  }
+
+  private static isNeutral(rgb: Rgb): boolean {
+    return Math.max(...rgb) - Math.min(...rgb) <= MAX_NEUTRAL_SPREAD;
+  }
+
+  private static distance(a: Rgb, b: Rgb): number {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+  }
+
   private static checkJSXIssues(code: string): string[] {
     const issues: string[] = [];
 
@@ -242,47 +350,6 @@ export class AppValidator {
     return issues;
   }
 
-  private static sandboxedSyntaxCheck(componentCode: string): { success: boolean; errors: string[] } {
-    const errors: string[] = [];
-
-    try {
-      // Remove JSX and check basic JavaScript syntax
-      let testCode = componentCode;
-
-      // Replace JSX with placeholder strings to test JS syntax
-      testCode = testCode.replace(/<[^>]+>/g, '""');
-      testCode = testCode.replace(/export default /g, '');
-
-      // Try to validate basic structure without executing
-      // Check for common syntax errors
-
-      // DISABLED: Simple quote counting is unreliable and causes false positives
-      // - Doesn't account for escaped quotes (\' or \")
-      // - Doesn't account for quotes in comments
-      // - Doesn't account for quotes inside other quotes
-      // - Template literals use backticks, not quotes
-      // - Apostrophes in comments/strings like "don't" break the count
-      // Runtime testing with Babel will catch actual syntax errors
-
-      // Check for basic arrow function syntax errors
-      const arrowFunctions = testCode.match(/=>\s*{/g) || [];
-      const returnKeywords = testCode.match(/=>\s*\(/g) || [];
-
-      // Basic structural validation
-      if (!testCode.includes('function') && arrowFunctions.length === 0) {
-        errors.push('No function definition found');
-      }
-
-      return {
-        success: errors.length === 0,
-        errors
-      };
-    } catch (error) {
-      errors.push(`Syntax check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return { success: false, errors };
-    }
-  }
-
   static canSafelyRender(componentCode: string): boolean {
     const result = this.validate(componentCode);
 
@@ -0,0 +1,617 @@
+// CodeRepairEngine.ts - Parser-driven repair of common mistakes in generated React code
+
+import { parse, ParseError, ParserOptions } from '@babel/parser';
+
+export interface DetectedError {
+  type: string;
+  line: number;
+  column: number;
+  message: string;
+  snippet: string;
+  suggestedFix?: string;
+}
+
+export interface RepairResult {
+  fixedCode: string;
+  /** One entry per repair applied, plus any syntax error left at the end */
+  errors: DetectedError[];
+  stats: Record<string, number>;
+  /** The repaired code parses cleanly */
+  success: boolean;
+}
+
+interface Edit {
+  name: string;
+  start: number;
+  end: number;
+  replacement: string;
+  message: string;
+}
+
+/** Loose view of a Babel AST node; only the fields the repairs read are typed */
+interface AstNode {
+  type: string;
+  start?: number | null;
+  end?: number | null;
+  [key: string]: unknown;
+}
+
+type SyntaxRepair = (code: string, errorIndex: number) => Edit | null;
+
+const PARSER_OPTIONS: ParserOptions = { sourceType: 'module', plugins: ['jsx'] };
+
+// Every accepted repair moves the first syntax error further on, so this only guards runaway input
+const MAX_SYNTAX_PASSES = 50;
+
+const HOOKS = ['useState', 'useEffect', 'useCallback', 'useMemo', 'useRef', 'useContext', 'useReducer'];
+const CSS_UNITS = '%|px|rem|em|vh|vw|deg|ms|s';
+
+const isNode = (value: unknown): value is AstNode =>
+  !!value && typeof value === 'object' && typeof (value as AstNode).type === 'string';
+
+/**
+ * Repairs generated JSX by parsing it rather than pattern-matching text.
+ *
+ * Syntax repairs run while the code does not parse: each one targets the
+ * construct around the parser's first error (an attribute value, in braces
+ * or bare, style value or ternary branch with `${}` but no backticks, a unit
+ * left outside a template literal, a dropped `*`) and is kept only if the
+ * error moves past it.
+ * Once the code parses, AST repairs rewrite nodes that are valid syntax but
+ * wrong: `{/ comment /}` regexes, unprefixed hooks and identifiers used as
+ * template tags. `$` before a JSX expression is left alone - it is usually a
+ * price, not a misplaced template literal.
+ */
+export class CodeRepairEngine {
+  private fixStats: Map<string, number> = new Map();
+  private detectedErrors: DetectedError[] = [];
+  private fixLog: string[] = [];
+
+  private syntaxRepairs: SyntaxRepair[] = [
+    (code, index) => this.repairUnitOutsideBackticks(code, index),
+    (code, index) => this.repairStyleValue(code, index),
+    (code, index) => this.repairAttribute(code, index),
+    (code, index) => this.repairUnquotedAttribute(code, index),
+    (code, index) => this.repairBareTemplate(code, index),
+    (code, index) => this.repairMissingOperator(code, index)
+  ];
+
+  /**
+   * Main entry point - repairs the code and records what was changed
+   */
+  public repair(code: string): RepairResult {
+    this.resetState();
+
+    let fixedCode = this.applySyntaxRepairs(code);
+    fixedCode = this.applyAstRepairs(fixedCode);
+
+    const remaining = this.firstError(fixedCode);
+    if (remaining) {
+      this.record(fixedCode, {
+        name: 'syntax_error',
+        start: remaining.pos,
+        end: remaining.pos,
+        replacement: '',
+        message: remaining.message
+      }, false);
+    }
+
+    const stats: Record<string, number> = {};
+    this.fixStats.forEach((count, name) => {
+      stats[name] = count;
+    });
+
+    return {
+      fixedCode,
+      errors: this.detectedErrors,
+      stats,
+      success: remaining === null
+    };
+  }
+
+  // ============ SYNTAX REPAIRS ============
+
+  private applySyntaxRepairs(code: string): string {
+    for (let pass = 0; pass < MAX_SYNTAX_PASSES; pass++) {
+      const error = this.firstError(code);
+      if (!error) break;
+
+      const accepted = this.syntaxRepairs
+        .map(repair => repair(code, error.pos))
+        .find(edit => edit && this.movesErrorPast(code, edit));
+      if (!accepted) break;
+
+      this.record(code, accepted);
+      code = this.applyEdits(code, [accepted]);
+    }
+    return code;
+  }
+
+  private movesErrorPast(code: string, edit: Edit): boolean {
+    const next = this.firstError(this.applyEdits(code, [edit]));
+    return !next || next.pos >= edit.start + edit.replacement.length;
+  }
+
+  /**
+   * `${x}`% or `${x}`px - the unit belongs inside the template literal
+   */
+  private repairUnitOutsideBackticks(code: string, index: number): Edit | null {
+    const before = code.slice(Math.max(0, index - 40), index);
+    const after = code.slice(index);
+
+    const trailing = before.match(new RegExp(`\`(\\s*)(${CSS_UNITS})\\s*$`));
+    if (trailing) {
+      const start = index - before.length + (trailing.index ?? 0);
+      return {
+        name: 'unit_outside_backticks',
+        start,
+        end: start + 1 + trailing[1].length + trailing[2].length,
+        replacement: `${trailing[2]}\``,
+        message: `Moved "${trailing[2]}" inside the template literal`
+      };
+    }
+
+    const leading = after.match(new RegExp(`^(${CSS_UNITS})\\b`));
+    if (leading && /`\s*$/.test(before)) {
+      const start = before.lastIndexOf('`') + index - before.length;
+      return {
+        name: 'unit_outside_backticks',
+        start,
+        end: index + leading[1].length,
+        replacement: `${leading[1]}\``,
+        message: `Moved "${leading[1]}" inside the template literal`
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * style={{ width: ${w}%, ... }} - wrap every interpolated value of the object
+   */
+  private repairStyleValue(code: string, index: number): Edit | null {
+    const open = code.lastIndexOf('style={{', index);
+    if (open === -1) return null;
+
+    const objectStart = open + 'style={'.length;
+    const objectEnd = this.matchingBrace(code, objectStart);
+    if (objectEnd === -1 || objectEnd < index) return null;
+
+    const body = code.slice(objectStart + 1, objectEnd);
+    let changed = false;
+    const properties = this.splitTopLevel(body, ',').map(property => {
+      const colon = property.indexOf(':');
+      if (colon === -1) return property;
+      const [, before, value, after] = property.slice(colon + 1).match(/^(\s*)([\s\S]*?)(\s*)$/) || [];
+      if (!value.includes('${') || /^[`'"]/.test(value)) return property;
+      changed = true;
+      return `${property.slice(0, colon + 1)}${before}\`${value}\`${after}`;
+    });
+    if (!changed) return null;
+
+    return {
+      name: 'style_value_missing_backticks',
+      start: objectStart + 1,
+      end: objectEnd,
+      replacement: properties.join(','),
+      message: 'Wrapped interpolated style values in backticks'
+    };
+  }
+
+  /**
+   * attr={text ${x}} - the attribute value is a template literal without backticks
+   */
+  private repairAttribute(code: string, index: number): Edit | null {
+    for (let open = code.lastIndexOf('={', index); open !== -1; open = code.lastIndexOf('={', open - 1)) {
+      const close = this.matchingBrace(code, open + 1);
+      if (close === -1 || close < index) continue;
+
+      const content = code.slice(open + 2, close).trim();
+      if (content.startsWith('{') || content.startsWith('`') || !content.includes('${')) return null;
+
+      const attribute = code.slice(0, open).match(/([\w-]+)$/)?.[1] || 'attribute';
+      return {
+        name: attribute === 'className' ? 'className_missing_backticks' : 'attribute_missing_backticks',
+        start: open + 1,
+        end: close + 1,
+        replacement: `{\`${content}\`}`,
+        message: `Wrapped ${attribute} value in backticks`
+      };
+    }
+    return null;
+  }
+
+  /**
+   * aria-label=Click ${count} times - an unquoted value, up to the next attribute or the end of the tag
+   */
+  private repairUnquotedAttribute(code: string, index: number): Edit | null {
+    if (code[index - 1] !== '=') return null;
+
+    let end = index;
+    let depth = 0;
+    while (end < code.length && code[end] !== '\n') {
+      const rest = code.slice(end);
+      if (rest.startsWith('${')) {
+        depth++;
+        end += 2;
+        continue;
+      }
+      if (depth > 0) {
+        if (code[end] === '}') depth--;
+        end++;
+        continue;
+      }
+      if (/^\s+[\w-]+\s*=/.test(rest) || /^\s*\/?>/.test(rest)) break;
+      end++;
+    }
+
+    const content = code.slice(index, end);
+    if (!content.includes('${') || /[`'"]/.test(content)) return null;
+
+    const attribute = code.slice(0, index - 1).match(/([\w-]+)$/)?.[1] || 'attribute';
+    return {
+      name: 'attribute_missing_backticks',
+      start: index,
+      end,
+      replacement: `{\`${content}\`}`,
+      message: `Wrapped ${attribute} value in backticks`
+    };
+  }
+
+  /**
+   * cond ? ${a} wins : "Draw" - an interpolated string between operators
+   */
+  private repairBareTemplate(code: string, index: number): Edit | null {
+    const lineStart = code.lastIndexOf('\n', index - 1) + 1;
+    const interpolation = code.lastIndexOf('${', index);
+    if (interpolation < lineStart) return null;
+
+    let start = interpolation;
+    while (start > lineStart && !/[?:(,=[{;>]/.test(code[start - 1])) start--;
+
+    let end = interpolation;
+    let depth = 0;
+    while (end < code.length && code[end] !== '\n') {
+      const char = code[end];
+      if (char === '{') depth++;
+      else if (char === '}') {
+        if (depth === 0) break;
+        depth--;
+      } else if (depth === 0 && /[:),\];]/.test(char)) break;
+      end++;
+    }
+
+    const raw = code.slice(start, end);
+    const content = raw.trim();
+    if (!content.includes('${') || /[`'"]/.test(content)) return null;
+
+    const leading = raw.length - raw.trimStart().length;
+    return {
+      name: 'bare_template_literal',
+      start: start + leading,
+      end: start + leading + content.length,
+      replacement: `\`${content}\``,
+      message: 'Wrapped interpolated text in backticks'
+    };
+  }
+
+  /**
+   * Math.random()  max - a dropped multiplication leaves a double space between operands
+   */
+  private repairMissingOperator(code: string, index: number): Edit | null {
+    const before = code.slice(0, index);
+    const after = code.slice(index);
+
+    // The parser stops at the second operand, or right after the first for "Missing semicolon"
+    const gapBefore = before.match(/[\w)\]$]([ \t]{2,})$/);
+    const gapAfter = after.match(/^([ \t]{2,})[\w($]/);
+    let start: number;
+    let end: number;
+    if (gapBefore && /^[\w($]/.test(after)) {
+      start = index - gapBefore[1].length;
+      end = index;
+    } else if (gapAfter && /[\w)\]$]$/.test(before)) {
+      start = index;
+      end = index + gapAfter[1].length;
+    } else {
+      return null;
+    }
+
+    return {
+      name: 'missing_operator',
+      start,
+      end,
+      replacement: ' * ',
+      message: 'Inserted missing * operator'
+    };
+  }
+
+  // ============ AST REPAIRS ============
+
+  private applyAstRepairs(code: string): string {
+    let ast: AstNode;
+    try {
+      ast = parse(code, { ...PARSER_OPTIONS, errorRecovery: true }) as unknown as AstNode;
+    } catch (error) {
+      return code;
+    }
+
+    const bindings = this.collectBindings(ast);
+    const edits: Edit[] = [];
+
+    this.walk(ast, node => {
+      const start = node.start ?? 0;
+      const end = node.end ?? 0;
+
+      // {/ comment /} parses as a regex and crashes React
+      if (node.type === 'JSXExpressionContainer') {
+        const expression = node.expression as AstNode;
+        if (expression.type === 'RegExpLiteral' && !expression.flags) {
+          edits.push({
+            name: 'broken_jsx_comment',
+            start,
+            end,
+            replacement: `{/* ${String(expression.pattern).trim()} */}`,
+            message: 'Converted regex-like text into a JSX comment'
+          });
+        }
+      }
+
+      // useState(...) without React. when nothing else declares it
+      if (node.type === 'CallExpression') {
+        const callee = node.callee as AstNode;
+        const name = String(callee.name);
+        if (callee.type === 'Identifier' && HOOKS.includes(name) && !bindings.has(name)) {
+          edits.push({
+            name: 'undefined_React',
+            start: callee.start ?? 0,
+            end: callee.end ?? 0,
+            replacement: `React.${name}`,
+            message: `Prefixed ${name} with React.`
+          });
+        }
+      }
+
+      // User`${id}` - the identifier was meant to be part of the string
+      if (node.type === 'TaggedTemplateExpression') {
+        const tag = node.tag as AstNode;
+        const quasi = node.quasi as AstNode;
+        if (tag.type === 'Identifier' && !bindings.has(String(tag.name))) {
+          edits.push({
+            name: 'identifier_with_backtick_interpolation',
+            start,
+            end: (quasi.start ?? 0) + 1,
+            replacement: `\`${String(tag.name)}`,
+            message: `Moved ${String(tag.name)} inside the template literal`
+          });
+        }
+      }
+
+      // className={`${active ? 'on' : ''}text-lg`} glues two classes together
+      if (node.type === 'JSXAttribute' && (node.name as AstNode).name === 'className') {
+        const literal = (node.value as AstNode | null)?.expression as AstNode | undefined;
+        if (literal?.type === 'TemplateLiteral') {
+          const quasis = literal.quasis as AstNode[];
+          quasis.forEach((quasi, i) => {
+            const raw = String((quasi.value as { raw: string }).raw);
+            const previous = i > 0 ? String((quasis[i - 1].value as { raw: string }).raw) : null;
+            if (previous !== null && (previous === '' || /\s$/.test(previous)) && /^[a-zA-Z]/.test(raw)) {
+              edits.push({
+                name: 'missing_space_before_static_class',
+                start: quasi.start ?? 0,
+                end: quasi.start ?? 0,
+                replacement: ' ',
+                message: 'Separated a static class from the interpolated one'
+              });
+            }
+          });
+        }
+      }
+    });
+
+    const applied = this.withoutOverlaps(edits);
+    applied.forEach(edit => this.record(code, edit));
+    return this.applyEdits(code, applied);
+  }
+
+  /**
+   * Names declared anywhere in the program; good enough to tell a bare hook
+   * or tag from one the code imported or defined itself
+   */
+  private collectBindings(ast: AstNode): Set<string> {
+    const names = new Set<string>();
+    const addPattern = (pattern: unknown): void => {
+      if (!isNode(pattern)) return;
+      switch (pattern.type) {
+        case 'Identifier':
+          names.add(String(pattern.name));
+          break;
+        case 'ObjectPattern':
+          (pattern.properties as AstNode[]).forEach(property =>
+            addPattern(property.type === 'RestElement' ? property.argument : property.value)
+          );
+          break;
+        case 'ArrayPattern':
+          (pattern.elements as unknown[]).forEach(addPattern);
+          break;
+        case 'RestElement':
+          addPattern(pattern.argument);
+          break;
+        case 'AssignmentPattern':
+          addPattern(pattern.left);
+          break;
+      }
+    };
+
+    this.walk(ast, node => {
+      switch (node.type) {
+        case 'VariableDeclarator':
+          addPattern(node.id);
+          break;
+        case 'FunctionDeclaration':
+        case 'FunctionExpression':
+        case 'ArrowFunctionExpression':
+          addPattern(node.id);
+          (node.params as unknown[]).forEach(addPattern);
+          break;
+        case 'ClassDeclaration':
+          addPattern(node.id);
+          break;
+        case 'ImportSpecifier':
+        case 'ImportDefaultSpecifier':
+        case 'ImportNamespaceSpecifier':
+          addPattern(node.local);
+          break;
+        case 'CatchClause':
+          addPattern(node.param);
+          break;
+      }
+    });
+
+    return names;
+  }
+
+  // ============ HELPER METHODS ============
+
+  private firstError(code: string): ParseError | null {
+    try {
+      parse(code, PARSER_OPTIONS);
+      return null;
+    } catch (error) {
+      return error as ParseError;
+    }
+  }
+
+  private walk(node: AstNode, visit: (node: AstNode) => void): void {
+    visit(node);
+    for (const [key, value] of Object.entries(node)) {
+      if (key === 'loc' || key === 'extra' || key.endsWith('Comments')) continue;
+      if (Array.isArray(value)) {
+        value.forEach(item => isNode(item) && this.walk(item, visit));
+      } else if (isNode(value)) {
+        this.walk(value, visit);
+      }
+    }
+  }
+
+  /**
+   * Index of the } closing the { at `open`, skipping quoted strings; -1 if unbalanced
+   */
+  private matchingBrace(code: string, open: number): number {
+    let depth = 0;
+    let quote: string | null = null;
+
+    for (let i = open; i < code.length; i++) {
+      const char = code[i];
+      if (quote) {
+        if (char === '\\') i++;
+        else if (char === quote) quote = null;
+        continue;
+      }
+      if (char === '"' || char === "'") quote = char;
+      else if (char === '{') depth++;
+      else if (char === '}' && --depth === 0) return i;
+    }
+    return -1;
+  }
+
+  private splitTopLevel(text: string, separator: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (const char of text) {
+      if ('{(['.includes(char)) depth++;
+      if ('})]'.includes(char)) depth--;
+      if (char === separator && depth === 0) {
+        parts.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current);
+    return parts;
+  }
+
+  private withoutOverlaps(edits: Edit[]): Edit[] {
+    const sorted = [...edits].sort((a, b) => a.start - b.start);
+    return sorted.filter((edit, i) => i === 0 || edit.start >= sorted[i - 1].end);
+  }
+
+  private applyEdits(code: string, edits: Edit[]): string {
+    return [...edits]
+      .sort((a, b) => b.start - a.start)
+      .reduce((result, edit) => result.slice(0, edit.start) + edit.replacement + result.slice(edit.end), code);
+  }
+
+  private record(code: string, edit: Edit, fixed = true): void {
+    const position = this.getLineColumn(code, edit.start);
+    this.detectedErrors.push({
+      type: edit.name,
+      line: position.line,
+      column: position.column,
+      message: edit.message,
+      snippet: this.getCodeSnippet(code.split('\n'), position.line),
+      suggestedFix: fixed ? edit.replacement : undefined
+    });
+
+    if (fixed) {
+      this.fixStats.set(edit.name, (this.fixStats.get(edit.name) || 0) + 1);
+      this.fixLog.push(`Line ${position.line}: ${edit.message}`);
+    }
+  }
+
+  private getLineColumn(code: string, index: number): { line: number; column: number } {
+    const lines = code.substring(0, index).split('\n');
+    return {
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1
+    };
+  }
+
+  private getCodeSnippet(lines: string[], lineNumber: number): string {
+    const start = Math.max(0, lineNumber - 2);
+    const end = Math.min(lines.length, lineNumber + 1);
+    return lines.slice(start, end).join('\n');
+  }
+
+  private resetState(): void {
+    this.fixStats.clear();
+    this.detectedErrors = [];
+    this.fixLog = [];
+  }
+
+  // ============ PUBLIC UTILITIES ============
+
+  /**
+   * Generate a detailed report of the last repair, in the same layout as the
+   * pattern-based fixer's report
+   */
+  public generateReport(): string {
+    const report: string[] = ['=== Code Repair Report ===\n'];
+
+    report.push('Fix Statistics:');
+    this.fixStats.forEach((count, name) => {
+      report.push(`  ${name}: ${count} fixes`);
+    });
+
+    if (this.detectedErrors.length > 0) {
+      report.push('\nDetected Errors:');
+      this.detectedErrors.forEach((error, idx) => {
+        report.push(`  ${idx + 1}. Line ${error.line}: ${error.type}`);
+        report.push(`     ${error.message}`);
+      });
+    }
+
+    if (this.fixLog.length > 0) {
+      report.push('\nFix Log:');
+      this.fixLog.forEach(log => report.push(`  ${log}`));
+    }
+
+    return report.join('\n');
+  }
+}
+
+// Export singleton instance
+export const codeRepairEngine = new CodeRepairEngine();
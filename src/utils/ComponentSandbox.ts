@@ -0,0 +1,137 @@
+import { SandboxAssets } from './SandboxAssets';
+
+/** `channel` field on the render report a React app frame sends the host */
+export const COMPONENT_CHANNEL = 'vantage-component';
+
+/**
+ * What a React app frame reported once it mounted the component, or failed to
+ */
+export interface ComponentReport {
+  /** The component compiled and mounted without throwing */
+  rendered: boolean;
+  /** The root had children once the first render settled */
+  hasVisibleContent: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+// Time after mounting for effects and the first re-renders to run
+const RENDER_SETTLE_MS = 300;
+
+// The Tailwind Play CDN build warns about itself on every page
+const IGNORED_WARNING = 'cdn.tailwindcss.com should not be used in production';
+
+/**
+ * Runs ahead of the libraries: records console errors and uncaught
+ * exceptions, compiles and mounts the component once everything has loaded,
+ * and posts a single report to the host. The frame has an opaque origin, so
+ * the host cannot read any of this from the frame's window.
+ */
+const mountScript = (source: string): string => `(function () {
+  var CHANNEL = '${COMPONENT_CHANNEL}';
+  var SOURCE = ${JSON.stringify(source).replace(/</g, '\\u003c')};
+  var errors = [];
+  var warnings = [];
+  var originalError = console.error;
+  var originalWarn = console.warn;
+
+  console.error = function () {
+    errors.push(Array.from(arguments).map(String).join(' '));
+    return originalError.apply(console, arguments);
+  };
+  console.warn = function () {
+    var message = Array.from(arguments).map(String).join(' ');
+    if (message.indexOf('${IGNORED_WARNING}') !== 0) warnings.push(message);
+    return originalWarn.apply(console, arguments);
+  };
+  window.addEventListener('error', function (event) {
+    errors.push('Uncaught ' + (event.message || 'error') + (event.lineno ? ' (line ' + event.lineno + ')' : ''));
+  });
+  window.addEventListener('unhandledrejection', function (event) {
+    var reason = event.reason && event.reason.message ? event.reason.message : String(event.reason);
+    errors.push('Unhandled promise rejection: ' + reason);
+  });
+
+  function report(rendered) {
+    var root = document.getElementById('root');
+    parent.postMessage({
+      channel: CHANNEL,
+      rendered: rendered,
+      hasVisibleContent: !!root && root.children.length > 0,
+      errors: errors,
+      warnings: warnings
+    }, '*');
+  }
+
+  window.addEventListener('load', function () {
+    try {
+      if (typeof React === 'undefined' || typeof ReactDOM === 'undefined' || typeof Babel === 'undefined') {
+        throw new Error('React, ReactDOM or Babel did not load');
+      }
+      var compiled = Babel.transform(SOURCE, { presets: ['react'] }).code;
+      var App = new Function('React', 'ReactDOM', compiled + '\\nreturn typeof App === "function" ? App : null;')(React, ReactDOM);
+      if (!App) {
+        throw new Error('The code does not define an App component');
+      }
+      ReactDOM.createRoot(document.getElementById('root')).render(React.createElement(App));
+    } catch (error) {
+      errors.push(error && error.message ? (error.name || 'Error') + ': ' + error.message : String(error));
+      report(false);
+      return;
+    }
+    setTimeout(function () { report(true); }, ${RENDER_SETTLE_MS});
+  });
+})();`;
+
+export class ComponentSandbox {
+  /**
+   * Page that renders a React app with the vendored libraries. React is a
+   * global there, so imports are dropped and the default export becomes a
+   * plain `App` function. `headScript` runs before anything else loads.
+   */
+  static buildDocument(componentCode: string, headScript = ''): string {
+    const source = componentCode
+      .split('\n')
+      .filter(line => !line.trim().match(/^import\s+/))
+      .join('\n')
+      .replace(/export\s+default\s+/g, '');
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="${SandboxAssets.contentSecurityPolicy()}">
+  <script>${mountScript(source)}</script>${headScript ? `\n  <script>${headScript}</script>` : ''}
+  <!-- React 18, ReactDOM 18, Babel Standalone (JSX) and Tailwind, vendored -->
+  ${SandboxAssets.scriptTag('react')}
+  ${SandboxAssets.scriptTag('reactDom')}
+  ${SandboxAssets.scriptTag('babel')}
+  ${SandboxAssets.scriptTag('tailwind')}
+  <style>
+    body { margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif; }
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+</body>
+</html>`;
+  }
+
+  /**
+   * The render report in a message from a component frame, or null for any other message
+   */
+  static readMessage(data: unknown): ComponentReport | null {
+    if (!data || typeof data !== 'object') return null;
+
+    const message = data as Record<string, unknown>;
+    if (message.channel !== COMPONENT_CHANNEL) return null;
+
+    const strings = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+    return {
+      rendered: message.rendered === true,
+      hasVisibleContent: message.hasVisibleContent === true,
+      errors: strings(message.errors),
+      warnings: strings(message.warnings)
+    };
+  }
+}
@@ -0,0 +1,173 @@
+import { ElementTarget, MAX_TARGET_HTML, normalizeElementTarget } from '../models/ElementTarget';
+
+/** `channel` field on inspect-mode messages between an app frame and the host */
+export const INSPECTOR_CHANNEL = 'vantage-inspector';
+
+// Computed styles worth showing the model; the full list is hundreds of defaults
+const STYLE_PROPERTIES = [
+  'display', 'position', 'width', 'height', 'margin', 'padding',
+  'color', 'background-color', 'font-family', 'font-size', 'font-weight', 'line-height', 'text-align',
+  'border', 'border-radius', 'box-shadow', 'flex-direction', 'justify-content', 'align-items', 'gap'
+];
+
+/**
+ * Runs inside the app frame and stays idle until the host enables inspect
+ * mode. While enabled it outlines the element under the pointer, swallows the
+ * app's own clicks, and reports the clicked element (or Escape) to the host.
+ */
+const inspectorScript = (): string => `(function () {
+  var CHANNEL = '${INSPECTOR_CHANNEL}';
+  var PROPERTIES = ${JSON.stringify(STYLE_PROPERTIES)};
+  var MAX_HTML = ${MAX_TARGET_HTML};
+  var BLOCKED_EVENTS = ['mousedown', 'mouseup', 'pointerdown', 'pointerup', 'dblclick', 'submit'];
+  var active = false;
+  var overlay = null;
+  var label = null;
+  var cursorStyle = null;
+
+  function ensureOverlay() {
+    if (overlay) return;
+    overlay = document.createElement('div');
+    overlay.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;outline:2px solid #0072CE;background:rgba(0,114,206,0.12);display:none;';
+    label = document.createElement('div');
+    label.style.cssText = 'position:absolute;left:0;top:-22px;padding:2px 6px;font:12px system-ui,sans-serif;color:#fff;background:#0072CE;border-radius:4px;white-space:nowrap;';
+    overlay.appendChild(label);
+    cursorStyle = document.createElement('style');
+    cursorStyle.textContent = '* { cursor: crosshair !important; }';
+  }
+
+  function segment(el) {
+    var tag = el.tagName.toLowerCase();
+    if (el.id && window.CSS && document.querySelectorAll('#' + CSS.escape(el.id)).length === 1) {
+      return '#' + CSS.escape(el.id);
+    }
+    var index = 1;
+    var sameTag = 0;
+    var siblings = el.parentElement ? el.parentElement.children : [];
+    for (var i = 0; i < siblings.length; i++) {
+      if (siblings[i].tagName !== el.tagName) continue;
+      sameTag++;
+      if (siblings[i] === el) index = sameTag;
+    }
+    return sameTag > 1 ? tag + ':nth-of-type(' + index + ')' : tag;
+  }
+
+  function selectorFor(el) {
+    var parts = [];
+    while (el && el.nodeType === 1 && el !== document.documentElement) {
+      var part = segment(el);
+      parts.unshift(part);
+      if (part.charAt(0) === '#' || el === document.body) break;
+      el = el.parentElement;
+    }
+    return parts.join(' > ');
+  }
+
+  function capture(el) {
+    var computed = getComputedStyle(el);
+    var styles = {};
+    PROPERTIES.forEach(function (name) {
+      var value = computed.getPropertyValue(name);
+      if (value) styles[name] = value;
+    });
+    var html = el.outerHTML;
+    return {
+      selector: selectorFor(el),
+      outerHTML: html.length > MAX_HTML ? html.slice(0, MAX_HTML) + '…' : html,
+      styles: styles
+    };
+  }
+
+  function onMove(event) {
+    var el = event.target;
+    if (!el || el.nodeType !== 1) return;
+    var rect = el.getBoundingClientRect();
+    overlay.style.display = 'block';
+    overlay.style.top = rect.top + 'px';
+    overlay.style.left = rect.left + 'px';
+    overlay.style.width = rect.width + 'px';
+    overlay.style.height = rect.height + 'px';
+    label.textContent = selectorFor(el);
+  }
+
+  function block(event) {
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  function onClick(event) {
+    block(event);
+    var el = event.target;
+    setActive(false);
+    if (el && el.nodeType === 1) {
+      parent.postMessage({ channel: CHANNEL, type: 'picked', target: capture(el) }, '*');
+    }
+  }
+
+  function onKey(event) {
+    if (event.key !== 'Escape') return;
+    block(event);
+    setActive(false);
+    parent.postMessage({ channel: CHANNEL, type: 'cancelled' }, '*');
+  }
+
+  function setActive(value) {
+    if (active === value) return;
+    active = value;
+    ensureOverlay();
+    var method = value ? 'addEventListener' : 'removeEventListener';
+    // Window capture runs before any listener the app (or the bridge) put on the document
+    window[method]('mousemove', onMove, true);
+    window[method]('click', onClick, true);
+    window[method]('keydown', onKey, true);
+    BLOCKED_EVENTS.forEach(function (type) { window[method](type, block, true); });
+    if (value) {
+      document.documentElement.appendChild(overlay);
+      document.documentElement.appendChild(cursorStyle);
+    } else {
+      overlay.style.display = 'none';
+      if (overlay.parentNode) overlay.parentNode.removeChild(overlay);
+      if (cursorStyle.parentNode) cursorStyle.parentNode.removeChild(cursorStyle);
+    }
+  }
+
+  window.addEventListener('message', function (event) {
+    var data = event.data;
+    if (event.source !== parent || !data || data.channel !== CHANNEL || data.type !== 'inspect') return;
+    setActive(!!data.enabled);
+  });
+})();`;
+
+/**
+ * What an app frame reported when inspect mode ended; `target` is null when
+ * the user pressed Escape instead of picking an element
+ */
+export interface InspectResult {
+  target: ElementTarget | null;
+}
+
+export class ElementInspector {
+  /** Script to inject into an app frame, ahead of the app's own code */
+  static script(): string {
+    return inspectorScript();
+  }
+
+  static setActive(frame: HTMLIFrameElement | null, active: boolean): void {
+    frame?.contentWindow?.postMessage({ channel: INSPECTOR_CHANNEL, type: 'inspect', enabled: active }, '*');
+  }
+
+  /**
+   * The inspect result in a message from an app frame, or null for any other message
+   */
+  static readMessage(data: unknown): InspectResult | null {
+    if (!data || typeof data !== 'object') return null;
+
+    const message = data as Record<string, unknown>;
+    if (message.channel !== INSPECTOR_CHANNEL) return null;
+    if (message.type === 'cancelled') return { target: null };
+    if (message.type !== 'picked') return null;
+
+    const target = normalizeElementTarget(message.target);
+    return target ? { target } : null;
+  }
+}
@@ -0,0 +1,121 @@
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  /** 1-based line number in the old text (equal and removed lines) */
+  oldLine?: number;
+  /** 1-based line number in the new text (equal and added lines) */
+  newLine?: number;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+  unchanged: number;
+}
+
+// Above this many LCS cells the changed middle is reported as a full replacement
+const MAX_LCS_CELLS = 16_000_000;
+
+export class LineDiff {
+  /**
+   * Line-level diff of two texts using the longest common subsequence.
+   * Common leading and trailing lines are stripped first, so typical edits
+   * to large generated files only run the LCS over the changed region.
+   */
+  static diff(oldText: string, newText: string): DiffLine[] {
+    const oldLines = oldText.split('\n');
+    const newLines = newText.split('\n');
+
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+      prefix++;
+    }
+
+    let suffix = 0;
+    while (
+      suffix < oldLines.length - prefix &&
+      suffix < newLines.length - prefix &&
+      oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const result: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+      result.push({ type: 'equal', text: oldLines[i], oldLine: i + 1, newLine: i + 1 });
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    result.push(...this.diffMiddle(oldMiddle, newMiddle, prefix));
+
+    for (let i = suffix; i > 0; i--) {
+      const oldIndex = oldLines.length - i;
+      const newIndex = newLines.length - i;
+      result.push({ type: 'equal', text: oldLines[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 });
+    }
+
+    return result;
+  }
+
+  static stats(lines: DiffLine[]): DiffStats {
+    const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+    for (const line of lines) {
+      if (line.type === 'added') stats.added++;
+      else if (line.type === 'removed') stats.removed++;
+      else stats.unchanged++;
+    }
+    return stats;
+  }
+
+  private static diffMiddle(oldLines: string[], newLines: string[], offset: number): DiffLine[] {
+    const n = oldLines.length;
+    const m = newLines.length;
+    const result: DiffLine[] = [];
+
+    if (n * m > MAX_LCS_CELLS) {
+      oldLines.forEach((text, i) => result.push({ type: 'removed', text, oldLine: offset + i + 1 }));
+      newLines.forEach((text, j) => result.push({ type: 'added', text, newLine: offset + j + 1 }));
+      return result;
+    }
+
+    // lengths[i * (m + 1) + j] = LCS length of oldLines[i..] and newLines[j..]
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = oldLines[i] === newLines[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldLines[i] === newLines[j]) {
+        result.push({ type: 'equal', text: oldLines[i], oldLine: offset + i + 1, newLine: offset + j + 1 });
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+        i++;
+      } else {
+        result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+        j++;
+      }
+    }
+    while (i < n) {
+      result.push({ type: 'removed', text: oldLines[i], oldLine: offset + i + 1 });
+      i++;
+    }
+    while (j < m) {
+      result.push({ type: 'added', text: newLines[j], newLine: offset + j + 1 });
+      j++;
+    }
+
+    return result;
+  }
+}
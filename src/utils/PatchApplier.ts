@@ -0,0 +1,131 @@
+/**
+ * One search/replace edit from a model reply:
+ *
+ *   <<<<<<< SEARCH
+ *   lines copied from the current code
+ *   =======
+ *   lines that replace them
+ *   >>>>>>> REPLACE
+ */
+export interface PatchBlock {
+  search: string;
+  replace: string;
+}
+
+export type PatchConflictReason = 'empty-search' | 'not-found' | 'ambiguous';
+
+export interface PatchConflict {
+  /** 0-based index of the block in the reply */
+  block: number;
+  reason: PatchConflictReason;
+  search: string;
+}
+
+export interface PatchResult {
+  /** The patched code, or the original when any block conflicted */
+  code: string;
+  applied: number;
+  conflicts: PatchConflict[];
+}
+
+interface Match {
+  start: number;
+  end: number;
+}
+
+const BLOCK_PATTERN = /^<{5,9} ?SEARCH[^\n]*\n([\s\S]*?)^={5,9}[ \t]*\n([\s\S]*?)^>{5,9} ?REPLACE[^\n]*$/gm;
+
+const CONFLICT_MESSAGES: Record<PatchConflictReason, string> = {
+  'empty-search': 'has an empty SEARCH section',
+  'not-found': 'searches for text that is not in the code',
+  ambiguous: 'searches for text that appears more than once'
+};
+
+export class PatchApplier {
+  static parse(text: string): PatchBlock[] {
+    const normalized = text.replace(/\r\n/g, '\n');
+    return Array.from(normalized.matchAll(BLOCK_PATTERN), match => ({ search: match[1], replace: match[2] }));
+  }
+
+  /**
+   * Text of a reply before its first block, e.g. the model's summary of the change
+   */
+  static preamble(text: string): string {
+    const start = text.search(/^<{5,9} ?SEARCH/m);
+    return (start >= 0 ? text.substring(0, start) : text).replace(/```[\w-]*\s*$/, '').trim();
+  }
+
+  /**
+   * Apply the blocks in order, each to the result of the ones before it.
+   * All or nothing: if any block conflicts, the code comes back unchanged.
+   */
+  static apply(code: string, blocks: PatchBlock[]): PatchResult {
+    const conflicts: PatchConflict[] = [];
+    let patched = code;
+
+    blocks.forEach((block, index) => {
+      if (!block.search.trim()) {
+        conflicts.push({ block: index, reason: 'empty-search', search: block.search });
+        return;
+      }
+
+      const matches = this.locate(patched, block.search);
+      if (matches.length !== 1) {
+        conflicts.push({ block: index, reason: matches.length === 0 ? 'not-found' : 'ambiguous', search: block.search });
+        return;
+      }
+
+      const [{ start, end }] = matches;
+      patched = patched.substring(0, start) + block.replace + patched.substring(end);
+    });
+
+    return conflicts.length > 0
+      ? { code, applied: 0, conflicts }
+      : { code: patched, applied: blocks.length, conflicts };
+  }
+
+  static describe(conflict: PatchConflict): string {
+    const firstLine = conflict.search.trim().split('\n')[0] || '';
+    return `Block ${conflict.block + 1} ${CONFLICT_MESSAGES[conflict.reason]}${firstLine ? `: "${firstLine.substring(0, 80)}"` : ''}`;
+  }
+
+  /**
+   * Where `search` occurs: exact matches of whole lines first, then whole
+   * lines compared without surrounding whitespace (models often re-indent what
+   * they copy), then exact matches anywhere
+   */
+  private static locate(code: string, search: string): Match[] {
+    const atLineStart = this.occurrences(code, search, index => index === 0 || code[index - 1] === '\n');
+    if (atLineStart.length > 0) return atLineStart;
+
+    const lines = code.split('\n');
+    const lineStarts: number[] = [];
+    lines.reduce((offset, line) => {
+      lineStarts.push(offset);
+      return offset + line.length + 1;
+    }, 0);
+
+    const wanted = search.replace(/\n$/, '').split('\n').map(line => line.trim());
+    const matches: Match[] = [];
+    for (let first = 0; first + wanted.length <= lines.length && matches.length < 2; first++) {
+      if (!wanted.every((line, offset) => lines[first + offset].trim() === line)) continue;
+
+      const last = first + wanted.length;
+      // Keep the newline after the matched lines when the search text did not include one
+      const end = last < lines.length ? lineStarts[last] - (search.endsWith('\n') ? 0 : 1) : code.length;
+      matches.push({ start: lineStarts[first], end });
+    }
+    if (matches.length > 0) return matches;
+
+    return this.occurrences(code, search, () => true);
+  }
+
+  // Stops at two, which is enough to tell a unique match from an ambiguous one
+  private static occurrences(code: string, search: string, accept: (index: number) => boolean): Match[] {
+    const matches: Match[] = [];
+    for (let index = code.indexOf(search); index >= 0 && matches.length < 2; index = code.indexOf(search, index + 1)) {
+      if (accept(index)) matches.push({ start: index, end: index + search.length });
+    }
+    return matches;
+  }
+}
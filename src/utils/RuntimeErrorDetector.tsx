@@ -125,73 +125,6 @@ export class RuntimeErrorDetector {
     return 'Check for missing operators, unbalanced brackets, or incorrect template literal syntax';
   }
 
-  /**
-   * Attempts to auto-fix common runtime errors
-   */
-  public attemptAutoFix(error: RuntimeError, code: string): string | null {
-    let fixedCode = code;
-
-    // Based on the error type, apply specific fixes
-    switch (error.type) {
-      case 'SyntaxError':
-        if (error.possibleCause?.includes('template literal')) {
-          // Find the error line and fix template literals
-          const lines = code.split('\n');
-          if (error.line && error.line <= lines.length) {
-            const line = lines[error.line - 1];
-            const fixedLine = this.fixLineTemplateLiterals(line);
-            if (fixedLine !== line) {
-              lines[error.line - 1] = fixedLine;
-              return lines.join('\n');
-            }
-          }
-        }
-        break;
-
-      case 'ReferenceError':
-        if (error.message.includes('is not defined')) {
-          const varName = error.message.match(/(\w+) is not defined/)?.[1];
-          if (varName && ['useState', 'useEffect', 'useCallback', 'useMemo'].includes(varName)) {
-            // Add React prefix
-            fixedCode = fixedCode.replace(new RegExp(`\\b${varName}\\b`, 'g'), `React.${varName}`);
-            return fixedCode;
-          }
-        }
-        break;
-    }
-
-    return null;
-  }
-
-  /**
-   * Fix template literals in a single line
-   */
-  private fixLineTemplateLiterals(line: string): string {
-    // Fix className without backticks
-    if (line.includes('className=') && line.includes('${')) {
-      line = line.replace(/className=\{([^`][^}]+)\}/g, (match, content) => {
-        if (content.includes('${')) {
-          return `className={\`${content}\`}`;
-        }
-        return match;
-      });
-    }
-
-    // Fix style properties
-    if (line.includes('style=') && line.includes('${')) {
-      line = line.replace(/:\s*([^`][^,}]*\$\{[^}]+\}[^,}]*)/g, (match, value) => {
-        return `: \`${value.trim()}\``;
-      });
-    }
-
-    // Fix JSX text content
-    if (line.includes('>${') && !line.includes('{`')) {
-      line = line.replace(/>([^<]*\$\{[^}]+\}[^<]*)</g, '>{\`$1\`}<');
-    }
-
-    return line;
-  }
-
   /**
    * Create a detailed error report
    */
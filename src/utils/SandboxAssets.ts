@@ -0,0 +1,43 @@
+import { loadSecurityPolicy } from '../services/securityPolicy';
+
+export type SandboxAsset = 'react' | 'reactDom' | 'babel' | 'tailwind';
+
+// Served by the sandbox-vendor plugin in vite.config.ts
+const VENDOR_FILES: Record<SandboxAsset, string> = {
+  react: 'react.development.js',
+  reactDom: 'react-dom.development.js',
+  babel: 'babel.min.js',
+  tailwind: 'tailwindcss.js'
+};
+
+export class SandboxAssets {
+  /**
+   * Absolute URL of a vendored library. Sandboxed srcdoc iframes have an
+   * opaque origin, so neither relative URLs nor CSP 'self' point back at us.
+   */
+  static url(asset: SandboxAsset): string {
+    return new URL(`${import.meta.env.BASE_URL}vendor/${VENDOR_FILES[asset]}`, window.location.origin).href;
+  }
+
+  static scriptTag(asset: SandboxAsset): string {
+    return `<script src="${this.url(asset)}"></script>`;
+  }
+
+  /**
+   * CSP for sandbox documents: scripts only from the app's own origin, images
+   * also from the security policy's allowed hosts and their subdomains
+   */
+  static contentSecurityPolicy(allowedHosts: string[] = loadSecurityPolicy().allowedHosts): string {
+    const origin = window.location.origin;
+    const imageHosts = allowedHosts
+      .filter(host => /^[a-z0-9.-]+$/i.test(host))
+      .flatMap(host => [`https://${host}`, `https://*.${host}`]);
+    return [
+      `default-src ${origin}`,
+      `script-src ${origin} 'unsafe-inline' 'unsafe-eval'`,
+      `style-src ${origin} 'unsafe-inline'`,
+      `img-src ${[origin, 'data:', 'blob:', ...imageHosts].join(' ')}`,
+      `connect-src ${origin}`
+    ].join('; ');
+  }
+}
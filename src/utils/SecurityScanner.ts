@@ -0,0 +1,276 @@
+import { parse } from '@babel/parser';
+import { AppKind, VantageApp } from '../models/VantageApp';
+import { SyntaxChecker } from './SyntaxChecker';
+
+export type SecuritySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+export const SECURITY_SEVERITIES: SecuritySeverity[] = ['critical', 'high', 'medium', 'low'];
+
+export type SecurityAction = 'block' | 'warn' | 'ignore';
+
+export interface SecurityPolicy {
+  actions: Record<SecuritySeverity, SecurityAction>;
+  /** Hosts apps may call; subdomains are allowed too */
+  allowedHosts: string[];
+}
+
+export interface SecurityFinding {
+  ruleId: string;
+  severity: SecuritySeverity;
+  message: string;
+  line: number;
+}
+
+export interface SecurityHit {
+  index: number;
+  message: string;
+}
+
+export interface SecurityRule {
+  id: string;
+  title: string;
+  severity: SecuritySeverity;
+  /** Kinds the rule applies to; all kinds when omitted */
+  kinds?: AppKind[];
+  /**
+   * What the rule reads: only script text by default, so words in the page's
+   * prose are not mistaken for code; `source` for markup such as script URLs
+   */
+  scope?: 'script' | 'source';
+  scan: (code: string, policy: SecurityPolicy) => SecurityHit[];
+}
+
+export interface SecurityReport {
+  findings: SecurityFinding[];
+  /** Findings the policy refuses to save */
+  blocked: SecurityFinding[];
+  warnings: SecurityFinding[];
+}
+
+function hits(code: string, pattern: RegExp, message: string | ((match: RegExpMatchArray) => string)): SecurityHit[] {
+  const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`);
+  return Array.from(code.matchAll(global), match => ({
+    index: match.index ?? 0,
+    message: typeof message === 'string' ? message : message(match)
+  }));
+}
+
+const INLINE_HANDLER = /\son[a-z]+\s*=\s*(["'])([\s\S]*?)\1/gi;
+
+const blank = (text: string): string => text.replace(/[^\n]/g, ' ');
+
+/**
+ * A script with its comments and JSX text blanked out; unchanged if it does not parse
+ */
+function withoutProse(code: string, jsx: boolean): string {
+  let ast;
+  try {
+    ast = parse(code, { sourceType: 'module', plugins: jsx ? ['jsx'] : [], errorRecovery: true });
+  } catch (error) {
+    return code;
+  }
+
+  const ranges: Array<{ start: number; end: number }> = (ast.comments || []).map(comment => ({ start: comment.start ?? 0, end: comment.end ?? 0 }));
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== 'object') return;
+
+    const node = value as Record<string, unknown>;
+    if (node.type === 'JSXText') ranges.push({ start: Number(node.start), end: Number(node.end) });
+    Object.entries(node).forEach(([key, child]) => {
+      if (key !== 'loc' && key !== 'comments' && !key.endsWith('Comments')) visit(child);
+    });
+  };
+  visit(ast.program);
+
+  return ranges.reduce((text, { start, end }) => text.slice(0, start) + blank(text.slice(start, end)) + text.slice(end), code);
+}
+
+/**
+ * The code with everything but script text blanked out, so indices and line
+ * numbers still match: a page's inline scripts and on* handlers, or a React
+ * app without its comments and JSX text
+ */
+function scriptText(app: Pick<VantageApp, 'kind' | 'code'>): string {
+  if (app.kind === 'react') return withoutProse(app.code, true);
+
+  const { code } = app;
+  const lineStarts = [0, ...Array.from(code.matchAll(/\n/g), match => (match.index ?? 0) + 1)];
+  const kept = [
+    ...Array.from(code.matchAll(INLINE_HANDLER), match => ({
+      start: (match.index ?? 0) + match[0].length - 1 - match[2].length,
+      text: match[2]
+    })),
+    ...SyntaxChecker.extractScripts(code).map(block => ({
+      start: lineStarts[block.line - 1] + block.column - 1,
+      text: withoutProse(block.code, block.jsx)
+    }))
+  ];
+
+  return kept.reduce((text, { start, text: script }) => text.slice(0, start) + script + text.slice(start + script.length), blank(code));
+}
+
+function hostOf(origin: string): string {
+  return origin.replace(/^\w+:\/\//, '').replace(/:\d+$/, '').toLowerCase();
+}
+
+function isAllowedHost(host: string, allowedHosts: string[]): boolean {
+  return allowedHosts.some(allowed => host === allowed || host.endsWith(`.${allowed}`));
+}
+
+// Sinks that turn a string into markup
+const HTML_SINK = /(?:\.(?:innerHTML|outerHTML)\s*\+?=|\.insertAdjacentHTML\s*\(|document\.write(?:ln)?\s*\(|dangerouslySetInnerHTML\s*=)/g;
+
+const NETWORK_CALLS = [
+  /\b(?:fetch|sendBeacon)\s*\(\s*[`'"]((?:https?|wss?):\/\/[^/'"`\s?#]+)/g,
+  /new\s+(?:WebSocket|EventSource)\s*\(\s*[`'"]((?:https?|wss?):\/\/[^/'"`\s?#]+)/g,
+  /\.open\s*\(\s*[`'"]\w+[`'"]\s*,\s*[`'"](https?:\/\/[^/'"`\s?#]+)/g,
+  /\baxios(?:\.\w+)?\s*\(\s*[`'"](https?:\/\/[^/'"`\s?#]+)/g
+];
+
+const BUILT_IN_RULES: SecurityRule[] = [
+  {
+    id: 'dynamic-code',
+    title: 'Dynamic code execution',
+    severity: 'high',
+    scan: code => [
+      ...hits(code, /(?<![\w$.])eval\s*\(/, 'Runs strings as code with eval()'),
+      ...hits(code, /new\s+Function\s*\(/, 'Runs strings as code with new Function()'),
+      ...hits(code, /\bset(?:Timeout|Interval)\s*\(\s*[`'"]/, 'Passes a code string to a timer')
+    ]
+  },
+  {
+    id: 'cookie-access',
+    title: 'Cookie access',
+    severity: 'high',
+    scan: code => hits(code, /document\.cookie/, 'Reads or writes document.cookie')
+  },
+  {
+    id: 'frame-escape',
+    title: 'Access to the host page',
+    severity: 'high',
+    scan: code => hits(
+      code,
+      /(?<![\w$.])(?:window\.)?(parent|top|opener)\s*(?:\.|\[)|\bwindow\.(parent|top|opener)\b/,
+      match => `Reaches outside the app through window.${match[1] || match[2]}`
+    )
+  },
+  {
+    id: 'unknown-host',
+    title: 'Network call to an unlisted host',
+    severity: 'medium',
+    scan: (code, policy) => NETWORK_CALLS
+      .flatMap(pattern => Array.from(code.matchAll(pattern)))
+      .map(match => ({ index: match.index ?? 0, host: hostOf(match[1]) }))
+      // Hosts built at runtime (`https://${domain}`) cannot be checked statically
+      .filter(({ host }) => !host.includes('$') && !isAllowedHost(host, policy.allowedHosts))
+      .map(({ index, host }) => ({ index, message: `Calls ${host}, which is not an allowed host` }))
+  },
+  {
+    id: 'crypto-miner',
+    title: 'Cryptocurrency miner',
+    severity: 'critical',
+    scope: 'source',
+    scan: code => hits(
+      code,
+      /coin-?hive|coinimp|cryptonight|crypto-?loot|webminepool|jsecoin|deepminer|minero\.cc|stratum\+tcp|\.miner\.start\s*\(/i,
+      match => `Contains crypto-miner signature "${match[0]}"`
+    )
+  },
+  {
+    id: 'storage-enumeration',
+    title: 'Storage enumeration',
+    severity: 'medium',
+    scan: code => [
+      ...hits(code, /\b(local|session)Storage\.key\s*\(/, match => `Enumerates ${match[1]}Storage keys`),
+      ...hits(code, /Object\.(?:keys|entries|values)\(\s*(?:window\.)?(local|session)Storage\s*\)/, match => `Enumerates ${match[1]}Storage keys`),
+      ...hits(code, /\bin\s+(?:window\.)?(local|session)Storage\b/, match => `Enumerates ${match[1]}Storage keys`)
+    ]
+  },
+  {
+    id: 'inline-handler-injection',
+    title: 'Inline event handler injection',
+    severity: 'high',
+    scan: code => [
+      ...hits(code, /\.setAttribute\s*\(\s*[`'"]on[a-z]+[`'"]/i, 'Sets an inline on* handler with setAttribute'),
+      ...Array.from(code.matchAll(HTML_SINK))
+        .filter(match => {
+          const start = (match.index ?? 0) + match[0].length;
+          const statement = code.slice(start, start + 500).split(';')[0];
+          return /\son[a-z]+\s*=/i.test(statement);
+        })
+        .map(match => ({
+          index: match.index ?? 0,
+          message: 'Injects markup with an inline on* handler - attach listeners with addEventListener instead'
+        }))
+    ]
+  }
+];
+
+/**
+ * Static security checks for generated apps. Rules are pluggable: register
+ * a rule with an existing id to replace it. What happens to a finding is up
+ * to the SecurityPolicy, not the rule.
+ */
+export class SecurityScanner {
+  private static rules: SecurityRule[] = [...BUILT_IN_RULES];
+
+  static register(rule: SecurityRule): void {
+    this.rules = [...this.rules.filter(existing => existing.id !== rule.id), rule];
+  }
+
+  static getRules(): SecurityRule[] {
+    return [...this.rules];
+  }
+
+  static scan(app: Pick<VantageApp, 'kind' | 'code'>, policy: SecurityPolicy): SecurityFinding[] {
+    const lineStarts = [0];
+    for (let i = 0; i < app.code.length; i++) {
+      if (app.code[i] === '\n') lineStarts.push(i + 1);
+    }
+    const lineOf = (index: number) => {
+      let line = 0;
+      while (line + 1 < lineStarts.length && lineStarts[line + 1] <= index) line++;
+      return line + 1;
+    };
+
+    const script = scriptText(app);
+
+    return this.rules
+      .filter(rule => !rule.kinds || rule.kinds.includes(app.kind))
+      .flatMap(rule =>
+        rule.scan(rule.scope === 'source' ? app.code : script, policy).map(hit => ({
+          ruleId: rule.id,
+          severity: rule.severity,
+          message: hit.message,
+          line: lineOf(hit.index)
+        }))
+      )
+      // One report per problem per line, however many times the pattern matched there
+      .filter((finding, index, all) =>
+        all.findIndex(other =>
+          other.ruleId === finding.ruleId && other.line === finding.line && other.message === finding.message
+        ) === index
+      )
+      .sort((a, b) => SECURITY_SEVERITIES.indexOf(a.severity) - SECURITY_SEVERITIES.indexOf(b.severity) || a.line - b.line);
+  }
+
+  /**
+   * Scan and sort the findings by what the policy does with them
+   */
+  static check(app: Pick<VantageApp, 'kind' | 'code'>, policy: SecurityPolicy): SecurityReport {
+    const findings = this.scan(app, policy).filter(finding => policy.actions[finding.severity] !== 'ignore');
+    return {
+      findings,
+      blocked: findings.filter(finding => policy.actions[finding.severity] === 'block'),
+      warnings: findings.filter(finding => policy.actions[finding.severity] === 'warn')
+    };
+  }
+
+  static format(finding: SecurityFinding): string {
+    return `[${finding.severity}] Line ${finding.line}: ${finding.message}`;
+  }
+}
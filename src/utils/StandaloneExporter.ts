@@ -0,0 +1,193 @@
+import { VantageApp } from '../models/VantageApp';
+import { ZipArchive } from './ZipArchive';
+import { SandboxAssets } from './SandboxAssets';
+
+export interface StandaloneManifest {
+  name: string;
+  description: string;
+  kind: VantageApp['kind'];
+  /** SVG data URL, also used as the page favicon */
+  icon: string;
+  createdAt: string;
+  exportedAt: string;
+  entry: string;
+  script?: string;
+}
+
+export interface StandaloneExport {
+  fileName: string;
+  blob: Blob;
+}
+
+const TRANSPILE_TIMEOUT = 15000;
+
+// Characters that would end an inline <script> or <title> early
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+const escapeInlineScript = (code: string): string => code.replace(/<\/script/gi, '<\\/script');
+
+export class StandaloneExporter {
+  /**
+   * Single self-contained index.html for any app. React apps are transpiled
+   * up front and inlined, so the page needs no Babel at runtime.
+   */
+  static async exportHtml(app: VantageApp): Promise<StandaloneExport> {
+    const html = app.kind === 'react'
+      ? this.buildReactPage(app, `<script>\n${escapeInlineScript(await this.transpileComponent(app.code))}\n</script>`)
+      : this.buildHtmlPage(app);
+
+    return {
+      fileName: `${this.slugify(app.name)}.html`,
+      blob: new Blob([html], { type: 'text/html' })
+    };
+  }
+
+  /**
+   * Static-host package for React apps: index.html, the transpiled app.js and a manifest
+   */
+  static async exportZip(app: VantageApp): Promise<StandaloneExport> {
+    if (app.kind !== 'react') {
+      throw new Error('Zip packages are only available for React apps');
+    }
+
+    const script = await this.transpileComponent(app.code);
+    const manifest: StandaloneManifest = {
+      name: app.name,
+      description: app.description,
+      kind: app.kind,
+      icon: app.iconUrl,
+      createdAt: app.createdAt,
+      exportedAt: new Date().toISOString(),
+      entry: 'index.html',
+      script: 'app.js'
+    };
+
+    const slug = this.slugify(app.name);
+    const blob = ZipArchive.create([
+      { name: `${slug}/index.html`, content: this.buildReactPage(app, '<script src="app.js"></script>') },
+      { name: `${slug}/app.js`, content: script },
+      { name: `${slug}/manifest.json`, content: JSON.stringify(manifest, null, 2) }
+    ]);
+
+    return { fileName: `${slug}.zip`, blob };
+  }
+
+  /**
+   * HTML apps are already complete documents; only add a title and favicon when missing
+   */
+  private static buildHtmlPage(app: VantageApp): string {
+    let html = app.code;
+    const headTags: string[] = [];
+
+    if (!/<title[\s>]/i.test(html)) {
+      headTags.push(`<title>${escapeHtml(app.name)}</title>`);
+    }
+    if (app.iconUrl && !/<link[^>]+rel=["']?(shortcut )?icon/i.test(html)) {
+      headTags.push(`<link rel="icon" href="${escapeHtml(app.iconUrl)}">`);
+    }
+
+    if (headTags.length > 0) {
+      const injected = `\n  ${headTags.join('\n  ')}`;
+      html = /<head[^>]*>/i.test(html)
+        ? html.replace(/<head[^>]*>/i, match => match + injected)
+        : html.replace(/<html[^>]*>/i, match => `${match}\n<head>${injected}\n</head>`);
+    }
+
+    return html;
+  }
+
+  /**
+   * Exported apps run outside Vantage, so they load the same pinned library
+   * versions as the sandbox from a public CDN
+   */
+  private static buildReactPage(app: VantageApp, scriptTag: string): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="description" content="${escapeHtml(app.description)}">
+  <title>${escapeHtml(app.name)}</title>
+  ${app.iconUrl ? `<link rel="icon" href="${escapeHtml(app.iconUrl)}">` : ''}
+  <script crossorigin src="https://unpkg.com/react@18.3.1/umd/react.production.min.js"></script>
+  <script crossorigin src="https://unpkg.com/react-dom@18.3.1/umd/react-dom.production.min.js"></script>
+  <script src="https://unpkg.com/tailwindcss-cdn@3.4.10/3.4.10/tailwindcss.js"></script>
+  <style>
+    body { margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', 'Roboto', 'Oxygen', 'Ubuntu', 'Cantarell', 'Fira Sans', 'Droid Sans', 'Helvetica Neue', sans-serif; }
+  </style>
+</head>
+<body>
+  <div id="root"></div>
+  ${scriptTag}
+</body>
+</html>
+`;
+  }
+
+  /**
+   * Compile the component to plain JS with Babel in a sandboxed iframe,
+   * applying the same import/export stripping the in-app viewer uses,
+   * and append the code that mounts it.
+   */
+  static transpileComponent(componentCode: string): Promise<string> {
+    const source = componentCode
+      .split('\n')
+      .filter(line => !line.trim().match(/^import\s+/))
+      .join('\n')
+      .replace(/export\s+default\s+/g, '');
+
+    return new Promise((resolve, reject) => {
+      const iframe = document.createElement('iframe');
+      iframe.style.display = 'none';
+      iframe.sandbox.add('allow-scripts');
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        window.removeEventListener('message', handleMessage);
+        if (iframe.parentNode) {
+          document.body.removeChild(iframe);
+        }
+      };
+
+      const handleMessage = (event: MessageEvent) => {
+        if (event.source !== iframe.contentWindow || event.data?.type !== 'vantage-transpile') return;
+        cleanup();
+
+        if (event.data.error) {
+          reject(new Error(`Could not compile app: ${event.data.error}`));
+        } else {
+          resolve(`(function () {\n${event.data.code}\n\nReactDOM.createRoot(document.getElementById('root')).render(React.createElement(App));\n})();\n`);
+        }
+      };
+
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(new Error('Compiling the app timed out'));
+      }, TRANSPILE_TIMEOUT);
+
+      window.addEventListener('message', handleMessage);
+
+      iframe.srcdoc = `<!DOCTYPE html>
+<html>
+<head>
+  ${SandboxAssets.scriptTag('babel')}
+</head>
+<body>
+  <script>
+    try {
+      const result = Babel.transform(${escapeInlineScript(JSON.stringify(source))}, { presets: ['react'] });
+      parent.postMessage({ type: 'vantage-transpile', code: result.code }, '*');
+    } catch (error) {
+      parent.postMessage({ type: 'vantage-transpile', error: error.message }, '*');
+    }
+  </script>
+</body>
+</html>`;
+      document.body.appendChild(iframe);
+    });
+  }
+
+  private static slugify(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'vantage-app';
+  }
+}
@@ -0,0 +1,103 @@
+import { parse, ParseError } from '@babel/parser';
+
+export interface SyntaxDiagnostic {
+  message: string;
+  /** 1-based, like an editor */
+  line: number;
+  column: number;
+}
+
+export interface ScriptBlock {
+  code: string;
+  jsx: boolean;
+  module: boolean;
+  /** Position of the first character of `code` in the surrounding document, 1-based */
+  line: number;
+  column: number;
+}
+
+// Past this the first few errors are the useful ones; the rest are usually knock-on
+const MAX_DIAGNOSTICS = 5;
+
+const JS_TYPES = ['', 'text/javascript', 'application/javascript', 'module'];
+const JSX_TYPES = ['text/babel', 'text/jsx'];
+
+/**
+ * Syntax checking with Babel's parser instead of bracket counting, so
+ * strings, comments, regexes and JSX are understood and every problem comes
+ * with a line and column.
+ */
+export class SyntaxChecker {
+  static checkScript(code: string, options: { jsx?: boolean; module?: boolean } = {}): SyntaxDiagnostic[] {
+    const { jsx = false, module = true } = options;
+
+    try {
+      const result = parse(code, {
+        sourceType: module ? 'module' : 'script',
+        plugins: jsx ? ['jsx'] : [],
+        errorRecovery: true
+      });
+      return (result.errors || []).slice(0, MAX_DIAGNOSTICS).map(error => this.toDiagnostic(error));
+    } catch (error) {
+      // Errors the parser cannot recover from are thrown rather than collected
+      return [this.toDiagnostic(error as ParseError)];
+    }
+  }
+
+  /**
+   * Check every inline script of an HTML document; positions refer to the
+   * document, not the script
+   */
+  static checkHtmlScripts(html: string): SyntaxDiagnostic[] {
+    return this.extractScripts(html).flatMap(block =>
+      this.checkScript(block.code, { jsx: block.jsx, module: block.module }).map(diagnostic => ({
+        ...diagnostic,
+        line: diagnostic.line + block.line - 1,
+        column: diagnostic.line === 1 ? diagnostic.column + block.column - 1 : diagnostic.column
+      }))
+    );
+  }
+
+  /**
+   * Inline scripts the browser would run as JavaScript (or Babel would
+   * compile as JSX); external scripts and data blocks are skipped
+   */
+  static extractScripts(html: string): ScriptBlock[] {
+    const blocks: ScriptBlock[] = [];
+
+    for (const match of html.matchAll(/<script\b([^>]*)>([\s\S]*?)<\/script>/gi)) {
+      const [tag, attributes, code] = match;
+      if (/\ssrc\s*=/i.test(` ${attributes}`) || !code.trim()) continue;
+
+      const type = (attributes.match(/\btype\s*=\s*["']?([^"'\s>]*)/i)?.[1] || '').toLowerCase();
+      const jsx = JSX_TYPES.includes(type);
+      if (!jsx && !JS_TYPES.includes(type)) continue;
+
+      const start = (match.index ?? 0) + tag.length - code.length - '</script>'.length;
+      const before = html.slice(0, start);
+      const lastNewline = before.lastIndexOf('\n');
+      blocks.push({
+        code,
+        jsx,
+        module: type === 'module' || jsx,
+        line: before.split('\n').length,
+        column: start - lastNewline
+      });
+    }
+
+    return blocks;
+  }
+
+  static format(diagnostic: SyntaxDiagnostic): string {
+    return `Syntax error at line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`;
+  }
+
+  private static toDiagnostic(error: ParseError): SyntaxDiagnostic {
+    const message = (error?.message || 'Unknown syntax error').replace(/\s*\(\d+:\d+\)$/, '');
+    return {
+      message,
+      line: error?.loc?.line ?? 1,
+      column: (error?.loc?.column ?? 0) + 1
+    };
+  }
+}
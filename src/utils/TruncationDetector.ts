@@ -0,0 +1,77 @@
+import { AppKind } from '../models/VantageApp';
+
+export interface TruncationCheck {
+  truncated: boolean;
+  /** Why the output looks cut off; empty when it looks complete */
+  reasons: string[];
+}
+
+// How far back the start of a continuation is compared with the end of the text so far
+const MAX_OVERLAP = 500;
+const MIN_OVERLAP = 8;
+
+const count = (text: string, pattern: RegExp): number => (text.match(pattern) || []).length;
+
+/**
+ * Spots model output that stopped early - at the token limit, or structurally
+ * unfinished - and joins the parts of an output that was continued
+ */
+export class TruncationDetector {
+  static check(text: string, kind: AppKind, finishReason?: string): TruncationCheck {
+    const reasons: string[] = [];
+    const code = this.codeBody(text).trim();
+
+    if (finishReason === 'MAX_TOKENS') {
+      reasons.push('The model stopped at its output token limit');
+    }
+    if (count(text, /^\s*```/gm) % 2 === 1) {
+      reasons.push('A markdown code block is never closed');
+    }
+
+    if (kind === 'html') {
+      if (/<html[\s>]|<!DOCTYPE/i.test(code) && !/<\/html>/i.test(code)) {
+        reasons.push('The document has no closing </html> tag');
+      }
+      if (count(code, /<script\b/gi) > count(code, /<\/script>/gi)) {
+        reasons.push('A <script> block is never closed');
+      }
+      if (count(code, /<style\b/gi) > count(code, /<\/style>/gi)) {
+        reasons.push('A <style> block is never closed');
+      }
+    } else if (code && !/}\s*;?$/.test(code)) {
+      reasons.push('The component does not end with a closing brace');
+    }
+
+    return { truncated: reasons.length > 0, reasons };
+  }
+
+  /**
+   * Append a continuation to the text so far. Drops an opening code fence and
+   * any text the model repeated from where it stopped; a continuation that
+   * starts the file over replaces the text instead.
+   */
+  static stitch(previous: string, continuation: string): string {
+    const next = this.stripOpeningFence(continuation);
+    if (/^\s*(<!DOCTYPE|<html[\s>]|import\s+React\b)/i.test(next) && /(<!DOCTYPE|<html[\s>]|import\s+React\b)/i.test(previous)) {
+      return next;
+    }
+
+    const limit = Math.min(MAX_OVERLAP, previous.length, next.length);
+    for (let length = limit; length >= MIN_OVERLAP; length--) {
+      if (previous.endsWith(next.substring(0, length))) {
+        return previous + next.substring(length);
+      }
+    }
+    return previous + next;
+  }
+
+  // The code inside a closed fence, so text the model adds after it is ignored
+  private static codeBody(text: string): string {
+    const fenced = text.match(/```[\w-]*[ \t]*\n([\s\S]*?)\n\s*```/);
+    return fenced ? fenced[1] : this.stripOpeningFence(text);
+  }
+
+  private static stripOpeningFence(text: string): string {
+    return text.replace(/^\s*```[\w-]*[ \t]*\n/, '');
+  }
+}
@@ -3,6 +3,7 @@
 interface ImportMetaEnv {
   readonly VITE_GEMINI_API_KEY: string;
   readonly VITE_GEMINI_MODEL?: string;
+  readonly VITE_LLM_PROVIDER?: string;
   readonly VITE_DEBUG_MODE?: string;
 }
 
@@ -1,13 +1,50 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// Runtime libraries for the generated-app sandbox, served from /vendor so apps
+// run and test offline against pinned versions. Keep in sync with src/utils/SandboxAssets.ts
+const SANDBOX_VENDOR_FILES: Record<string, string> = {
+  "react.development.js": "react/umd/react.development.js",
+  "react-dom.development.js": "react-dom/umd/react-dom.development.js",
+  "babel.min.js": "@babel/standalone/babel.min.js",
+  // Tailwind v3 Play CDN build, matching the tailwindcss 3 the app itself uses
+  "tailwindcss.js": "tailwindcss-cdn/3.4.10/tailwindcss.js",
+};
+
+function sandboxVendor(): Plugin {
+  const resolveFile = (name: string) =>
+    path.resolve(__dirname, "node_modules", SANDBOX_VENDOR_FILES[name]);
+
+  return {
+    name: "sandbox-vendor",
+    configureServer(server) {
+      server.middlewares.use("/vendor", (req, res, next) => {
+        const name = (req.url ?? "").split("?")[0].replace(/^\//, "");
+        if (!SANDBOX_VENDOR_FILES[name]) return next();
+        res.setHeader("Content-Type", "text/javascript");
+        fs.createReadStream(resolveFile(name)).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const name of Object.keys(SANDBOX_VENDOR_FILES)) {
+        this.emitFile({
+          type: "asset",
+          fileName: `vendor/${name}`,
+          source: fs.readFileSync(resolveFile(name)),
+        });
+      }
+    },
+  };
+}
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), sandboxVendor()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),